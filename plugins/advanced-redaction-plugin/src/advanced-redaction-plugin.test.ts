@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createLogger, type LogMetadata, type LogRecord, type Transport } from 'loggical';
+import { AdvancedRedactionPlugin } from './advanced-redaction-plugin';
+
+describe('AdvancedRedactionPlugin', () => {
+  const capture = (name: string) => {
+    const records: LogRecord[] = [];
+    const transport: Transport = {
+      name,
+      write: (_message: string, metadata: LogMetadata) => {
+        records.push(metadata as LogRecord);
+      },
+    };
+    return { records, transport };
+  };
+
+  const setup = async (plugin: AdvancedRedactionPlugin, options: Record<string, unknown> = {}) => {
+    const screen = capture('console');
+    const http = capture('http');
+    const logger = createLogger({ transports: [screen.transport, http.transport], ...options });
+    await logger.installPlugin(plugin);
+    return { logger, screen: screen.records, http: http.records };
+  };
+
+  it('should redact messages and context', async () => {
+    const { logger, screen } = await setup(new AdvancedRedactionPlugin());
+
+    logger.withContext({ apiKey: 'k-123', requestId: 'r1' }).info('Charging 4111 1111 1111 1111', { password: 'hunter2', ssn: '123-45-6789' });
+
+    expect(screen[0].messages).toEqual(['Charging ****-****-****-****', { password: '***', ssn: '***' }]);
+    expect(screen[0].context).toEqual({ apiKey: '***', requestId: 'r1' });
+  });
+
+  it('should match short names as whole words of a key', async () => {
+    const { logger, screen } = await setup(new AdvancedRedactionPlugin());
+
+    logger.info({ monkey: 'George', shipping: 'express', privateKey: 'pk', pin_code: '1234', key: 'k' });
+
+    expect(screen[0].messages[0]).toEqual({ monkey: 'George', shipping: 'express', privateKey: '***', pin_code: '***', key: '***' });
+  });
+
+  it('should keep dates, collections and class instances', async () => {
+    class Account {
+      constructor(public id: number, public password: string) {}
+    }
+    const { logger, screen } = await setup(new AdvancedRedactionPlugin());
+    const date = new Date('2024-01-01T00:00:00Z');
+
+    logger.info(date, new Map([['token', 'abc'], ['user', 'ann']]), new Set(['Bearer abcdefghijklmnopqrstuvwxyz']), new Account(7, 'hunter2'));
+
+    const [loggedDate, map, set, account] = screen[0].messages;
+    expect(loggedDate).toEqual(date);
+    expect(map).toEqual(new Map([['token', '***'], ['user', 'ann']]));
+    expect(set).toEqual(new Set(['bearer ***']));
+    expect(account).toBeInstanceOf(Account);
+    expect(account).toEqual(new Account(7, '***'));
+  });
+
+  it('should keep repeat summaries intact', async () => {
+    const { logger, screen } = await setup(new AdvancedRedactionPlugin(), { dedupe: true });
+
+    logger.warn('Retrying');
+    logger.warn('Retrying');
+    logger.warn('Retrying');
+    logger.info('Done');
+
+    expect(screen[1].repeat).toEqual({ count: 2, first: expect.any(Date), last: expect.any(Date) });
+  });
+
+  it('should apply transport profiles on top of the base configuration', async () => {
+    const plugin = new AdvancedRedactionPlugin({ profiles: { http: { includeKeys: ['email'] } } });
+    const { logger, screen, http } = await setup(plugin);
+
+    logger.info({ email: 'ann@example.com', token: 'abc' });
+
+    expect(screen[0].messages[0]).toEqual({ email: 'ann@example.com', token: '***' });
+    expect(http[0].messages[0]).toEqual({ email: '***', token: '***' });
+  });
+
+  it('should count what was redacted', async () => {
+    const plugin = new AdvancedRedactionPlugin({ profiles: { http: { includeKeys: ['email'] } } });
+    const { logger } = await setup(plugin);
+
+    logger.info('SSN 123-45-6789', { email: 'ann@example.com', token: 'abc' });
+    logger.info('Nothing to hide');
+
+    expect(plugin.getStatus()).toMatchObject({
+      profiles: ['http'],
+      counters: { records: 1, keys: 1, patterns: { ssn: 1 } },
+      transportCounters: { http: { records: 1, keys: 2, patterns: { ssn: 1 } } },
+    });
+
+    plugin.resetCounters();
+
+    expect(plugin.getStatus()).toMatchObject({ counters: { records: 0, keys: 0, patterns: {} }, transportCounters: {} });
+  });
+});
@@ -1,24 +1,46 @@
 /**
  * Advanced Redaction Plugin for Loggical
- * 
+ *
  * This plugin adds sophisticated redaction patterns for credit cards, SSNs, JWTs, and custom patterns.
  * Use this when you need more than basic password/token redaction.
  */
 
-import type { Plugin } from 'loggical';
-import { advancedRedactValue, type AdvancedRedactionConfig } from './advanced-redaction';
+import type { LogRecord, Plugin, Transport } from 'loggical';
+import {
+  advancedRedactRecord,
+  createRedactionCounters,
+  type AdvancedRedactionConfig,
+  type RedactionCounters,
+} from './advanced-redaction';
+
+/**
+ * Plugin configuration: the base redaction plus per-transport profiles
+ */
+export interface AdvancedRedactionPluginConfig extends AdvancedRedactionConfig {
+  /**
+   * Redaction profiles by transport name, applied on top of the base
+   * configuration for that transport only
+   * (e.g. stricter for an HTTP sink, lenient for the local console)
+   */
+  profiles?: Record<string, AdvancedRedactionConfig>;
+}
 
 /**
  * Advanced redaction plugin with credit card, SSN, JWT pattern detection
+ *
+ * Takes over the logger's redaction while installed: messages, context and
+ * the rest of the record handed to transports go through advanced redaction
+ * instead of the core `redaction` option.
  */
 export class AdvancedRedactionPlugin implements Plugin {
   readonly name = 'advanced-redaction';
   readonly version = '1.0.0';
-  
-  private config: AdvancedRedactionConfig;
-  private originalRedactionFunction?: any;
 
-  constructor(config: AdvancedRedactionConfig = {}) {
+  private config: AdvancedRedactionPluginConfig;
+  private counters = createRedactionCounters();
+  private transportCounters = new Map<string, RedactionCounters>();
+
+  constructor(config: AdvancedRedactionPluginConfig = {}) {
     this.config = {
       keys: true,
       strings: true,
@@ -26,31 +48,36 @@ export class AdvancedRedactionPlugin implements Plugin {
     };
   }
 
-  async install(logger: any): Promise<void> {
-    // Store original redaction function
-    this.originalRedactionFunction = (logger as any).__redactionFunction;
-    
-    // Override the logger's redaction with advanced patterns
-    (logger as any).__redactionFunction = (value: unknown) => {
-      return advancedRedactValue(value, this.config);
-    };
-    
-    console.log('Advanced redaction plugin installed - Credit card, SSN, JWT patterns enabled');
+  install(): void {
+    // Nothing to set up - the logger calls redact() while the plugin is installed
   }
 
-  async uninstall(logger: any): Promise<void> {
-    // Restore original redaction function
-    if (this.originalRedactionFunction) {
-      (logger as any).__redactionFunction = this.originalRedactionFunction;
-    } else {
-      delete (logger as any).__redactionFunction;
+  /**
+   * Redact a record with the base configuration, or with the profile of a transport
+   * Transports without a profile get the record redacted with the base configuration.
+   */
+  redact(record: LogRecord, transport?: Transport): LogRecord | void {
+    if (!transport) {
+      return advancedRedactRecord(record, this.config, this.counters);
+    }
+
+    const profile = this.config.profiles?.[transport.name];
+    if (!profile) {
+      return undefined;
+    }
+
+    let counters = this.transportCounters.get(transport.name);
+    if (!counters) {
+      counters = createRedactionCounters();
+      this.transportCounters.set(transport.name, counters);
     }
-    
-    console.log('Advanced redaction plugin uninstalled');
+    return advancedRedactRecord(record, { ...this.config, ...profile }, counters);
   }
 
   /**
    * Get redaction configuration status
+   * `counters` counts what the base configuration redacted, `transportCounters`
+   * what each transport profile redacted.
    */
   getStatus(): Record<string, unknown> {
     return {
@@ -62,13 +89,26 @@ export class AdvancedRedactionPlugin implements Plugin {
         bearer: !this.config.excludePatterns?.includes('bearer'),
         apiKeys: !this.config.excludePatterns?.includes('apikey'),
       },
+      profiles: Object.keys(this.config.profiles ?? {}),
+      counters: structuredClone(this.counters),
+      transportCounters: Object.fromEntries(
+        [...this.transportCounters].map(([name, counters]) => [name, structuredClone(counters)]),
+      ),
     };
   }
 
+  /**
+   * Reset the redaction counters
+   */
+  resetCounters(): void {
+    this.counters = createRedactionCounters();
+    this.transportCounters.clear();
+  }
+
   /**
    * Update redaction configuration
    */
-  configure(newConfig: Partial<AdvancedRedactionConfig>): void {
+  configure(newConfig: Partial<AdvancedRedactionPluginConfig>): void {
     this.config = { ...this.config, ...newConfig };
   }
 }
@@ -3,6 +3,29 @@
  * Based on the original complex redaction system
  */
 
+import type { LogRecord } from 'loggical';
+
+// Basic sensitive key patterns, the same as core redaction - the plugin
+// replaces core redaction while installed, so it must cover them too
+const BASIC_SENSITIVE_KEYS = [
+  'password',
+  'passwd',
+  'pwd',
+  'secret',
+  'token',
+  'auth',
+  'authorization',
+  'bearer',
+  'jwt',
+  'key',
+  'apikey',
+  'api_key',
+];
+
+// Names that also occur inside harmless words (`monkey`, `shipping`): they
+// only match a whole word of the key (`key`, `privateKey`, `pin_code`)
+const WORD_SENSITIVE_KEYS = new Set(['key', 'pin']);
+
 // Advanced sensitive key patterns (beyond basic password/token)
 const ADVANCED_SENSITIVE_KEYS = [
   'ssn',
@@ -65,13 +88,59 @@ export interface AdvancedRedactionConfig {
   replacement?: string;
 }
 
+/**
+ * Counts of what was redacted
+ */
+export interface RedactionCounters {
+  /** Records that had at least one value redacted */
+  records: number;
+  /** Values redacted because of their key name */
+  keys: number;
+  /** String pattern matches redacted, by pattern name (`custom` for includePatterns) */
+  patterns: Record<string, number>;
+}
+
+/**
+ * Create empty counters
+ */
+export function createRedactionCounters(): RedactionCounters {
+  return { records: 0, keys: 0, patterns: {} };
+}
+
+/**
+ * Count redactions while a value is redacted
+ */
+interface RedactionTally {
+  keys: number;
+  patterns: Record<string, number>;
+}
+
+function countPattern(tally: RedactionTally | undefined, name: string, count: number): void {
+  if (tally && count > 0) {
+    tally.patterns[name] = (tally.patterns[name] ?? 0) + count;
+  }
+}
+
+/**
+ * Split a key into lowercase words at camelCase humps, `_`, `-` and spaces
+ */
+function splitKeyWords(key: string): string[] {
+  return key
+    .split(/[\s_-]+|(?<=[a-z\d])(?=[A-Z])/)
+    .map(word => word.toLowerCase());
+}
+
 /**
  * Check if a key name indicates sensitive data (advanced patterns)
  */
 function isAdvancedSensitiveKey(key: string, sensitiveKeys: string[]): boolean {
   const lowerKey = key.toLowerCase();
+  const words = splitKeyWords(key);
   return sensitiveKeys.some((pattern) => {
     const lowerPattern = pattern.toLowerCase();
+    if (WORD_SENSITIVE_KEYS.has(lowerPattern)) {
+      return words.includes(lowerPattern);
+    }
     return (
       lowerKey === lowerPattern || // Exact match
       lowerKey.includes(lowerPattern) || // Substring match
@@ -87,20 +156,21 @@ function isAdvancedSensitiveKey(key: string, sensitiveKeys: string[]): boolean {
 function redactStringWithAdvancedPatterns(
   text: string,
   config: AdvancedRedactionConfig,
+  tally?: RedactionTally,
 ): string {
   if (config.strings === false) {
     return text;
   }
 
   // Build string patterns list
-  const stringPatterns = Object.entries(ADVANCED_STRING_PATTERNS)
+  const stringPatterns: Array<{ name: string; pattern: RegExp; replacement: string }> = Object.entries(ADVANCED_STRING_PATTERNS)
     .filter(
       ([key]) =>
         !config.excludePatterns?.includes(
           key as keyof typeof ADVANCED_STRING_PATTERNS,
         ),
     )
-    .map(([, value]) => value);
+    .map(([name, value]) => ({ name, ...value }));
 
   // Add custom patterns
   if (config.includePatterns) {
@@ -110,6 +180,7 @@ function redactStringWithAdvancedPatterns(
         .map((pattern) => {
           try {
             return {
+              name: 'custom',
               pattern: new RegExp(pattern, 'gi'),
               replacement,
             };
@@ -118,17 +189,48 @@ function redactStringWithAdvancedPatterns(
             return null;
           }
         })
-        .filter(Boolean) as Array<{ pattern: RegExp; replacement: string }>),
+        .filter(Boolean) as Array<{ name: string; pattern: RegExp; replacement: string }>),
     );
   }
 
   let result = text;
-  for (const { pattern, replacement } of stringPatterns) {
-    result = result.replace(pattern, replacement);
+  for (const { name, pattern, replacement } of stringPatterns) {
+    let count = 0;
+    result = result.replace(pattern, () => {
+      count++;
+      return replacement;
+    });
+    countPattern(tally, name, count);
   }
   return result;
 }
 
+/**
+ * Redact string patterns in an error's message and stack
+ * Returns a copy with the same prototype when something was redacted.
+ */
+function redactErrorWithAdvancedPatterns(
+  error: Error,
+  config: AdvancedRedactionConfig,
+  tally?: RedactionTally,
+): Error {
+  const message = redactStringWithAdvancedPatterns(error.message, config, tally);
+  const stack = error.stack === undefined
+    ? undefined
+    : redactStringWithAdvancedPatterns(error.stack, config);
+  if (message === error.message && stack === error.stack) {
+    return error;
+  }
+
+  const copy = Object.create(
+    Object.getPrototypeOf(error),
+    Object.getOwnPropertyDescriptors(error),
+  ) as Error;
+  Object.defineProperty(copy, 'message', { value: message, writable: true, configurable: true });
+  Object.defineProperty(copy, 'stack', { value: stack, writable: true, configurable: true });
+  return copy;
+}
+
 /**
  * Redact sensitive values in objects using advanced patterns
  */
@@ -136,7 +238,12 @@ function redactObjectWithAdvancedPatterns(
   obj: unknown,
   config: AdvancedRedactionConfig,
   seen = new WeakSet(),
+  tally?: RedactionTally,
 ): unknown {
+  if (typeof obj === 'string') {
+    return redactStringWithAdvancedPatterns(obj, config, tally);
+  }
+
   if (obj === null || obj === undefined) {
     return obj;
   }
@@ -145,8 +252,13 @@ function redactObjectWithAdvancedPatterns(
     return obj;
   }
 
-  // Don't redact Error objects
+  // Errors keep their identity; only their message and stack are redacted
   if (obj instanceof Error) {
+    return redactErrorWithAdvancedPatterns(obj, config, tally);
+  }
+
+  // Dates and binary data have no keys to redact
+  if (obj instanceof Date || obj instanceof ArrayBuffer || ArrayBuffer.isView(obj)) {
     return obj;
   }
 
@@ -157,11 +269,15 @@ function redactObjectWithAdvancedPatterns(
   seen.add(obj);
 
   if (Array.isArray(obj)) {
-    return obj.map(item => redactObjectWithAdvancedPatterns(item, config, seen));
+    return obj.map(item => redactObjectWithAdvancedPatterns(item, config, seen, tally));
+  }
+
+  if (obj instanceof Set) {
+    return new Set([...obj].map(item => redactObjectWithAdvancedPatterns(item, config, seen, tally)));
   }
 
   // Build sensitive keys list
-  let sensitiveKeys = [...ADVANCED_SENSITIVE_KEYS];
+  let sensitiveKeys = [...BASIC_SENSITIVE_KEYS, ...ADVANCED_SENSITIVE_KEYS];
   if (config.excludeKeys) {
     sensitiveKeys = sensitiveKeys.filter(key => !config.excludeKeys!.includes(key));
   }
@@ -169,18 +285,27 @@ function redactObjectWithAdvancedPatterns(
     sensitiveKeys.push(...config.includeKeys);
   }
 
-  // Handle regular objects
-  const result: Record<string, unknown> = {};
   const replacement = config.replacement || DEFAULT_REDACTED_VALUE;
+  const redactEntry = (key: unknown, value: unknown): unknown => {
+    if (config.keys !== false && typeof key === 'string' && isAdvancedSensitiveKey(key, sensitiveKeys)) {
+      if (tally) {
+        tally.keys++;
+      }
+      return replacement;
+    }
+    return redactObjectWithAdvancedPatterns(value, config, seen, tally);
+  };
+
+  if (obj instanceof Map) {
+    return new Map([...obj].map(([key, value]) => [key, redactEntry(key, value)]));
+  }
+
+  // Handle regular objects, keeping the prototype so class instances
+  // still render as themselves
+  const result = Object.create(Object.getPrototypeOf(obj)) as Record<string, unknown>;
 
   for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-    if (config.keys !== false && isAdvancedSensitiveKey(key, sensitiveKeys)) {
-      result[key] = replacement;
-    } else if (typeof value === 'object' && value !== null) {
-      result[key] = redactObjectWithAdvancedPatterns(value, config, seen);
-    } else {
-      result[key] = value;
-    }
+    result[key] = redactEntry(key, value);
   }
 
   return result;
@@ -192,14 +317,44 @@ function redactObjectWithAdvancedPatterns(
 export function advancedRedactValue(
   value: unknown,
   config: AdvancedRedactionConfig = {},
+  tally?: RedactionTally,
 ): unknown {
-  if (typeof value === 'string') {
-    return redactStringWithAdvancedPatterns(value, config);
+  return redactObjectWithAdvancedPatterns(value, config, new WeakSet(), tally);
+}
+
+// Record fields that hold no user data
+const RECORD_FIELDS_KEPT = new Set(['level', 'timestamp', 'stackTrace', 'format', 'repeat']);
+
+/**
+ * Apply advanced redaction to a log record
+ * Redacts the messages, the context and every other metadata field that
+ * carries user data (prefix, namespace, fields added by processors).
+ * @param record Record to redact
+ * @param config Redaction configuration
+ * @param counters Counters to add this record's redactions to
+ * @returns Redacted copy of the record
+ */
+export function advancedRedactRecord(
+  record: LogRecord,
+  config: AdvancedRedactionConfig = {},
+  counters?: RedactionCounters,
+): LogRecord {
+  const tally: RedactionTally = { keys: 0, patterns: {} };
+  const result: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record)) {
+    result[field] = RECORD_FIELDS_KEPT.has(field)
+      ? value
+      : advancedRedactValue(value, config, tally);
   }
 
-  if (typeof value === 'object' && value !== null) {
-    return redactObjectWithAdvancedPatterns(value, config);
+  const patternCount = Object.values(tally.patterns).reduce((sum, count) => sum + count, 0);
+  if (counters && tally.keys + patternCount > 0) {
+    counters.records++;
+    counters.keys += tally.keys;
+    for (const [name, count] of Object.entries(tally.patterns)) {
+      counters.patterns[name] = (counters.patterns[name] ?? 0) + count;
+    }
   }
 
-  return value;
+  return result as unknown as LogRecord;
 }
@@ -6,5 +6,6 @@
  */
 
 export { AdvancedRedactionPlugin } from './advanced-redaction-plugin';
-export { advancedRedactValue } from './advanced-redaction';
-export type { AdvancedRedactionConfig } from './advanced-redaction';
+export type { AdvancedRedactionPluginConfig } from './advanced-redaction-plugin';
+export { advancedRedactValue, advancedRedactRecord } from './advanced-redaction';
+export type { AdvancedRedactionConfig, RedactionCounters } from './advanced-redaction';
@@ -3,8 +3,20 @@
  * This provides a convenient API while keeping namespaces completely opt-in
  */
 
+import { createLogger, type LogProcessor } from 'loggical';
 import { namespaceManager } from './namespace-manager';
 
+/**
+ * Create a processor that drops records below the namespace's configured level
+ */
+function createNamespaceFilter(namespace: string): LogProcessor {
+  return (record) => {
+    const namespaceLevel = namespaceManager.getMinLevelForNamespace(namespace);
+    // eslint-disable-next-line unicorn/no-null -- null drops the record
+    return namespaceLevel !== null && record.level < namespaceLevel ? null : record;
+  };
+}
+
 /**
  * Create a logger factory that works with a base logger instance
  * This is used by the plugin system to create namespaced loggers
@@ -12,34 +24,17 @@ import { namespaceManager } from './namespace-manager';
 export function createLoggerFactory(baseLogger: any) {
   return function getLogger(namespace: string): any {
     // Create a new logger based on the base logger
-    const LoggerClass = baseLogger.constructor;
-    const baseOptions = baseLogger.getOptions();
-    
-    const namespacedLogger = new LoggerClass({
-      ...baseOptions,
+    const namespacedLogger = createLogger({
+      ...baseLogger.getOptions(),
       // Remove any existing plugins to avoid double installation
       plugins: undefined
     });
 
     // Store the namespace on the logger for reference
     (namespacedLogger as any).__namespace = namespace;
-    
-    // Override the internal log method to check namespace levels
-    const originalLog = (namespacedLogger as any).log;
-    if (originalLog) {
-      (namespacedLogger as any).log = function(level: any, stackTrace: any, ...messages: any[]) {
-        // Check if this namespace should log at this level
-        const namespaceLevel = namespaceManager.getMinLevelForNamespace(namespace);
-        if (namespaceLevel !== null && level < namespaceLevel) {
-          return; // Skip logging if below namespace threshold
-        }
-        
-        // Call the original log method
-        return originalLog.call(this, level, stackTrace, ...messages);
-      };
-    }
 
-    return namespacedLogger;
+    // Check namespace levels in the record pipeline
+    return namespacedLogger.use(createNamespaceFilter(namespace));
   };
 }
 
@@ -2,7 +2,7 @@
  * Base transport implementation for WebSocket plugin
  */
 
-import type { LogMetadata, TransportOptions, LogLevelType } from './types';
+import type { LogMetadata, LogRecord, TransportOptions, LogLevelType } from './types';
 
 /**
  * Base transport class with common functionality
@@ -40,7 +40,16 @@ export abstract class BaseTransport {
   }
 
   /**
-   * Write with filtering and error handling
+   * Render the message with this transport's formatter when a full record is available
+   */
+  protected formatMessage(formattedMessage: string, metadata: LogMetadata): string {
+    const { formatter } = this.options;
+    const isRecord = Array.isArray((metadata as Partial<LogRecord>).messages);
+    return formatter && isRecord ? formatter(metadata as LogRecord) : formattedMessage;
+  }
+
+  /**
+   * Write with filtering, per-transport formatting and error handling
    */
   async safeWrite(formattedMessage: string, metadata: LogMetadata): Promise<void> {
     if (!this.shouldWrite(metadata.level, formattedMessage, metadata)) {
@@ -48,7 +57,7 @@ export abstract class BaseTransport {
     }
 
     try {
-      await this.write(formattedMessage, metadata);
+      await this.write(this.formatMessage(formattedMessage, metadata), metadata);
     } catch (error) {
       if (!this.options.silent) {
         console.error(`Transport "${this.name}" error:`, error);
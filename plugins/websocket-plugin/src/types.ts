@@ -6,6 +6,7 @@
 export type { 
   Plugin, 
   LogMetadata, 
+  LogRecord,
   TransportOptions, 
   LogLevelType 
 } from 'loggical';
@@ -3,6 +3,8 @@ import {
   parseLogLevel,
   parseColorLevel,
   parseBoolean,
+  parseNonNegativeNumber,
+  parseLevelRates,
 } from '@config/config-parsers';
 import { LogLevel, ColorLevel } from '@/types/core.types';
 
@@ -201,6 +203,35 @@ describe('Config Parsers', () => {
     });
   });
 
+  describe('parseNonNegativeNumber', () => {
+    it('should parse non-negative numbers', () => {
+      expect(parseNonNegativeNumber('100')).toBe(100);
+      expect(parseNonNegativeNumber(' 0.5 ')).toBe(0.5);
+      expect(parseNonNegativeNumber('0')).toBe(0);
+    });
+
+    it('should reject negative, empty and non-numeric values', () => {
+      expect(parseNonNegativeNumber('-1')).toBe(null);
+      expect(parseNonNegativeNumber('')).toBe(null);
+      expect(parseNonNegativeNumber('fast')).toBe(null);
+      expect(parseNonNegativeNumber('Infinity')).toBe(null);
+    });
+  });
+
+  describe('parseLevelRates', () => {
+    it('should parse rates per level', () => {
+      expect(parseLevelRates('debug=0.1, INFO=0.5')).toEqual({
+        [LogLevel.DEBUG]: 0.1,
+        [LogLevel.INFO]: 0.5,
+      });
+    });
+
+    it('should skip unknown levels and rates outside 0-1', () => {
+      expect(parseLevelRates('trace=0.1,warn=2,error=1')).toEqual({ [LogLevel.ERROR]: 1 });
+      expect(parseLevelRates('verbose')).toBe(null);
+    });
+  });
+
   describe('Parser Integration', () => {
     it('should handle empty strings consistently', () => {
       expect(parseLogLevel('')).toBe(null);
@@ -98,6 +98,19 @@ describe('Environment Configuration', () => {
       expect(config.shortTimestamp).toBe(true);
     });
 
+    it('should enable JSON output from LOGGER_FORMAT=json', () => {
+      globalThis.process = {
+        versions: { node: '18.0.0' },
+        env: {
+          LOGGER_FORMAT: 'JSON',
+        },
+      } as any;
+
+      const config = getEnvironmentConfig();
+      expect(config.format).toBe('json');
+      expect(config.colorLevel).toBe(ColorLevel.NONE);
+    });
+
     it('should override format presets with specific variables', () => {
       globalThis.process = {
         versions: { node: '18.0.0' },
@@ -130,6 +143,29 @@ describe('Environment Configuration', () => {
       expect(config.fatalExitsProcess).toBe(true);
     });
 
+    it('should merge sampling environment variables into one option', () => {
+      globalThis.process = {
+        versions: { node: '18.0.0' },
+        env: {
+          LOGGER_SAMPLE_RATES: 'debug=0.1',
+          LOGGER_SAMPLE_FIRST: '100',
+          LOGGER_SAMPLE_THEREAFTER: '10',
+          LOGGER_RATE_LIMIT: '50',
+          LOGGER_RATE_LIMIT_BURST: 'lots',
+          LOGGER_SAMPLE_SUMMARY_INTERVAL: '30000',
+        },
+      } as any;
+
+      const config = getEnvironmentConfig();
+      expect(config.sampling).toEqual({
+        rates: { [LogLevel.DEBUG]: 0.1 },
+        first: 100,
+        thereafter: 10,
+        rateLimit: 50,
+        summaryInterval: 30_000,
+      });
+    });
+
     it('should ignore invalid environment values', () => {
       globalThis.process = {
         versions: { node: '18.0.0' },
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import * as v8 from 'node:v8';
+import * as vm from 'node:vm';
+import { createLogger } from '@core/logger';
+import { processLoggerConfiguration } from '@config/config-merger';
+import { LogLevel } from '@/types/core.types';
+import type { Plugin } from '@/types/plugin.types';
+import type { LogMetadata, Transport } from '@/types/transport.types';
+
+vi.mock('@config/config-merger', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@config/config-merger')>();
+  return { ...actual, processLoggerConfiguration: vi.fn(actual.processLoggerConfiguration) };
+});
+
+describe('Child Loggers', () => {
+  const createCapture = (name = 'capture') => {
+    const records: LogMetadata[] = [];
+    const transport: Transport = {
+      name,
+      write: (_message: string, metadata: LogMetadata) => {
+        records.push(metadata);
+      },
+      close: vi.fn(async () => {}),
+    };
+    return { records, transport };
+  };
+
+  beforeEach(() => {
+    vi.mocked(processLoggerConfiguration).mockClear();
+  });
+
+  it('should derive options without processing the configuration again', () => {
+    const logger = createLogger({ minLevel: LogLevel.WARN, transports: [createCapture().transport] });
+
+    const child = logger.withPrefix('API').withContext({ requestId: 'r1' })({ compactObjects: true });
+
+    expect(processLoggerConfiguration).toHaveBeenCalledTimes(1);
+    expect(child.getOptions()).toMatchObject({
+      minLevel: LogLevel.WARN,
+      compactObjects: true,
+      prefix: ['API'],
+    });
+  });
+
+  it('should share the parent transports', () => {
+    const { transport } = createCapture();
+    const logger = createLogger({ transports: [transport] });
+
+    expect(logger.withPrefix('API').getTransports()[0]).toBe(transport);
+    expect(logger.withContext({ a: 1 }).getTransports()[0]).toBe(transport);
+  });
+
+  it('should reach children with transports added to the parent later', () => {
+    const { transport } = createCapture();
+    const { records, transport: added } = createCapture('added');
+    const logger = createLogger({ transports: [transport] });
+    const child = logger.withPrefix('API');
+    const perCall = logger({ compactObjects: true });
+
+    logger.addTransport(added);
+    child.info('From child');
+    perCall.info('From per-call child');
+
+    expect(records).toHaveLength(2);
+    expect(records[0].prefix).toEqual(['API']);
+  });
+
+  it('should keep per-call children on the parent context', () => {
+    const { records, transport } = createCapture();
+    const logger = createLogger({ transports: [transport] }).withContext({ service: 'api' });
+
+    logger({ maxValueLength: 10 }).info('With context');
+
+    expect(records[0].context).toEqual({ service: 'api' });
+  });
+
+  describe('close', () => {
+    it('should only flush shared transports when a child closes', async () => {
+      const { transport } = createCapture();
+      const logger = createLogger({ transports: [transport] });
+
+      await logger.withPrefix('API').close();
+
+      expect(transport.close).not.toHaveBeenCalled();
+      expect(logger.getTransports()).toHaveLength(1);
+    });
+
+    it('should close transports and child plugins from the root', async () => {
+      const { transport } = createCapture();
+      const plugin: Plugin = { name: 'child-plugin', install: () => {}, onClose: vi.fn(), uninstall: vi.fn() };
+      const logger = createLogger({ transports: [transport] });
+      const child = logger.withPrefix('API');
+      await child.installPlugin(plugin);
+
+      expect(logger.hasPlugin('child-plugin')).toBe(false);
+
+      await logger.close();
+
+      expect(plugin.onClose).toHaveBeenCalledTimes(1);
+      expect(plugin.uninstall).toHaveBeenCalledTimes(1);
+      expect(transport.close).toHaveBeenCalledTimes(1);
+      expect(child.getTransports()).toEqual([]);
+    });
+
+    it('should not close child plugins twice', async () => {
+      const plugin: Plugin = { name: 'child-plugin', install: () => {}, onClose: vi.fn() };
+      const logger = createLogger({ transports: [createCapture().transport] });
+      const child = logger.withContext({ a: 1 });
+      await child.installPlugin(plugin);
+
+      await child.close();
+      await logger.close();
+
+      expect(plugin.onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let children with plugins be collected without being closed', async () => {
+      v8.setFlagsFromString('--expose-gc');
+      const gc = vm.runInNewContext('gc') as () => void;
+      const logger = createLogger({ transports: [createCapture().transport] });
+      const install = async () => {
+        const plugin: Plugin = { name: 'child-plugin', install: () => {} };
+        await logger.withPrefix('REQUEST').installPlugin(plugin);
+        return new WeakRef(plugin);
+      };
+      const plugin = await install();
+
+      for (let attempt = 0; attempt < 10 && plugin.deref(); attempt++) {
+        await new Promise(resolve => setImmediate(resolve));
+        gc();
+      }
+
+      expect(plugin.deref()).toBeUndefined();
+      await logger.close();
+    });
+  });
+});
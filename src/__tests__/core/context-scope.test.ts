@@ -0,0 +1,144 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { runWithContext, getScopedContext } from '@core/context-scope';
+import { createLogger } from '@core/logger';
+import type { LogMetadata, Transport } from '@/types/transport.types';
+
+describe('Context Scope', () => {
+  const createCapture = () => {
+    const records: LogMetadata[] = [];
+    const transport: Transport = {
+      name: 'capture',
+      write: (_message: string, metadata: LogMetadata) => {
+        records.push(metadata);
+      },
+    };
+    return { records, transport };
+  };
+
+  describe('runWithContext', () => {
+    it('should expose context only inside the scope', () => {
+      expect(getScopedContext()).toBeUndefined();
+
+      runWithContext({ requestId: 'req-1' }, () => {
+        expect(getScopedContext()).toEqual({ requestId: 'req-1' });
+      });
+
+      expect(getScopedContext()).toBeUndefined();
+    });
+
+    it('should return the function result', () => {
+      expect(runWithContext({ a: 1 }, () => 42)).toBe(42);
+    });
+
+    it('should merge nested scopes', () => {
+      runWithContext({ requestId: 'req-1', step: 'outer' }, () => {
+        runWithContext({ step: 'inner' }, () => {
+          expect(getScopedContext()).toEqual({ requestId: 'req-1', step: 'inner' });
+        });
+        expect(getScopedContext()).toEqual({ requestId: 'req-1', step: 'outer' });
+      });
+    });
+
+    it('should follow async work started in the scope', async () => {
+      const seen = await runWithContext({ requestId: 'req-async' }, async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        return getScopedContext();
+      });
+
+      expect(seen).toEqual({ requestId: 'req-async' });
+    });
+
+    it('should keep concurrent scopes apart', async () => {
+      const run = (id: string, delay: number) =>
+        runWithContext({ requestId: id }, async () => {
+          await new Promise(resolve => setTimeout(resolve, delay));
+          return getScopedContext()?.requestId;
+        });
+
+      await expect(Promise.all([run('a', 10), run('b', 1)])).resolves.toEqual(['a', 'b']);
+    });
+  });
+
+  describe('logger integration', () => {
+    it('should add scoped context to getContext and transport metadata', () => {
+      const { records, transport } = createCapture();
+      const logger = createLogger({ transports: [transport] });
+
+      runWithContext({ requestId: 'req-7' }, () => {
+        expect(logger.getContext()).toEqual({ requestId: 'req-7' });
+        logger.info('Handling request');
+      });
+      logger.info('Outside');
+
+      expect(records[0].context).toEqual({ requestId: 'req-7' });
+      expect(records[1].context).toEqual({});
+    });
+
+    it('should let the logger context override scoped keys', () => {
+      const { records, transport } = createCapture();
+      const logger = createLogger({ transports: [transport] }).withContext({ service: 'api', requestId: 'fixed' });
+
+      runWithContext({ requestId: 'req-8', userId: 'u1' }, () => {
+        logger.info('Merged');
+      });
+
+      expect(records[0].context).toEqual({ requestId: 'fixed', userId: 'u1', service: 'api' });
+    });
+
+    it('should redact scoped context', () => {
+      const { records, transport } = createCapture();
+      const logger = createLogger({ transports: [transport], redaction: true });
+
+      runWithContext({ token: 'secret' }, () => {
+        logger.info('Redacted');
+      });
+
+      expect(records[0].context).toEqual({ token: '***' });
+    });
+  });
+
+  describe('browser fallback', () => {
+    afterEach(() => {
+      vi.doUnmock('@environment/detection');
+      vi.doUnmock('node:async_hooks');
+      vi.resetModules();
+    });
+
+    it('should use a synchronous stack without AsyncLocalStorage', async () => {
+      vi.resetModules();
+      vi.doMock('@environment/detection', async importOriginal => ({
+        ...await importOriginal<typeof import('@environment/detection')>(),
+        isNodeEnvironment: () => false,
+      }));
+      const scope = await import('@core/context-scope');
+
+      scope.runWithContext({ requestId: 'browser' }, () => {
+        expect(scope.getScopedContext()).toEqual({ requestId: 'browser' });
+        scope.runWithContext({ step: 'nested' }, () => {
+          expect(scope.getScopedContext()).toEqual({ requestId: 'browser', step: 'nested' });
+        });
+      });
+
+      expect(scope.getScopedContext()).toBeUndefined();
+      expect(() => scope.runWithContext({}, () => {
+        throw new Error('boom');
+      })).toThrow('boom');
+      expect(scope.getScopedContext()).toBeUndefined();
+    });
+
+    it('should use a synchronous stack when node:async_hooks is stubbed by a bundler', async () => {
+      vi.resetModules();
+      vi.doMock('node:async_hooks', () => ({ AsyncLocalStorage: undefined }));
+      const scope = await import('@core/context-scope');
+
+      const seen = await scope.runWithContext({ requestId: 'bundled' }, async () => {
+        const before = scope.getScopedContext();
+        await Promise.resolve();
+        return [before, scope.getScopedContext()];
+      });
+
+      // Only the synchronous part of the scope sees the context
+      expect(seen).toEqual([{ requestId: 'bundled' }, undefined]);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { Deduplicator } from '@core/deduplicator';
+import { createLogger } from '@core/logger';
+import { LogLevel, type LogLevelType } from '@/types/core.types';
+import type { LogMetadata, LogRecord, Transport } from '@/types/transport.types';
+
+describe('Deduplicator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const record = (message: string, level: LogLevelType = LogLevel.ERROR, prefix?: string[]): LogRecord => ({
+    level,
+    timestamp: new Date(),
+    messages: [message, { code: 'ECONNREFUSED' }],
+    prefix,
+  });
+
+  const push = (deduplicator: Deduplicator, count: number, message = 'Connection refused') =>
+    Array.from({ length: count }, () => {
+      vi.advanceTimersByTime(10);
+      return deduplicator.push(record(message));
+    });
+
+  describe('consecutive', () => {
+    it('should hold repeats and summarize them when the run ends', () => {
+      const deduplicator = new Deduplicator({}, vi.fn());
+
+      const results = push(deduplicator, 4);
+      const ended = deduplicator.push(record('Recovered', LogLevel.INFO));
+
+      expect(results.map(result => result.repeated)).toEqual([false, true, true, true]);
+      expect(ended.repeated).toBe(false);
+      expect(ended.summaries).toHaveLength(1);
+      expect(ended.summaries[0].messages).toEqual([
+        'Repeated 3 times from 2024-01-01T00:00:00.020Z to 2024-01-01T00:00:00.040Z:',
+        'Connection refused',
+        { code: 'ECONNREFUSED' },
+      ]);
+      expect(ended.summaries[0].level).toBe(LogLevel.ERROR);
+      expect(ended.summaries[0].repeat).toEqual({
+        count: 3,
+        first: new Date('2024-01-01T00:00:00.020Z'),
+        last: new Date('2024-01-01T00:00:00.040Z'),
+      });
+    });
+
+    it('should not summarize a message that was not repeated', () => {
+      const deduplicator = new Deduplicator({}, vi.fn());
+      deduplicator.push(record('a'));
+
+      expect(deduplicator.push(record('b')).summaries).toEqual([]);
+    });
+
+    it('should tell apart levels and prefixes', () => {
+      const deduplicator = new Deduplicator({}, vi.fn());
+      deduplicator.push(record('a'));
+
+      expect(deduplicator.push(record('a', LogLevel.WARN)).repeated).toBe(false);
+      expect(deduplicator.push(record('a', LogLevel.WARN, ['db'])).repeated).toBe(false);
+      expect(deduplicator.push(record('a', LogLevel.WARN, ['db'])).repeated).toBe(true);
+    });
+
+    it('should tell apart different errors', () => {
+      const deduplicator = new Deduplicator({}, vi.fn());
+      const failure = (code: string): LogRecord => ({
+        level: LogLevel.ERROR,
+        timestamp: new Date(),
+        messages: ['Request failed', new Error(code)],
+      });
+
+      const results = ['ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN'].map(code => deduplicator.push(failure(code)));
+
+      expect(results.map(result => result.repeated)).toEqual([false, false, false]);
+    });
+
+    it('should tell apart different contexts', () => {
+      const deduplicator = new Deduplicator({}, vi.fn());
+      const warning = (user: number): LogRecord => ({
+        level: LogLevel.WARN,
+        timestamp: new Date(),
+        messages: ['Quota exceeded'],
+        context: { user },
+      });
+
+      deduplicator.push(warning(1));
+
+      expect(deduplicator.push(warning(2)).repeated).toBe(false);
+      expect(deduplicator.push(warning(2)).repeated).toBe(true);
+    });
+
+    it('should write the summary when the timer fires and keep collapsing', () => {
+      const onFlush = vi.fn();
+      const deduplicator = new Deduplicator({ window: 1000 }, onFlush);
+      push(deduplicator, 3);
+
+      vi.advanceTimersByTime(1000);
+
+      expect(onFlush).toHaveBeenCalledTimes(1);
+      expect(onFlush.mock.calls[0][0][0].repeat.count).toBe(2);
+      expect(push(deduplicator, 1)[0].repeated).toBe(true);
+    });
+  });
+
+  describe('window', () => {
+    it('should hold repeats that are not consecutive', () => {
+      const onFlush = vi.fn();
+      const deduplicator = new Deduplicator({ mode: 'window', window: 1000 }, onFlush);
+
+      push(deduplicator, 1, 'a');
+      push(deduplicator, 1, 'b');
+      const results = [...push(deduplicator, 2, 'a'), ...push(deduplicator, 1, 'b')];
+
+      expect(results.map(result => result.repeated)).toEqual([true, true, true]);
+
+      vi.advanceTimersByTime(1000);
+
+      const summaries = onFlush.mock.calls[0][0] as LogRecord[];
+      expect(summaries.map(summary => [summary.messages[1], summary.repeat?.count])).toEqual([['a', 2], ['b', 1]]);
+      expect(push(deduplicator, 1, 'a')[0].repeated).toBe(false);
+    });
+  });
+
+  it('should take pending summaries on flush', () => {
+    const onFlush = vi.fn();
+    const deduplicator = new Deduplicator({}, onFlush);
+    push(deduplicator, 2);
+
+    expect(deduplicator.flush()).toHaveLength(1);
+
+    vi.advanceTimersByTime(10_000);
+
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+
+  it('should resolve the logger option', () => {
+    expect(Deduplicator.resolveOptions(undefined)).toBeUndefined();
+    expect(Deduplicator.resolveOptions(false)).toBeUndefined();
+    expect(Deduplicator.resolveOptions(true)).toEqual({});
+    expect(Deduplicator.resolveOptions({ mode: 'window' })).toEqual({ mode: 'window' });
+  });
+
+  describe('logger integration', () => {
+    const capture = (name: string) => {
+      const records: LogRecord[] = [];
+      const transport: Transport = {
+        name,
+        write: (_message: string, metadata: LogMetadata) => {
+          records.push(metadata as LogRecord);
+        },
+      };
+      return { records, transport };
+    };
+
+    it('should collapse repeats into one line', () => {
+      const { records, transport } = capture('console');
+      const logger = createLogger({ transports: [transport], dedupe: true });
+
+      for (let index = 0; index < 1000; index++) {
+        logger.error('Database unavailable');
+      }
+      logger.info('Database back');
+
+      expect(records).toHaveLength(3);
+      expect(records[1].messages[0]).toMatch(/^Repeated 999 times from /);
+      expect(records[1].repeat?.count).toBe(999);
+      expect(records[2].messages).toEqual(['Database back']);
+    });
+
+    it('should write each distinct error and context', () => {
+      const { records, transport } = capture('console');
+      const logger = createLogger({ transports: [transport], dedupe: true });
+
+      for (const code of ['ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN']) {
+        logger.error('Request failed', new Error(code));
+      }
+      logger.withContext({ user: 1 }).warn('Quota exceeded');
+      logger.withContext({ user: 2 }).warn('Quota exceeded');
+
+      expect(records.map(record => (record.messages[1] as Error | undefined)?.message ?? record.context)).toEqual([
+        'ECONNREFUSED',
+        'ETIMEDOUT',
+        'EAI_AGAIN',
+        { user: 1 },
+        { user: 2 },
+      ]);
+      expect(records.some(record => record.repeat)).toBe(false);
+    });
+
+    it('should collapse only the selected transports', () => {
+      const screen = capture('console');
+      const file = capture('file');
+      const logger = createLogger({
+        transports: [screen.transport, file.transport],
+        dedupe: { transports: ['console'] },
+      });
+
+      for (let index = 0; index < 5; index++) {
+        logger.error('Database unavailable');
+      }
+      logger.info('Database back');
+
+      expect(screen.records.map(record => record.repeat?.count)).toEqual([undefined, 4, undefined]);
+      expect(file.records).toHaveLength(6);
+      expect(file.records.some(record => record.repeat)).toBe(false);
+    });
+
+    it('should share collapsing with derived loggers', () => {
+      const { records, transport } = capture('console');
+      const logger = createLogger({ transports: [transport], dedupe: true });
+      const worker = logger.withPrefix('worker');
+
+      worker.warn('Retrying');
+      worker.warn('Retrying');
+      logger.warn('Retrying');
+
+      expect(records.map(record => [record.prefix, record.repeat?.count])).toEqual([
+        [['worker'], undefined],
+        [['worker'], 1],
+        [undefined, undefined],
+      ]);
+    });
+
+    it('should write pending summaries on close', async () => {
+      const { records, transport } = capture('console');
+      const logger = createLogger({ transports: [transport], dedupe: { window: 60_000 } });
+      logger.error('Timeout');
+      logger.error('Timeout');
+
+      await logger.close();
+
+      expect(records.at(-1)?.repeat?.count).toBe(1);
+    });
+  });
+});
@@ -2,11 +2,20 @@ import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
 import { LogFormatter } from '@core/log-formatter';
 import { LogLevel, ColorLevel } from '@/types/core.types';
 import type { LoggerOptions } from '@/types/logger.types';
+import type { LogRecord } from '@/types/transport.types';
 import kleur from 'kleur';
 
 // Force colors to be enabled for testing
 const originalEnabled = kleur.enabled;
 
+function createRecord(
+  level: LogRecord['level'],
+  messages: unknown[],
+  context: Record<string, unknown>,
+): LogRecord {
+  return { level, messages, context, timestamp: new Date() };
+}
+
 describe('LogFormatter', () => {
   let mockDateNow: ReturnType<typeof vi.spyOn>;
   let currentTime: number;
@@ -42,7 +51,7 @@ describe('LogFormatter', () => {
     });
   });
 
-  describe('formatLog', () => {
+  describe('formatRecord', () => {
     it('should format basic log message', () => {
       const options: LoggerOptions = {
         colorLevel: ColorLevel.NONE,
@@ -51,7 +60,7 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Hello world'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Hello world'], {}));
 
       expect(result).toContain('INFO');
       expect(result).toContain('Hello world');
@@ -66,11 +75,11 @@ describe('LogFormatter', () => {
       const formatter = new LogFormatter(options);
 
       const context = { userId: '123', sessionId: 'abc' };
-      const result = formatter.formatLog(
+      const result = formatter.formatRecord(createRecord(
         LogLevel.INFO,
         ['Test message'],
         context,
-      );
+      ));
 
       expect(result).toContain('userId=123');
       expect(result).toContain('sessionId=abc');
@@ -84,11 +93,11 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(
+      const result = formatter.formatRecord(createRecord(
         LogLevel.WARN,
         ['Warning:', 'Something went wrong', { error: 'timeout' }],
         {},
-      );
+      ));
 
       expect(result).toContain('WARN');
       expect(result).toContain('Warning:');
@@ -104,7 +113,7 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(LogLevel.INFO, [], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, [], {}));
 
       expect(result).toContain('INFO');
       // Empty messages array should still produce at least the level output
@@ -118,7 +127,7 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(LogLevel.ERROR, ['Error message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.ERROR, ['Error message'], {}));
 
       expect(result).toContain('Error message');
       // Result should contain ANSI color codes when colors are enabled
@@ -133,7 +142,7 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Test message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Test message'], {}));
 
       expect(result).toMatch(/\d{2}:\d{2}:\d{2}\.\d{3}/);
       expect(result).toContain('Test message');
@@ -147,7 +156,7 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Test message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Test message'], {}));
 
       expect(result).toMatch(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z/);
       expect(result).toContain('Test message');
@@ -161,7 +170,7 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Test message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Test message'], {}));
 
       expect(result).toContain('[API:AUTH]');
       expect(result).toContain('Test message');
@@ -175,7 +184,7 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(LogLevel.ERROR, ['Error message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.ERROR, ['Error message'], {}));
 
       expect(result).toContain('❌');
       expect(result).toContain('Error message');
@@ -189,11 +198,11 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(
+      const result = formatter.formatRecord(createRecord(
         LogLevel.INFO,
         [{ name: 'test', value: 42 }],
         {},
-      );
+      ));
 
       expect(result).toContain('name: "test"');
       expect(result).toContain('value: 42');
@@ -208,7 +217,7 @@ describe('LogFormatter', () => {
       const formatter = new LogFormatter(options);
 
       const obj = { name: 'test', value: 42 };
-      const result = formatter.formatLog(LogLevel.INFO, [obj], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, [obj], {}));
 
       expect(result).toContain(JSON.stringify(obj, null, 2));
     });
@@ -224,7 +233,7 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['First message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['First message'], {}));
 
       expect(result).not.toContain('+');
       expect(result).toContain('First message');
@@ -239,13 +248,13 @@ describe('LogFormatter', () => {
       const formatter = new LogFormatter(options);
 
       // First log to establish baseline
-      formatter.formatLog(LogLevel.INFO, ['First message'], {});
+      formatter.formatRecord(createRecord(LogLevel.INFO, ['First message'], {}));
 
       // Advance time by 500ms
       currentTime += 500;
       mockDateNow.mockReturnValue(currentTime);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Second message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Second message'], {}));
 
       expect(result).toContain('+500ms');
       expect(result).toContain('Second message');
@@ -260,13 +269,13 @@ describe('LogFormatter', () => {
       const formatter = new LogFormatter(options);
 
       // First log to establish baseline
-      formatter.formatLog(LogLevel.INFO, ['First message'], {});
+      formatter.formatRecord(createRecord(LogLevel.INFO, ['First message'], {}));
 
       // Advance time by 5 seconds
       currentTime += 5000;
       mockDateNow.mockReturnValue(currentTime);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Second message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Second message'], {}));
 
       expect(result).toContain('+5s');
       expect(result).toContain('Second message');
@@ -281,13 +290,13 @@ describe('LogFormatter', () => {
       const formatter = new LogFormatter(options);
 
       // First log to establish baseline
-      formatter.formatLog(LogLevel.INFO, ['First message'], {});
+      formatter.formatRecord(createRecord(LogLevel.INFO, ['First message'], {}));
 
       // Advance time by 2 minutes
       currentTime += 120_000;
       mockDateNow.mockReturnValue(currentTime);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Second message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Second message'], {}));
 
       expect(result).toContain('+2m');
       expect(result).toContain('Second message');
@@ -302,19 +311,19 @@ describe('LogFormatter', () => {
       const formatter = new LogFormatter(options);
 
       // First log
-      const result1 = formatter.formatLog(LogLevel.INFO, ['Message 1'], {});
+      const result1 = formatter.formatRecord(createRecord(LogLevel.INFO, ['Message 1'], {}));
       expect(result1).not.toContain('+');
 
       // Second log after 100ms
       currentTime += 100;
       mockDateNow.mockReturnValue(currentTime);
-      const result2 = formatter.formatLog(LogLevel.INFO, ['Message 2'], {});
+      const result2 = formatter.formatRecord(createRecord(LogLevel.INFO, ['Message 2'], {}));
       expect(result2).toContain('+100ms');
 
       // Third log after another 2 seconds
       currentTime += 2000;
       mockDateNow.mockReturnValue(currentTime);
-      const result3 = formatter.formatLog(LogLevel.INFO, ['Message 3'], {});
+      const result3 = formatter.formatRecord(createRecord(LogLevel.INFO, ['Message 3'], {}));
       expect(result3).toContain('+2s');
     });
 
@@ -326,12 +335,12 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      formatter.formatLog(LogLevel.INFO, ['First message'], {});
+      formatter.formatRecord(createRecord(LogLevel.INFO, ['First message'], {}));
 
       currentTime += 1000;
       mockDateNow.mockReturnValue(currentTime);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Second message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Second message'], {}));
 
       expect(result).toContain('+1s');
     });
@@ -344,12 +353,12 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      formatter.formatLog(LogLevel.INFO, ['First message'], {});
+      formatter.formatRecord(createRecord(LogLevel.INFO, ['First message'], {}));
 
       currentTime += 60_000;
       mockDateNow.mockReturnValue(currentTime);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Second message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Second message'], {}));
 
       expect(result).toContain('+1m');
     });
@@ -379,7 +388,7 @@ describe('LogFormatter', () => {
       ];
 
       // First log
-      const result1 = formatter.formatLog(LogLevel.INFO, messages, context);
+      const result1 = formatter.formatRecord(createRecord(LogLevel.INFO, messages, context));
       expect(result1).toMatch(/\d{2}:\d{2}:\d{2}\.\d{3}/); // Timestamp
       expect(result1).toContain('ℹ️'); // Symbol
       expect(result1).toContain('[API:AUTH]'); // Prefix
@@ -389,11 +398,11 @@ describe('LogFormatter', () => {
       // Second log with relative time
       currentTime += 500;
       mockDateNow.mockReturnValue(currentTime);
-      const result2 = formatter.formatLog(
+      const result2 = formatter.formatRecord(createRecord(
         LogLevel.HIGHLIGHT,
         ['Operation completed'],
         context,
-      );
+      ));
       expect(result2).toContain('Operation completed'); // Relative time feature removed
     });
 
@@ -408,11 +417,11 @@ describe('LogFormatter', () => {
       const error = new Error('Something went wrong');
       error.stack = 'Error: Something went wrong\n    at test.js:1:1';
 
-      const result = formatter.formatLog(
+      const result = formatter.formatRecord(createRecord(
         LogLevel.ERROR,
         ['Operation failed:', error],
         { operation: 'database-query' },
-      );
+      ));
 
       expect(result).toContain('Operation failed:');
       expect(result).toContain('Somet'); // Error message should be present (may be truncated)
@@ -430,7 +439,7 @@ describe('LogFormatter', () => {
       const longMessage =
         'This is a very long message that should be truncated because it exceeds the maximum value length configured for the formatter';
 
-      const result = formatter.formatLog(LogLevel.INFO, [longMessage], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, [longMessage], {}));
 
       expect(result).toContain(
         'This is a very long message that should be trun...',
@@ -446,7 +455,7 @@ describe('LogFormatter', () => {
       };
       const formatter = new LogFormatter(options);
 
-      const result = formatter.formatLog(LogLevel.INFO, ['Test message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Test message'], {}));
 
       expect(result).toContain('Test message');
       expect(result).not.toContain('='); // No context formatting
@@ -468,11 +477,11 @@ describe('LogFormatter', () => {
         validValue: 'test',
       };
 
-      const result = formatter.formatLog(
+      const result = formatter.formatRecord(createRecord(
         LogLevel.INFO,
         ['Test message'],
         context,
-      );
+      ));
 
       expect(result).toContain('nullValue=null');
       expect(result).toContain('undefinedValue=undefined');
@@ -493,7 +502,7 @@ describe('LogFormatter', () => {
 
       // Circular references in context should be handled by the serialization layer
       // The formatter itself may throw if the underlying serialization fails
-      const result = formatter.formatLog(LogLevel.INFO, ['Test message'], {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, ['Test message'], {}));
       expect(result).toContain('Test message');
     });
   });
@@ -513,11 +522,11 @@ describe('LogFormatter', () => {
       }
 
       const startTime = Date.now();
-      const result = formatter.formatLog(
+      const result = formatter.formatRecord(createRecord(
         LogLevel.INFO,
         ['Test message'],
         largeContext,
-      );
+      ));
       const endTime = Date.now();
 
       expect(result).toContain('Test message');
@@ -534,7 +543,7 @@ describe('LogFormatter', () => {
       const manyMessages = Array.from({ length: 50 }, (_, i) => `Message ${i}`);
 
       const startTime = Date.now();
-      const result = formatter.formatLog(LogLevel.INFO, manyMessages, {});
+      const result = formatter.formatRecord(createRecord(LogLevel.INFO, manyMessages, {}));
       const endTime = Date.now();
 
       expect(result).toContain('Message 0');
@@ -1,4 +1,4 @@
-import { createLogger, logger, LogLevel } from '@/index';
+import { createLogger, lazy, logger, LogLevel, ColorLevel } from '@/index';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 describe('Logger', () => {
@@ -125,4 +125,90 @@ describe('Logger', () => {
       expect(consoleInfoMock).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('lazy messages', () => {
+    it('should evaluate lazy messages when the level is enabled', () => {
+      const testLogger = createLogger({ minLevel: LogLevel.INFO, colorLevel: ColorLevel.NONE });
+
+      testLogger.info('Computed', lazy(() => 'lazy value'));
+
+      expect(consoleInfoMock).toHaveBeenCalledTimes(1);
+      expect(consoleInfoMock.mock.calls[0][0]).toContain('lazy value');
+    });
+
+    it('should not evaluate lazy messages when the level is disabled', () => {
+      const testLogger = createLogger({ minLevel: LogLevel.INFO });
+      const dump = vi.fn(() => 'expensive');
+
+      testLogger.debug(lazy(dump));
+
+      expect(dump).not.toHaveBeenCalled();
+    });
+
+    it('should log the error when a lazy message throws', () => {
+      const transport = { name: 'capture', write: vi.fn() };
+      const testLogger = createLogger({ transports: [transport] });
+
+      testLogger.info('Dump', lazy(() => {
+        throw new Error('dump failed');
+      }));
+
+      const record = transport.write.mock.calls[0][1];
+      expect(record.messages[1]).toBeInstanceOf(Error);
+      expect(record.messages[1].message).toBe('dump failed');
+    });
+
+    it('should never call plain functions passed as messages', () => {
+      const transport = { name: 'capture', write: vi.fn() };
+      const testLogger = createLogger({ transports: [transport] });
+      const handler = vi.fn();
+
+      testLogger.info('Registered handler', handler, class Worker {});
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(transport.write.mock.calls[0][1].messages[1]).toBe(handler);
+    });
+
+    it('should call bare functions as lazy messages with lazyMessages', () => {
+      const transport = { name: 'capture', write: vi.fn() };
+      const testLogger = createLogger({ transports: [transport], lazyMessages: true });
+      const dump = vi.fn(() => 'expensive');
+      const handler = vi.fn((_event: unknown) => {});
+
+      testLogger.debug(dump);
+      testLogger.info(() => 'State', handler);
+
+      expect(dump).not.toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+      expect(transport.write.mock.calls[0][1].messages).toEqual(['State', handler]);
+    });
+  });
+
+  describe('captureCaller option', () => {
+    const logWith = (captureCaller: 'always' | 'errors' | 'never') => {
+      const transport = { name: 'capture', write: vi.fn() };
+      const testLogger = createLogger({ transports: [transport], captureCaller });
+      testLogger.info('Info');
+      testLogger.error('Error');
+      return transport.write.mock.calls.map(call => call[1].stackTrace);
+    };
+
+    it('should capture the caller for every call by default', () => {
+      const [info, error] = logWith('always');
+      expect(info).toBeDefined();
+      expect(error).toBeDefined();
+    });
+
+    it('should only capture the caller for errors in errors mode', () => {
+      const [info, error] = logWith('errors');
+      expect(info).toBeUndefined();
+      expect(error).toBeDefined();
+    });
+
+    it('should never capture the caller when disabled', () => {
+      const [info, error] = logWith('never');
+      expect(info).toBeUndefined();
+      expect(error).toBeUndefined();
+    });
+  });
 });
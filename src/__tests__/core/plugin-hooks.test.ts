@@ -0,0 +1,299 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { createLogger } from '@core/logger';
+import { LogLevel } from '@/types/core.types';
+import type { Plugin } from '@/types/plugin.types';
+import type { LogMetadata, LogRecord, Transport } from '@/types/transport.types';
+
+describe('Plugin Hooks', () => {
+  let messages: string[];
+  let records: LogRecord[];
+  let transport: Transport;
+  let consoleErrorMock: ReturnType<typeof vi.spyOn>;
+
+  const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    messages = [];
+    records = [];
+    transport = {
+      name: 'capture',
+      write: (message: string, metadata: LogMetadata) => {
+        messages.push(message);
+        records.push(metadata as LogRecord);
+      },
+    };
+    consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorMock.mockRestore();
+  });
+
+  it('should run every hook in pipeline order', async () => {
+    const calls: string[] = [];
+    const plugin: Plugin = {
+      name: 'tracer',
+      install: () => {},
+      beforeLog: () => {
+        calls.push('beforeLog');
+      },
+      transformMessages: () => {
+        calls.push('transformMessages');
+      },
+      formatRecord: () => {
+        calls.push('formatRecord');
+      },
+      afterWrite: () => {
+        calls.push('afterWrite');
+      },
+    };
+    const logger = createLogger({ transports: [transport] }).use(() => {
+      calls.push('processor');
+    });
+    await logger.installPlugin(plugin);
+
+    logger.info('Traced');
+    await settle();
+
+    expect(calls).toEqual(['beforeLog', 'transformMessages', 'processor', 'formatRecord', 'afterWrite']);
+  });
+
+  it('should run plugins in install order', async () => {
+    const logger = createLogger({ transports: [transport] });
+    await logger.installPlugin({
+      name: 'first',
+      install: () => {},
+      transformMessages: messages => [...messages, 'first'],
+    });
+    await logger.installPlugin({
+      name: 'second',
+      install: () => {},
+      transformMessages: messages => [...messages, 'second'],
+    });
+
+    logger.info('Start');
+
+    expect(records[0].messages).toEqual(['Start', 'first', 'second']);
+  });
+
+  it('should drop a log call when beforeLog returns false', async () => {
+    const logger = createLogger({ transports: [transport] });
+    await logger.installPlugin({
+      name: 'drop-debug',
+      install: () => {},
+      beforeLog: record => record.messages[0] !== 'noise',
+    });
+
+    logger.info('noise');
+    logger.info('signal');
+
+    expect(records).toHaveLength(1);
+    expect(records[0].messages).toEqual(['signal']);
+  });
+
+  it('should redact messages added by transformMessages', async () => {
+    const logger = createLogger({ transports: [transport], redaction: true });
+    await logger.installPlugin({
+      name: 'enrich',
+      install: () => {},
+      transformMessages: messages => [...messages, { token: 'secret' }],
+    });
+
+    logger.info('Enriched');
+
+    expect(records[0].messages).toEqual(['Enriched', { token: '***' }]);
+  });
+
+  describe('redact', () => {
+    const upperCase = (record: LogRecord): LogRecord => ({
+      ...record,
+      messages: record.messages.map(message => String(message).toUpperCase()),
+    });
+
+    it('should take over redaction from the built-in redaction', async () => {
+      const logger = createLogger({ transports: [transport], redaction: true });
+      await logger.installPlugin({ name: 'redactor', install: () => {}, redact: upperCase });
+
+      logger.withContext({ token: 'abc' }).info('quiet');
+
+      expect(records[0].messages).toEqual(['QUIET']);
+      expect(records[0].context).toEqual({ token: 'abc' });
+      expect(messages[0]).toContain('QUIET');
+    });
+
+    it('should give transports their own redacted record and message', async () => {
+      const strictMessages: string[] = [];
+      const strictRecords: LogRecord[] = [];
+      const strict: Transport = {
+        name: 'strict',
+        write: (message: string, metadata: LogMetadata) => {
+          strictMessages.push(message);
+          strictRecords.push(metadata as LogRecord);
+        },
+      };
+      const logger = createLogger({ transports: [transport, strict] });
+      await logger.installPlugin({
+        name: 'profiles',
+        install: () => {},
+        redact: (record, target) => (target?.name === 'strict' ? { ...record, messages: ['[hidden]'] } : record),
+      });
+
+      logger.info('visible');
+
+      expect(records[0].messages).toEqual(['visible']);
+      expect(strictRecords[0].messages).toEqual(['[hidden]']);
+      expect(messages[0]).toContain('visible');
+      expect(strictMessages[0]).toContain('[hidden]');
+      expect(strictMessages[0]).not.toContain('visible');
+    });
+
+    it('should fall back to the built-in redaction when the hook throws', async () => {
+      const logger = createLogger({ transports: [transport] });
+      await logger.installPlugin({
+        name: 'broken',
+        install: () => {},
+        redact: () => {
+          throw new Error('broken');
+        },
+      });
+
+      logger.info('Login', { password: 'hunter2' });
+
+      expect(records[0].messages).toEqual(['Login', { password: '***' }]);
+      expect(consoleErrorMock).toHaveBeenCalledWith('Plugin "broken" redact hook failed:', expect.any(Error));
+    });
+  });
+
+  it('should replace the formatted message', async () => {
+    const logger = createLogger({ transports: [transport] });
+    await logger.installPlugin({
+      name: 'formatter',
+      install: () => {},
+      formatRecord: record => `${record.level}|${String(record.messages[0])}`,
+    });
+
+    logger.warn('Formatted');
+
+    expect(messages).toEqual([`${LogLevel.WARN}|Formatted`]);
+  });
+
+  it('should pass the written record and message to afterWrite', async () => {
+    const afterWrite = vi.fn();
+    const logger = createLogger({ transports: [transport], redaction: false });
+    await logger.installPlugin({ name: 'audit', install: () => {}, afterWrite });
+
+    logger.info('Written');
+    await settle();
+
+    expect(afterWrite).toHaveBeenCalledWith(records[0], messages[0]);
+  });
+
+  it('should report transport and processor errors to onError', async () => {
+    const onError = vi.fn();
+    const failing: Transport = {
+      name: 'failing',
+      write: () => {
+        throw new Error('disk full');
+      },
+    };
+    const logger = createLogger({ transports: [failing] }).use(() => {
+      throw new Error('bad processor');
+    });
+    await logger.installPlugin({ name: 'errors', install: () => {}, onError });
+
+    logger.info('Fails');
+    await settle();
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'bad processor' }),
+      expect.objectContaining({ source: 'processor' }),
+    );
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'disk full' }),
+      expect.objectContaining({ source: 'transport', transport: 'failing' }),
+    );
+  });
+
+  it('should keep logging when a hook throws', async () => {
+    const logger = createLogger({ transports: [transport] });
+    await logger.installPlugin({
+      name: 'broken',
+      install: () => {},
+      beforeLog: () => {
+        throw new Error('broken hook');
+      },
+    });
+
+    logger.info('Still logged');
+
+    expect(records).toHaveLength(1);
+    expect(consoleErrorMock).toHaveBeenCalledWith('Plugin "broken" beforeLog hook failed:', expect.any(Error));
+  });
+
+  it('should call onClose before transports close', async () => {
+    const calls: string[] = [];
+    const logger = createLogger({
+      transports: [{ ...transport, close: async () => {
+        calls.push('transport');
+      } }],
+    });
+    await logger.installPlugin({
+      name: 'closer',
+      install: () => {},
+      onClose: () => {
+        calls.push('plugin');
+      },
+    });
+
+    await logger.close();
+
+    expect(calls).toEqual(['plugin', 'transport']);
+  });
+
+  describe('derived loggers', () => {
+    it('should apply parent plugins without installing them again', async () => {
+      const install = vi.fn();
+      const logger = createLogger({ transports: [transport] });
+      await logger.installPlugin({
+        name: 'tag',
+        install,
+        transformMessages: messages => ['[tag]', ...messages],
+      });
+
+      logger.withPrefix('CHILD').info('From prefix');
+      logger.withContext({ requestId: 'r1' }).info('From context');
+      logger({ compactObjects: true }).info('From per-call child');
+
+      expect(install).toHaveBeenCalledTimes(1);
+      expect(records.map(record => record.messages[0])).toEqual(['[tag]', '[tag]', '[tag]']);
+    });
+
+    it('should see plugins installed on the parent later', async () => {
+      const logger = createLogger({ transports: [transport] });
+      const child = logger.withPrefix('CHILD');
+      await logger.installPlugin({ name: 'late', install: () => {}, beforeLog: () => false });
+
+      child.info('Dropped');
+
+      expect(child.hasPlugin('late')).toBe(true);
+      expect(records).toHaveLength(0);
+    });
+
+    it('should not uninstall or close inherited plugins', async () => {
+      const consoleWarnMock = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin: Plugin = { name: 'owned', install: () => {}, uninstall: vi.fn(), onClose: vi.fn() };
+      const logger = createLogger({ transports: [] });
+      await logger.installPlugin(plugin);
+      const child = logger.withPrefix('CHILD');
+
+      await child.uninstallPlugin('owned');
+      await child.close();
+
+      expect(consoleWarnMock).toHaveBeenCalledWith('Plugin "owned" is inherited from a parent logger');
+      expect(child.hasPlugin('owned')).toBe(true);
+      expect(plugin.uninstall).not.toHaveBeenCalled();
+      expect(plugin.onClose).not.toHaveBeenCalled();
+      consoleWarnMock.mockRestore();
+    });
+  });
+});
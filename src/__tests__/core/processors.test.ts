@@ -0,0 +1,256 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { createRedactionProcessor, createSerializerProcessor, runProcessors } from '@core/processors';
+import { createLogger } from '@core/logger';
+import { LogLevel } from '@/types/core.types';
+import type { LogProcessor } from '@/types/logger.types';
+import type { LogMetadata, LogRecord, Transport } from '@/types/transport.types';
+
+describe('Processors', () => {
+  const baseRecord = (): LogRecord => ({
+    level: LogLevel.INFO,
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    messages: ['Hello'],
+    context: {},
+  });
+
+  describe('runProcessors', () => {
+    it('should run processors in order', () => {
+      const order: string[] = [];
+      const result = runProcessors([
+        () => {
+          order.push('first');
+        },
+        () => {
+          order.push('second');
+        },
+      ], baseRecord());
+
+      expect(order).toEqual(['first', 'second']);
+      expect(result?.messages).toEqual(['Hello']);
+    });
+
+    it('should continue with a returned record', () => {
+      const result = runProcessors([
+        record => ({ ...record, messages: ['Replaced'] }),
+        record => ({ ...record, context: { seen: record.messages[0] } }),
+      ], baseRecord());
+
+      expect(result?.messages).toEqual(['Replaced']);
+      expect(result?.context).toEqual({ seen: 'Replaced' });
+    });
+
+    it('should stop when a processor returns null', () => {
+      const after = vi.fn();
+      const result = runProcessors([() => null, after], baseRecord());
+
+      expect(result).toBeNull();
+      expect(after).not.toHaveBeenCalled();
+    });
+
+    it('should skip a throwing processor', () => {
+      const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const result = runProcessors([
+        () => {
+          throw new Error('broken');
+        },
+        (record) => {
+          record.context = { reached: true };
+        },
+      ], baseRecord());
+
+      expect(result?.context).toEqual({ reached: true });
+      expect(consoleErrorMock).toHaveBeenCalledWith('Log processor error:', expect.any(Error));
+      consoleErrorMock.mockRestore();
+    });
+  });
+
+  describe('createRedactionProcessor', () => {
+    it('should redact messages and context without touching the input', () => {
+      const record = {
+        ...baseRecord(),
+        messages: ['Login', { password: 'hunter2' }],
+        context: { token: 'abc' },
+      };
+
+      const result = createRedactionProcessor(true)(record) as LogRecord;
+
+      expect(result.messages).toEqual(['Login', { password: '***' }]);
+      expect(result.context).toEqual({ token: '***' });
+      expect(record.context).toEqual({ token: 'abc' });
+    });
+  });
+
+  describe('createSerializerProcessor', () => {
+    const serializers = {
+      req: (req: { method: string; url: string; headers: object }) => ({ method: req.method, url: req.url }),
+      err: (error: Error) => ({ type: error.name, message: error.message }),
+      broken: () => {
+        throw new Error('no access');
+      },
+    };
+
+    it('should serialize matching keys of object arguments and context', () => {
+      const req = { method: 'GET', url: '/users', headers: { cookie: 'c' } };
+      const record = {
+        ...baseRecord(),
+        messages: ['Request', { req, status: 200 }, [{ req }]],
+        context: { req },
+      };
+
+      const result = createSerializerProcessor(serializers)(record) as LogRecord;
+
+      expect(result.messages).toEqual([
+        'Request',
+        { req: { method: 'GET', url: '/users' }, status: 200 },
+        [{ req }],
+      ]);
+      expect(result.context).toEqual({ req: { method: 'GET', url: '/users' } });
+      expect(record.context.req).toBe(req);
+    });
+
+    it('should serialize Error arguments with err', () => {
+      const record = { ...baseRecord(), messages: [new TypeError('bad input')] };
+
+      const result = createSerializerProcessor(serializers)(record) as LogRecord;
+
+      expect(result.messages).toEqual([{ type: 'TypeError', message: 'bad input' }]);
+    });
+
+    it('should replace values whose serializer throws', () => {
+      const record = { ...baseRecord(), context: { broken: { secret: 1 } } };
+
+      const result = createSerializerProcessor(serializers)(record) as LogRecord;
+
+      expect(result.context).toEqual({ broken: '[Serializer "broken" failed: no access]' });
+    });
+  });
+
+  describe('logger integration', () => {
+    let records: LogMetadata[];
+    let transport: Transport;
+    let consoleInfoMock: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      records = [];
+      transport = {
+        name: 'capture',
+        write: (_message: string, metadata: LogMetadata) => {
+          records.push(metadata);
+        },
+      };
+      consoleInfoMock = vi.spyOn(console, 'info').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleInfoMock.mockRestore();
+    });
+
+    it('should enrich records before they are formatted', () => {
+      const logger = createLogger({ transports: [transport], redaction: false })
+        .use((record) => {
+          record.context = { ...record.context, region: 'eu' };
+        });
+
+      logger.info('Enriched');
+
+      expect(records[0].context).toEqual({ region: 'eu' });
+    });
+
+    it('should drop records', () => {
+      const logger = createLogger({ transports: [transport] })
+        .use(record => (record.messages[0] === 'health check' ? null : record));
+
+      logger.info('health check');
+      logger.info('real work');
+
+      expect(records).toHaveLength(1);
+      expect((records[0] as LogRecord).messages).toEqual(['real work']);
+    });
+
+    it('should not run processors for disabled levels', () => {
+      const processor = vi.fn();
+      const logger = createLogger({ transports: [transport], minLevel: LogLevel.WARN }).use(processor);
+
+      logger.info('Filtered');
+
+      expect(processor).not.toHaveBeenCalled();
+    });
+
+    it('should redact whatever processors add', () => {
+      const logger = createLogger({ transports: [transport], redaction: true })
+        .use((record) => {
+          record.context = { ...record.context, apiKey: 'sk_live_123' };
+        });
+
+      logger.info('Redacted');
+
+      expect(records[0].context).toEqual({ apiKey: '***' });
+    });
+
+    it('should redact secrets in string messages and errors', () => {
+      const logger = createLogger({ transports: [transport], redaction: true });
+
+      logger.error('connecting with token=abc123', new Error('login failed: postgres://app:s3cret@db'));
+
+      const [text, error] = (records[0] as LogRecord).messages as [string, Error];
+      expect(text).toBe('connecting with token=***');
+      expect(error.message).toBe('login failed: postgres://app:***@db');
+    });
+
+    it('should serialize before redacting', () => {
+      const logger = createLogger({
+        transports: [transport],
+        serializers: { user: (user: { id: number; name: string }) => ({ id: user.id, token: 'abc' }) },
+      });
+
+      logger.withContext({ user: { id: 7, name: 'Ada' } }).info('Serialized');
+
+      expect(records[0].context).toEqual({ user: { id: 7, token: '***' } });
+    });
+
+    it('should pass processors on to derived loggers', () => {
+      const processor: LogProcessor = (record) => {
+        record.context = { ...record.context, tagged: true };
+      };
+      const logger = createLogger({ transports: [transport], redaction: false }).use(processor);
+
+      logger.withPrefix('CHILD').info('From child');
+      logger({ compactObjects: true }).info('From per-call child');
+
+      expect(records[0].context).toEqual({ tagged: true });
+      expect(records[1].context).toEqual({ tagged: true });
+    });
+
+    it('should run processors added to the parent after a child was derived', () => {
+      const logger = createLogger({ transports: [transport], redaction: false });
+      const child = logger.withPrefix('CHILD');
+
+      logger.use((record) => {
+        record.context = { ...record.context, tagged: true };
+      });
+      child.info('From child');
+
+      expect(records[0].context).toEqual({ tagged: true });
+    });
+
+    it('should keep processors added to a child off the parent', () => {
+      const processor = vi.fn();
+      const logger = createLogger({ transports: [transport] });
+      logger.withPrefix('CHILD').use(processor);
+
+      logger.info('From parent');
+
+      expect(processor).not.toHaveBeenCalled();
+    });
+
+    it('should remove processors', () => {
+      const processor = vi.fn();
+      const logger = createLogger({ transports: [transport] }).use(processor);
+
+      logger.removeProcessor(processor).info('Untouched');
+
+      expect(processor).not.toHaveBeenCalled();
+      expect(records).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { Sampler } from '@core/sampler';
+import { createLogger } from '@core/logger';
+import { lazy } from '@utils/lazy-messages';
+import { LogLevel } from '@/types/core.types';
+import type { LogMetadata, LogRecord, Transport } from '@/types/transport.types';
+
+describe('Sampler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const run = (sampler: Sampler, count: number, template = 'Cache miss', prefix: string[] = []) =>
+    Array.from({ length: count }, () => sampler.shouldLog(LogLevel.INFO, template, prefix)).filter(Boolean).length;
+
+  describe('isEnabled', () => {
+    it('should only be enabled by a rule', () => {
+      expect(Sampler.isEnabled(undefined)).toBe(false);
+      expect(Sampler.isEnabled({})).toBe(false);
+      expect(Sampler.isEnabled({ summaryInterval: 1000 })).toBe(false);
+      expect(Sampler.isEnabled({ rates: { [LogLevel.DEBUG]: 0.5 } })).toBe(true);
+      expect(Sampler.isEnabled({ rateLimit: 10 })).toBe(true);
+    });
+  });
+
+  describe('rates', () => {
+    it('should keep a fraction of calls per level', () => {
+      vi.spyOn(Math, 'random').mockReturnValueOnce(0.05).mockReturnValueOnce(0.5);
+      const sampler = new Sampler({ rates: { [LogLevel.DEBUG]: 0.1 } });
+
+      expect(sampler.shouldLog(LogLevel.DEBUG, 'a', [])).toBe(true);
+      expect(sampler.shouldLog(LogLevel.DEBUG, 'a', [])).toBe(false);
+      expect(sampler.shouldLog(LogLevel.INFO, 'a', [])).toBe(true);
+    });
+
+    it('should never sample FATAL calls', () => {
+      const sampler = new Sampler({ rates: { [LogLevel.FATAL]: 0 } });
+
+      expect(sampler.shouldLog(LogLevel.FATAL, 'Shutting down', [])).toBe(true);
+    });
+  });
+
+  describe('templates', () => {
+    it('should keep the first N calls, then 1 in M', () => {
+      const sampler = new Sampler({ first: 3, thereafter: 5 });
+
+      expect(run(sampler, 13)).toBe(5); // calls 1-3, 8 and 13
+      expect(run(sampler, 3, 'Other template')).toBe(3);
+    });
+
+    it('should drop everything after the first N without thereafter', () => {
+      expect(run(new Sampler({ first: 2 }), 10)).toBe(2);
+    });
+
+    it('should start counting again after the interval', () => {
+      const sampler = new Sampler({ first: 2, interval: 1000 });
+      run(sampler, 5);
+
+      vi.advanceTimersByTime(1000);
+
+      expect(run(sampler, 5)).toBe(2);
+    });
+
+    it('should not sample calls without a string template', () => {
+      const sampler = new Sampler({ first: 1 });
+
+      expect(sampler.shouldLog(LogLevel.INFO, undefined, [])).toBe(true);
+      expect(sampler.shouldLog(LogLevel.INFO, undefined, [])).toBe(true);
+    });
+  });
+
+  describe('rate limit', () => {
+    it('should allow a burst, then refill tokens over time', () => {
+      const sampler = new Sampler({ rateLimit: 2, burst: 4 });
+
+      expect(run(sampler, 10, 'a', ['worker'])).toBe(4);
+
+      vi.advanceTimersByTime(1500);
+
+      expect(run(sampler, 10, 'a', ['worker'])).toBe(3);
+    });
+
+    it('should keep a bucket per prefix', () => {
+      const sampler = new Sampler({ rateLimit: 1 });
+
+      expect(run(sampler, 3, 'a', ['api'])).toBe(1);
+      expect(run(sampler, 3, 'a', ['db'])).toBe(1);
+      expect(run(sampler, 3, 'a', [])).toBe(1);
+    });
+  });
+
+  describe('summary', () => {
+    it('should summarize suppressed calls once the interval has passed', () => {
+      const sampler = new Sampler({ first: 1, rateLimit: 100, summaryInterval: 10_000 });
+      run(sampler, 4, 'Cache miss');
+      sampler.shouldLog(LogLevel.WARN, 'Slow query', []);
+      sampler.shouldLog(LogLevel.WARN, 'Slow query', []);
+
+      expect(sampler.takeSummary()).toBeUndefined();
+
+      vi.advanceTimersByTime(10_000);
+
+      expect(sampler.takeSummary()).toEqual({
+        total: 4,
+        level: LogLevel.WARN,
+        suppressed: { 'template:Cache miss': 3, 'template:Slow query': 1 },
+      });
+      expect(sampler.takeSummary(true)).toBeUndefined();
+    });
+
+    it('should not count suppressed calls when summaries are disabled', () => {
+      const sampler = new Sampler({ first: 1, summaryInterval: 0 });
+      run(sampler, 5);
+
+      expect(sampler.takeSummary(true)).toBeUndefined();
+    });
+  });
+
+  describe('logger integration', () => {
+    let records: LogRecord[];
+    let messages: string[];
+    let transport: Transport;
+
+    beforeEach(() => {
+      records = [];
+      messages = [];
+      transport = {
+        name: 'capture',
+        write: (message: string, metadata: LogMetadata) => {
+          messages.push(message);
+          records.push(metadata as LogRecord);
+        },
+      };
+    });
+
+    it('should drop sampled calls before building the record', () => {
+      const dump = vi.fn(() => ({ expensive: true }));
+      const logger = createLogger({ transports: [transport], sampling: { first: 2 } });
+
+      for (let index = 0; index < 5; index++) {
+        logger.info('Tick', lazy(dump));
+      }
+
+      expect(records).toHaveLength(2);
+      expect(dump).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop sampled calls before capturing the stack', () => {
+      const captureSpy = vi.spyOn(Error, 'captureStackTrace');
+      const logger = createLogger({ transports: [transport], sampling: { first: 2 }, captureCaller: 'always' });
+
+      for (let index = 0; index < 5; index++) {
+        logger.info('Tick');
+      }
+
+      expect(records).toHaveLength(2);
+      expect(captureSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should write the summary through the root logger', () => {
+      const logger = createLogger({
+        transports: [transport],
+        sampling: { rateLimit: 1, summaryInterval: 1000 },
+      });
+      const worker = logger.withPrefix('worker');
+
+      for (let index = 0; index < 1236; index++) {
+        worker.warn('Job failed');
+      }
+      vi.advanceTimersByTime(1000);
+      worker.warn('Job failed');
+
+      const summary = records.at(-2);
+      expect(summary?.messages).toEqual([
+        'Suppressed 1,235 similar messages',
+        { suppressed: { 'prefix:worker': 1235 } },
+      ]);
+      expect(summary?.level).toBe(LogLevel.WARN);
+      expect(summary?.prefix).toBeUndefined();
+      expect(records.at(-1)?.messages).toEqual(['Job failed']);
+    });
+
+    it('should write the pending summary on close', async () => {
+      const logger = createLogger({ transports: [transport], sampling: { first: 1 } });
+      logger.info('Tick');
+      logger.info('Tick');
+
+      await logger.close();
+
+      expect(records.at(-1)?.messages[0]).toBe('Suppressed 1 similar messages');
+    });
+  });
+});
@@ -358,16 +358,14 @@ describe('Context Functionality', () => {
         timestamped: false,
       });
 
-      // BigInt can't be serialized by JSON.stringify, so we expect this to throw
       const bigIntContext = {
         bigIntValue: BigInt(123456789012345),
       };
 
-      // Should throw when trying to serialize BigInt
-      expect(() => {
-        const contextLogger = logger.withContext('bigint', bigIntContext);
-        contextLogger.info('Test with BigInt');
-      }).toThrow(/serialize.*BigInt/i);
+      const contextLogger = logger.withContext('bigint', bigIntContext);
+      contextLogger.info('Test with BigInt');
+
+      expect(consoleInfoMock).toHaveBeenCalledWith(expect.stringContaining('bigint:{"bigIntValue":"123456789012345n"}'));
     });
 
     it('should handle context key collisions properly', () => {
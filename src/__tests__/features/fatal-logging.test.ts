@@ -1,10 +1,21 @@
 /**
- * Simplified fatal logging tests (process exit functionality removed)
+ * Fatal logging tests, including the fatalExitsProcess shutdown sequence
  */
 
-import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { describe, expect, it, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
 import { createLogger } from '@core/logger';
+import { registerShutdownHook } from '@core/shutdown';
+import { isNodeEnvironment } from '@environment/detection';
 import { LogLevel } from '@/types/core.types';
+import type { LogMetadata, Transport } from '@/types/transport.types';
+
+vi.mock('@environment/detection', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@environment/detection')>();
+  return {
+    ...actual,
+    isNodeEnvironment: vi.fn(actual.isNodeEnvironment),
+  };
+});
 
 describe('FATAL Level Logging (Simplified)', () => {
   let consoleErrorMock: ReturnType<typeof vi.spyOn>;
@@ -155,4 +166,113 @@ describe('FATAL Level Logging (Simplified)', () => {
       expect(consoleErrorMock).not.toHaveBeenCalled();
     });
   });
+
+  describe('fatalExitsProcess', () => {
+    let exitMock: MockInstance<typeof process.exit>;
+    const events: string[] = [];
+
+    const createTrackingTransport = (): Transport => ({
+      name: 'tracking',
+      write: (_message: string, metadata: LogMetadata) => {
+        events.push(`write:${metadata.level}`);
+      },
+      close: async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        events.push('close');
+      },
+    });
+
+    beforeEach(() => {
+      events.length = 0;
+      exitMock = vi.spyOn(process, 'exit').mockImplementation((code) => {
+        events.push(`exit:${code}`);
+        return undefined as never;
+      });
+    });
+
+    afterEach(() => {
+      exitMock.mockRestore();
+    });
+
+    it('should not exit by default', async () => {
+      const logger = createLogger({ transports: [createTrackingTransport()] });
+
+      logger.fatal('Still running');
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(exitMock).not.toHaveBeenCalled();
+    });
+
+    it('should close transports, run shutdown hooks and then exit', async () => {
+      const unregister = registerShutdownHook(async () => {
+        events.push('hook');
+      });
+      const logger = createLogger({
+        fatalExitsProcess: true,
+        fatalExitCode: 3,
+        transports: [createTrackingTransport()],
+      });
+
+      logger.fatal('Out of memory');
+      await vi.waitFor(() => {
+        expect(exitMock).toHaveBeenCalled();
+      });
+      unregister();
+
+      expect(events).toEqual([`write:${LogLevel.FATAL}`, 'close', 'hook', 'exit:3']);
+    });
+
+    it('should keep running hooks when one fails', async () => {
+      const unregisterFailing = registerShutdownHook(() => {
+        throw new Error('hook failed');
+      });
+      const unregister = registerShutdownHook(() => {
+        events.push('hook');
+      });
+      const logger = createLogger({ fatalExitsProcess: true, transports: [createTrackingTransport()] });
+
+      logger.fatal('Crash');
+      await vi.waitFor(() => {
+        expect(exitMock).toHaveBeenCalledWith(1);
+      });
+      unregisterFailing();
+      unregister();
+
+      expect(events).toContain('hook');
+      expect(consoleErrorMock).toHaveBeenCalledWith('Shutdown hook failed:', expect.any(Error));
+    });
+
+    it('should exit after the timeout when closing hangs', async () => {
+      const logger = createLogger({
+        fatalExitsProcess: true,
+        fatalExitTimeout: 10,
+        transports: [{
+          name: 'hanging',
+          write: () => {},
+          close: () => new Promise<void>(() => {}),
+        }],
+      });
+
+      logger.fatal('Stuck');
+      await vi.waitFor(() => {
+        expect(exitMock).toHaveBeenCalledWith(1);
+      });
+    });
+
+    it('should call onFatal instead of exiting in browsers', () => {
+      vi.mocked(isNodeEnvironment).mockReturnValue(false);
+      const onFatal = vi.fn();
+      const logger = createLogger({
+        fatalExitsProcess: true,
+        onFatal,
+        transports: [createTrackingTransport()],
+      });
+
+      logger.fatal('Unrecoverable');
+      vi.mocked(isNodeEnvironment).mockRestore();
+
+      expect(onFatal).toHaveBeenCalledTimes(1);
+      expect(exitMock).not.toHaveBeenCalled();
+    });
+  });
 });
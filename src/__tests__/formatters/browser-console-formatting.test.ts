@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { formatBrowserConsoleCall } from '@formatters/browser-console-formatting';
+import { LogLevel, type LogLevelType } from '@/types/core.types';
+import type { LogRecord } from '@/types/transport.types';
+
+describe('Browser Console Formatting', () => {
+  const record = (messages: unknown[], overrides: Partial<LogRecord> = {}): LogRecord => ({
+    level: LogLevel.INFO as LogLevelType,
+    timestamp: new Date(),
+    messages,
+    ...overrides,
+  });
+
+  it('should style the level badge', () => {
+    const { args } = formatBrowserConsoleCall(record(['Server started']));
+
+    expect(args[0]).toBe('%c INFO %c Server started');
+    expect(args[1]).toContain('background: #2e7d32');
+    expect(args[2]).toBe('');
+    expect(args).toHaveLength(3);
+  });
+
+  it('should style prefix and context', () => {
+    const { args } = formatBrowserConsoleCall(record(['Query done'], {
+      prefix: ['api', 'db'],
+      context: { requestId: 'r-1', rows: 3 },
+    }));
+
+    expect(args[0]).toBe('%c INFO %c %c[api:db]%c %crequestId=r-1 rows=3%c Query done');
+    expect(args.slice(3)).toEqual([
+      'color: #1565c0; font-weight: bold',
+      '',
+      'color: #00838f',
+      '',
+    ]);
+  });
+
+  it('should pass objects as live arguments in place', () => {
+    const user = { id: 42 };
+    const error = new Error('boom');
+
+    const { args } = formatBrowserConsoleCall(record(['User', user, 'failed', error], { level: LogLevel.ERROR }));
+
+    expect(args[0]).toBe('%c ERROR %c User %o failed %o');
+    expect(args[3]).toBe(user);
+    expect(args[4]).toBe(error);
+  });
+
+  it('should escape percent signs in text', () => {
+    const { args } = formatBrowserConsoleCall(record(['100% done %s'], { context: { load: '50%' } }));
+
+    expect(args[0]).toBe('%c INFO %c %cload=50%%%c 100%% done %%s');
+  });
+
+  it('should move context and objects into group details', () => {
+    const payload = { items: [1, 2] };
+    const error = new TypeError('bad input');
+
+    const { args, details } = formatBrowserConsoleCall(
+      record(['Rejected', payload, error, [1, 2, 3]], { context: { requestId: 'r-1' } }),
+      { group: true },
+    );
+
+    expect(args[0]).toBe('%c INFO %c Rejected {…} TypeError: bad input Array(3)');
+    expect(args).toHaveLength(3);
+    expect(details).toEqual([['context', { requestId: 'r-1' }], [payload], [error], [[1, 2, 3]]]);
+    expect(details[1][0]).toBe(payload);
+  });
+});
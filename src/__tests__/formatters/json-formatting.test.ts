@@ -0,0 +1,226 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { buildJsonLogRecord, formatJsonLog } from '@formatters/json-formatting';
+import { formatCompleteLog } from '@formatters/logger-formatting';
+import { createLogger } from '@core/logger';
+import { LogLevel } from '@/types/core.types';
+import type { Transport, LogMetadata } from '@/types/transport.types';
+
+describe('JSON Formatting', () => {
+  const timestamp = new Date('2024-01-01T12:00:00.000Z');
+
+  describe('buildJsonLogRecord', () => {
+    it('should build a record with stable fields', () => {
+      const record = buildJsonLogRecord(LogLevel.INFO, ['User logged in', 42], {
+        timestamp,
+        prefix: ['API', 'AUTH'],
+        context: { requestId: 'req-1' },
+      });
+
+      expect(record).toEqual({
+        time: '2024-01-01T12:00:00.000Z',
+        level: LogLevel.INFO,
+        levelName: 'INFO',
+        prefix: ['API', 'AUTH'],
+        context: { requestId: 'req-1' },
+        message: 'User logged in 42',
+      });
+    });
+
+    it('should put objects into args', () => {
+      const record = buildJsonLogRecord(LogLevel.DEBUG, ['Payload', { id: 1 }, [1, 2]], {
+        timestamp,
+      });
+
+      expect(record.message).toBe('Payload');
+      expect(record.args).toEqual([{ id: 1 }, [1, 2]]);
+    });
+
+    it('should serialize the first error into the error field', () => {
+      const error = new Error('Boom');
+      const record = buildJsonLogRecord(LogLevel.ERROR, ['Failed', error], { timestamp });
+
+      expect(record.error).toMatchObject({ name: 'Error', message: 'Boom' });
+      expect(record.error?.stack).toContain('Boom');
+      expect(record.args).toBeUndefined();
+    });
+
+    it('should keep additional errors in args', () => {
+      const record = buildJsonLogRecord(
+        LogLevel.ERROR,
+        [new Error('first'), new Error('second')],
+        { timestamp },
+      );
+
+      expect(record.error?.message).toBe('first');
+      expect(record.args).toHaveLength(1);
+      expect((record.args?.[0] as Record<string, unknown>).message).toBe('second');
+    });
+
+    it('should include caller from the stack trace', () => {
+      const record = buildJsonLogRecord(LogLevel.INFO, ['Hello'], {
+        timestamp,
+        stackTrace: {
+          frames: [
+            { file: '/app/server.ts', line: 10, column: 5, function: 'handle', raw: 'at handle' },
+          ],
+        },
+      });
+
+      expect(record.caller).toEqual({
+        file: '/app/server.ts',
+        line: 10,
+        column: 5,
+        function: 'handle',
+      });
+    });
+
+    it('should omit empty prefix and context', () => {
+      const record = buildJsonLogRecord(LogLevel.INFO, ['Hello'], {
+        timestamp,
+        prefix: [],
+        context: {},
+      });
+
+      expect(record).not.toHaveProperty('prefix');
+      expect(record).not.toHaveProperty('context');
+    });
+
+    it('should redact args and context when redaction is enabled', () => {
+      const record = buildJsonLogRecord(LogLevel.INFO, ['Login', { user: 'bob', password: 'hunter2' }], {
+        timestamp,
+        context: { token: 'abc' },
+        redaction: true,
+      });
+
+      expect(record.args).toEqual([{ user: 'bob', password: '***' }]);
+      expect(record.context).toEqual({ token: '***' });
+    });
+
+    it('should not redact when redaction is disabled', () => {
+      const record = buildJsonLogRecord(LogLevel.INFO, [{ password: 'hunter2' }], {
+        timestamp,
+        redaction: false,
+      });
+
+      expect(record.args).toEqual([{ password: 'hunter2' }]);
+    });
+  });
+
+  describe('formatJsonLog', () => {
+    it('should produce a single parseable line', () => {
+      const line = formatJsonLog(LogLevel.WARN, ['Disk almost full', { usage: 91 }], {
+        timestamp,
+      });
+
+      expect(line).not.toContain('\n');
+      expect(JSON.parse(line)).toEqual({
+        time: '2024-01-01T12:00:00.000Z',
+        level: LogLevel.WARN,
+        levelName: 'WARN',
+        message: 'Disk almost full',
+        args: [{ usage: 91 }],
+      });
+    });
+
+    it('should handle circular references', () => {
+      const circular: Record<string, unknown> = { name: 'loop' };
+      circular.self = circular;
+
+      const parsed = JSON.parse(formatJsonLog(LogLevel.INFO, [circular], { timestamp }));
+      expect(parsed.args[0]).toEqual({ name: 'loop', self: '[Circular Reference]' });
+    });
+
+    it('should serialize BigInt values', () => {
+      const parsed = JSON.parse(formatJsonLog(LogLevel.INFO, [{ big: 10n }], { timestamp }));
+      expect(parsed.args[0]).toEqual({ big: '10n' });
+    });
+
+    it('should fall back when a value cannot be serialized', () => {
+      const hostile = {
+        toJSON() {
+          throw new Error('nope');
+        },
+      };
+
+      const parsed = JSON.parse(formatJsonLog(LogLevel.INFO, ['Hostile', hostile], { timestamp }));
+      expect(parsed.message).toBe('Hostile');
+      expect(parsed.serializationError).toBe('nope');
+    });
+  });
+
+  describe('formatCompleteLog integration', () => {
+    it('should emit JSON when format is json', () => {
+      const line = formatCompleteLog(LogLevel.INFO, ['Hello'], {
+        format: 'json',
+        prefix: 'APP',
+        timestamp,
+      });
+
+      expect(JSON.parse(line)).toMatchObject({
+        levelName: 'INFO',
+        prefix: ['APP'],
+        message: 'Hello',
+      });
+    });
+
+    it('should keep pretty output by default', () => {
+      const line = formatCompleteLog(LogLevel.INFO, ['Hello'], { prefix: 'APP' });
+      expect(() => JSON.parse(line)).toThrow();
+      expect(line).toContain('[APP]');
+    });
+  });
+
+  describe('logger integration', () => {
+    let written: Array<{ message: string; metadata: LogMetadata }>;
+    let transport: Transport;
+    let consoleLogMock: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      written = [];
+      transport = {
+        name: 'capture',
+        write: (message: string, metadata: LogMetadata) => {
+          written.push({ message, metadata });
+        },
+      };
+      consoleLogMock = vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleLogMock.mockRestore();
+    });
+
+    it('should send JSON lines to every transport', () => {
+      const logger = createLogger({ format: 'json', transports: [transport] })
+        .withPrefix('API')
+        .withContext({ requestId: 'req-9' });
+
+      logger.info('Request done', { status: 200 });
+
+      expect(written).toHaveLength(1);
+      const parsed = JSON.parse(written[0].message);
+      expect(parsed).toMatchObject({
+        levelName: 'INFO',
+        prefix: ['API'],
+        context: { requestId: 'req-9' },
+        message: 'Request done',
+        args: [{ status: 200 }],
+      });
+      expect(parsed.time).toBe(written[0].metadata.timestamp.toISOString());
+      expect(written[0].metadata.format).toBe('json');
+    });
+
+    it('should not print separators in JSON mode', () => {
+      const logger = createLogger({
+        format: 'json',
+        showSeparators: true,
+        spaceMessages: true,
+        transports: [transport],
+      });
+
+      logger.info('No decorations');
+
+      expect(consoleLogMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -109,6 +109,38 @@ describe('Logger Formatting', () => {
       });
       expect(result).not.toBe('{ name: "test", value: 42 }'); // Should have ANSI codes
     });
+
+    it('should render with util.inspect in inspect mode', () => {
+      class Session {
+        constructor(public id: string, public tags = new Set(['admin'])) {}
+      }
+      const value = { session: new Session('s-1'), roles: new Map([['b', 2], ['a', 1]]) };
+
+      const result = formatObject(LogLevel.INFO, value, {
+        colorLevel: ColorLevel.NONE,
+        consoleObjects: 'inspect',
+        inspectOptions: { sorted: true, breakLength: Infinity },
+      });
+
+      expect(result).toBe('{ roles: Map(2) { \'a\' => 1, \'b\' => 2 }, session: Session { id: \'s-1\', tags: Set(1) { \'admin\' } } }');
+    });
+
+    it('should pass depth and colors to util.inspect', () => {
+      const nested = { a: { b: { c: { d: 1 } } } };
+
+      const shallow = formatObject(LogLevel.INFO, nested, {
+        colorLevel: ColorLevel.NONE,
+        consoleObjects: 'inspect',
+        inspectOptions: { depth: 0 },
+      });
+      const colored = formatObject(LogLevel.INFO, { n: 1 }, {
+        colorLevel: ColorLevel.BASIC,
+        consoleObjects: 'inspect',
+      });
+
+      expect(shallow).toBe('{ a: [Object] }');
+      expect(colored).toContain('\u001B[33m1\u001B[39m');
+    });
   });
 
   describe('truncateValue', () => {
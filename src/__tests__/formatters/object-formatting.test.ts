@@ -1,5 +1,10 @@
 import { describe, expect, it, beforeEach, afterEach } from 'vitest';
-import { formatCompact, prettyFormat } from '@formatters/object-formatting';
+import {
+  formatCompact,
+  formatCompactError,
+  prettyFormat,
+  serializeError,
+} from '@formatters/object-formatting';
 import { LogLevel, ColorLevel } from '@/types/core.types';
 import { stringify, createReplacer } from '@utils/serialization';
 import kleur from 'kleur';
@@ -32,8 +37,9 @@ describe('Object Formatting', () => {
 
     it('should handle Error objects', () => {
       const error = new Error('Test error');
+      error.stack = 'Error: Test error\n    at handler (app.ts:1:1)';
       const result = formatCompact(error);
-      expect(result).toBe('Error: Test error');
+      expect(result).toBe('Error: Test error at handler (app.ts:1:1)');
     });
 
     it('should handle Error objects with colorization', () => {
@@ -46,6 +52,7 @@ describe('Object Formatting', () => {
     it('should handle Error objects without message', () => {
       const error = new Error();
       error.message = '';
+      error.stack = undefined;
       const result = formatCompact(error);
       expect(result).toBe('Error: Unknown error');
     });
@@ -212,6 +219,112 @@ describe('Object Formatting', () => {
     });
   });
 
+  describe('error serialization', () => {
+    const withStack = <T extends Error>(error: T, frame: string): T => {
+      error.stack = [
+        `${error.name}: ${error.message}`,
+        '    at LoggerImpl.error (/app/node_modules/loggical/dist/index.js:10:5)',
+        `    at ${frame}`,
+      ].join('\n');
+      return error;
+    };
+
+    it('should walk cause chains with filtered stacks', () => {
+      const root = withStack(new Error('connect ECONNREFUSED'), 'connect (net.ts:3:1)');
+      const error = withStack(new Error('Query failed', { cause: root }), 'query (db.ts:12:9)');
+
+      expect(serializeError(error)).toEqual({
+        name: 'Error',
+        message: 'Query failed',
+        stack: 'Error: Query failed\n    at query (db.ts:12:9)',
+        cause: {
+          name: 'Error',
+          message: 'connect ECONNREFUSED',
+          stack: 'Error: connect ECONNREFUSED\n    at connect (net.ts:3:1)',
+        },
+      });
+    });
+
+    it('should include system error fields and custom properties', () => {
+      const error = Object.assign(new Error('open failed'), {
+        code: 'ENOENT',
+        errno: -2,
+        syscall: 'open',
+        path: '/tmp/missing',
+        requestId: 'r-1',
+      });
+
+      expect(serializeError(error)).toMatchObject({
+        code: 'ENOENT',
+        errno: -2,
+        syscall: 'open',
+        path: '/tmp/missing',
+        requestId: 'r-1',
+      });
+    });
+
+    it('should read system error fields from the prototype', () => {
+      class HttpError extends Error {
+        get code() {
+          return 'E_HTTP';
+        }
+      }
+
+      expect(serializeError(new HttpError('bad gateway')).code).toBe('E_HTTP');
+    });
+
+    it('should include AggregateError sub-errors', () => {
+      const error = new AggregateError([new TypeError('first'), 'second'], 'All failed');
+
+      const result = serializeError(error);
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({ name: 'TypeError', message: 'first' }),
+        'second',
+      ]);
+    });
+
+    it('should limit cause depth and mark cycles', () => {
+      const first = new Error('first');
+      const second = new Error('second', { cause: first });
+      first.cause = second;
+      const deep = new Error('level 0', {
+        cause: new Error('level 1', { cause: new Error('level 2') }),
+      });
+
+      expect((serializeError(first).cause as Record<string, unknown>).cause).toBe('[Circular Reference]');
+      expect(serializeError(deep, { maxCauseDepth: 1 })).toMatchObject({
+        cause: { message: 'level 1', cause: '[Error: level 2 (max cause depth reached)]' },
+      });
+    });
+
+    it('should format errors on one line in compact mode', () => {
+      const root = withStack(
+        Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED', details: {} }),
+        'connect (net.ts:3:1)',
+      );
+      const error = withStack(new Error('Query failed', { cause: root }), 'query (db.ts:12:9)');
+
+      expect(formatCompactError(error)).toBe(
+        'Error: Query failed at query (db.ts:12:9) ← caused by: ' +
+        'Error: connect ECONNREFUSED [code=ECONNREFUSED] at connect (net.ts:3:1)',
+      );
+    });
+
+    it('should list aggregated errors and stop at cycles in compact mode', () => {
+      const error = new AggregateError([new Error('a'), new RangeError('b')], 'Batch failed');
+      error.stack = undefined;
+      for (const inner of error.errors as Error[]) {
+        inner.stack = undefined;
+      }
+      error.cause = error;
+
+      expect(formatCompactError(error)).toBe(
+        'AggregateError: Batch failed { Error: a; RangeError: b } ← caused by: [Circular Reference]',
+      );
+    });
+  });
+
   describe('utils safety features', () => {
     describe('BigInt handling', () => {
       it('should handle BigInt values without precision loss', () => {
@@ -0,0 +1,121 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { jsonFormatter, createPrettyFormatter } from '@formatters/record-formatting';
+import { createLogger } from '@core/logger';
+import { BaseTransport } from '@transports/transport.interface';
+import { LogLevel, ColorLevel } from '@/types/core.types';
+import type { LogMetadata, LogRecord, TransportOptions } from '@/types/transport.types';
+
+class CaptureTransport extends BaseTransport {
+  messages: Array<{ message: string; metadata: LogMetadata }> = [];
+
+  constructor(readonly name: string, options: TransportOptions = {}) {
+    super(options);
+  }
+
+  write(formattedMessage: string, metadata: LogMetadata): void {
+    this.messages.push({ message: formattedMessage, metadata });
+  }
+}
+
+describe('Record Formatting', () => {
+  const record: LogRecord = {
+    level: LogLevel.WARN,
+    timestamp: new Date('2024-01-01T12:00:00.000Z'),
+    messages: ['Cache miss', { key: 'user:1' }],
+    prefix: ['CACHE'],
+    context: { region: 'eu' },
+  };
+
+  describe('jsonFormatter', () => {
+    it('should render a record as a JSON line', () => {
+      expect(JSON.parse(jsonFormatter(record))).toEqual({
+        time: '2024-01-01T12:00:00.000Z',
+        level: LogLevel.WARN,
+        levelName: 'WARN',
+        prefix: ['CACHE'],
+        context: { region: 'eu' },
+        message: 'Cache miss',
+        args: [{ key: 'user:1' }],
+      });
+    });
+  });
+
+  describe('createPrettyFormatter', () => {
+    it('should render a record in the human-readable format', () => {
+      const formatter = createPrettyFormatter({
+        colorLevel: ColorLevel.NONE,
+        timestamped: false,
+        useSymbols: false,
+        compactObjects: true,
+      });
+
+      const output = formatter(record);
+      expect(output).toContain('WRN');
+      expect(output).toContain('[CACHE]');
+      expect(output).toContain('region=eu');
+      expect(output).toContain('Cache miss');
+      expect(output).toContain('key: "user:1"');
+    });
+  });
+
+  describe('logger integration', () => {
+    let consoleInfoMock: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      consoleInfoMock = vi.spyOn(console, 'info').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleInfoMock.mockRestore();
+    });
+
+    it('should pass the structured record to transports', () => {
+      const transport = new CaptureTransport('capture');
+      const logger = createLogger({ transports: [transport] })
+        .withPrefix('API')
+        .withContext({ requestId: 'req-1' });
+
+      logger.info('Created', { id: 7 });
+
+      const metadata = transport.messages[0].metadata as LogRecord;
+      expect(metadata.messages).toEqual(['Created', { id: 7 }]);
+      expect(metadata.level).toBe(LogLevel.INFO);
+      expect(metadata.prefix).toEqual(['API']);
+      expect(metadata.context).toEqual({ requestId: 'req-1' });
+    });
+
+    it('should redact messages and context before they reach transports', () => {
+      const transport = new CaptureTransport('capture');
+      const logger = createLogger({ transports: [transport], redaction: true })
+        .withContext({ apiKey: 'secret-key' });
+
+      logger.info('Login', { user: 'bob', password: 'hunter2' });
+
+      const metadata = transport.messages[0].metadata as LogRecord;
+      expect(metadata.messages).toEqual(['Login', { user: 'bob', password: '***' }]);
+      expect(metadata.context).toEqual({ apiKey: '***' });
+      expect(transport.messages[0].message).not.toContain('hunter2');
+    });
+
+    it('should let each transport format the same call differently', () => {
+      const pretty = new CaptureTransport('pretty');
+      const json = new CaptureTransport('json', { formatter: jsonFormatter });
+      const logger = createLogger({
+        transports: [pretty, json],
+        colorLevel: ColorLevel.NONE,
+        prefix: 'APP',
+      });
+
+      logger.info('Started', { port: 8080 });
+
+      expect(pretty.messages[0].message).toContain('[APP]');
+      expect(() => JSON.parse(pretty.messages[0].message)).toThrow();
+      expect(JSON.parse(json.messages[0].message)).toMatchObject({
+        levelName: 'INFO',
+        prefix: ['APP'],
+        message: 'Started',
+        args: [{ port: 8080 }],
+      });
+    });
+  });
+});
@@ -1,5 +1,6 @@
-import { ColorLevel } from '@/types/core.types';
+import { ColorLevel, LogLevel } from '@/types/core.types';
 import { createLogger, type CallableLogger } from '@core/logger';
+import { lazy } from '@utils/lazy-messages';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 describe('Performance Benchmarks', () => {
@@ -154,6 +155,85 @@ describe('Performance Benchmarks', () => {
     });
   });
 
+  describe('Level Short-Circuit Performance', () => {
+    it('should not capture stack traces for disabled levels', () => {
+      const captureSpy = vi.spyOn(Error, 'captureStackTrace');
+      const logger = createLogger({ minLevel: LogLevel.INFO });
+
+      for (let i = 0; i < 1000; i++) {
+        logger.debug('Suppressed', { iteration: i });
+      }
+
+      expect(captureSpy).not.toHaveBeenCalled();
+      captureSpy.mockRestore();
+    });
+
+    it('should return from disabled log calls before any per-call work', () => {
+      const captureSpy = vi.spyOn(Error, 'captureStackTrace');
+      const transport = { name: 'capture', write: vi.fn() };
+      const logger = createLogger({ minLevel: LogLevel.INFO, transports: [transport] });
+      const expensiveDump = vi.fn(() => 'dump');
+
+      for (let i = 0; i < 1000; i++) {
+        logger.debug('Suppressed', lazy(expensiveDump), { iteration: i });
+      }
+
+      expect(captureSpy).not.toHaveBeenCalled();
+      expect(expensiveDump).not.toHaveBeenCalled();
+      expect(transport.write).not.toHaveBeenCalled();
+      captureSpy.mockRestore();
+    });
+
+    it('should not call bare function messages of disabled calls', () => {
+      const logger = createLogger({ minLevel: LogLevel.INFO, lazyMessages: true });
+      const expensiveDump = vi.fn(() => 'dump');
+
+      for (let i = 0; i < 1000; i++) {
+        logger.debug(expensiveDump);
+      }
+      logger.info(expensiveDump);
+
+      expect(expensiveDump).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip stack capture when caller capture is off', () => {
+      const captureSpy = vi.spyOn(Error, 'captureStackTrace');
+      const logger = createLogger({ captureCaller: 'never', colorLevel: ColorLevel.NONE });
+
+      for (let i = 0; i < 1000; i++) {
+        logger.info('No caller', { iteration: i });
+      }
+
+      expect(captureSpy).not.toHaveBeenCalled();
+      captureSpy.mockRestore();
+    });
+
+    it('should only capture stack traces for errors in errors mode', () => {
+      const captureSpy = vi.spyOn(Error, 'captureStackTrace');
+      const logger = createLogger({ captureCaller: 'errors', colorLevel: ColorLevel.NONE });
+
+      for (let i = 0; i < 100; i++) {
+        logger.info('Routine', { iteration: i });
+      }
+      logger.error('Failure');
+
+      expect(captureSpy).toHaveBeenCalledTimes(1);
+      captureSpy.mockRestore();
+    });
+
+    it('should not evaluate lazy messages for disabled levels', () => {
+      const logger = createLogger({ minLevel: LogLevel.INFO });
+      const expensiveDump = vi.fn(() => ({ rows: Array.from({ length: 1000 }, (_, i) => i) }));
+
+      for (let i = 0; i < 10_000; i++) {
+        logger.debug('State', lazy(expensiveDump));
+      }
+      logger.info('State', lazy(expensiveDump));
+
+      expect(expensiveDump).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Memory Usage Patterns', () => {
     it('should maintain stable memory usage with logger chains', () => {
       const baseLogger = createLogger({
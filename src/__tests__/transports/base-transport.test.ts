@@ -3,7 +3,7 @@ import {
   BaseTransport,
 } from '@transports/transport.interface';
 import { LogLevel } from '@/types/core.types';
-import type { LogMetadata } from '@/types/transport.types';
+import type { LogMetadata, LogRecord } from '@/types/transport.types';
 
 describe('BaseTransport', () => {
   describe('Custom Transport Implementation', () => {
@@ -124,6 +124,55 @@ describe('BaseTransport', () => {
       expect(messages[0].message).toBe('Normal message');
     });
 
+    it('should use a custom formatter when given a full record', async () => {
+      const customTransport = new TestTransport({
+        formatter: record => `${record.level}|${record.messages.join(',')}`,
+      });
+      const record: LogRecord = {
+        level: LogLevel.INFO,
+        timestamp: new Date(),
+        messages: ['a', 'b'],
+      };
+
+      await customTransport.safeWrite('Logger formatted', record);
+
+      const messages = customTransport.getMessages();
+      expect(messages[0].message).toBe(`${LogLevel.INFO}|a,b`);
+      expect(messages[0].metadata).toBe(record);
+    });
+
+    it('should keep the formatted message when metadata has no messages', async () => {
+      const customTransport = new TestTransport({
+        formatter: () => 'custom',
+      });
+
+      await customTransport.safeWrite('Logger formatted', {
+        level: LogLevel.INFO,
+        timestamp: new Date(),
+      });
+
+      expect(customTransport.getMessages()[0].message).toBe('Logger formatted');
+    });
+
+    it('should handle formatter errors gracefully', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const customTransport = new TestTransport({
+        formatter: () => {
+          throw new Error('formatter failed');
+        },
+      });
+
+      await expect(customTransport.safeWrite('Test', {
+        level: LogLevel.INFO,
+        timestamp: new Date(),
+        messages: [],
+      } as LogRecord)).resolves.not.toThrow();
+
+      expect(customTransport.getMessages()).toHaveLength(0);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+
     it('should have proper name and status', () => {
       const customTransport = new TestTransport();
 
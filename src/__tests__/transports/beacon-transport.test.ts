@@ -0,0 +1,220 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { BeaconTransport } from '@transports/beacon-transport';
+import { createLogger } from '@core/logger';
+import { LogLevel, type LogLevelType } from '@/types/core.types';
+import type { BeaconTransportOptions, LogRecord } from '@/types/transport.types';
+
+describe('BeaconTransport', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let sendBeacon: ReturnType<typeof vi.fn>;
+  let documentTarget: EventTarget & { visibilityState: string };
+  let windowTarget: EventTarget;
+  let transport: BeaconTransport | undefined;
+
+  const createTransport = (options: Partial<BeaconTransportOptions> = {}) => {
+    transport = new BeaconTransport({
+      url: 'https://example.com/logs',
+      formatter: entry => JSON.stringify({ msg: entry.messages[0] }),
+      ...options,
+    });
+    return transport;
+  };
+
+  const record = (message: string, level: LogLevelType = LogLevel.INFO): LogRecord => ({
+    level,
+    timestamp: new Date(),
+    messages: [message],
+  });
+
+  /** Messages in a request or beacon body */
+  const messages = (body: string) => body.trimEnd().split('\n').map(line => JSON.parse(line).msg);
+
+  const fetchedMessages = () => fetchMock.mock.calls.flatMap(([, init]) => messages(init.body));
+
+  const beaconBodies = async () => {
+    const bodies: string[] = [];
+    for (const [, blob] of sendBeacon.mock.calls) {
+      bodies.push(await (blob as Blob).text());
+    }
+    return bodies;
+  };
+
+  const hidePage = () => {
+    documentTarget.visibilityState = 'hidden';
+    documentTarget.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    sendBeacon = vi.fn(() => true);
+    documentTarget = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+    windowTarget = new EventTarget();
+
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('navigator', { sendBeacon });
+    vi.stubGlobal('document', documentTarget);
+    vi.stubGlobal('addEventListener', windowTarget.addEventListener.bind(windowTarget));
+    vi.stubGlobal('removeEventListener', windowTarget.removeEventListener.bind(windowTarget));
+  });
+
+  afterEach(async () => {
+    await transport?.close();
+    transport = undefined;
+    vi.unstubAllGlobals();
+  });
+
+  it('should send full batches with keepalive fetch', async () => {
+    createTransport({ batchSize: 2, headers: { 'X-App': 'web' } });
+
+    await transport!.safeWrite('', record('one'));
+    expect(fetchMock).not.toHaveBeenCalled();
+    await transport!.safeWrite('', record('two'));
+    await transport!.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://example.com/logs');
+    expect(init).toMatchObject({
+      method: 'POST',
+      keepalive: true,
+      headers: { 'Content-Type': 'application/x-ndjson', 'X-App': 'web' },
+    });
+    expect(messages(init.body)).toEqual(['one', 'two']);
+    expect(sendBeacon).not.toHaveBeenCalled();
+  });
+
+  it('should send queued entries every flushInterval', async () => {
+    createTransport({ flushInterval: 20 });
+
+    await transport!.safeWrite('', record('on a timer'));
+
+    await vi.waitFor(() => {
+      expect(fetchedMessages()).toEqual(['on a timer']);
+    });
+  });
+
+  it('should switch to sendBeacon when the page is hidden', async () => {
+    createTransport();
+    await transport!.safeWrite('', record('queued'));
+
+    hidePage();
+
+    expect(await beaconBodies()).toEqual([expect.stringContaining('queued')]);
+    expect(sendBeacon.mock.calls[0][0]).toBe('https://example.com/logs');
+    expect((sendBeacon.mock.calls[0][1] as Blob).type).toBe('application/x-ndjson');
+
+    // Nothing waits for a timer while hidden
+    await transport!.safeWrite('', record('while hidden'));
+    expect(sendBeacon).toHaveBeenCalledTimes(2);
+    expect(transport!.getStatus()).toMatchObject({ mode: 'beacon', beaconBatches: 2, queueDepth: 0 });
+
+    documentTarget.visibilityState = 'visible';
+    documentTarget.dispatchEvent(new Event('visibilitychange'));
+    expect(transport!.getStatus().mode).toBe('fetch');
+  });
+
+  it('should send with sendBeacon on pagehide', async () => {
+    createTransport();
+    await transport!.safeWrite('', record('last words'));
+
+    windowTarget.dispatchEvent(new Event('pagehide'));
+
+    const [body] = await beaconBodies();
+    expect(messages(body)).toEqual(['last words']);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to keepalive fetch when a beacon is refused', async () => {
+    sendBeacon.mockReturnValue(false);
+    createTransport();
+    await transport!.safeWrite('', record('refused'));
+
+    hidePage();
+    await transport!.flush();
+
+    expect(fetchedMessages()).toEqual(['refused']);
+  });
+
+  it('should keep a batch when sendBeacon throws and send it with fetch', async () => {
+    sendBeacon.mockImplementation(() => {
+      throw new TypeError('Beacon payload over quota');
+    });
+    createTransport();
+    await transport!.safeWrite('', record('kept'));
+
+    hidePage();
+    await transport!.flush();
+
+    expect(fetchedMessages()).toEqual(['kept']);
+    expect(transport!.getStatus()).toMatchObject({ droppedEntries: 0, lastError: 'Beacon payload over quota' });
+  });
+
+  it('should send keepalive batches one at a time', async () => {
+    let active = 0;
+    let maxActive = 0;
+    fetchMock.mockImplementation(async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      active--;
+      return new Response(null, { status: 204 });
+    });
+    createTransport({ batchSize: 2, flushInterval: 60_000 });
+
+    for (let index = 0; index < 6; index++) {
+      await transport!.safeWrite('', record(`entry ${index}`));
+    }
+    await transport!.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(maxActive).toBe(1);
+    expect(fetchedMessages()).toEqual(['entry 0', 'entry 1', 'entry 2', 'entry 3', 'entry 4', 'entry 5']);
+  });
+
+  it('should split payloads to maxPayloadBytes and drop larger entries', async () => {
+    const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+    createTransport({ maxPayloadBytes: 40 });
+
+    for (const message of ['first entry', 'second entry', 'third entry']) {
+      await transport!.safeWrite('', record(message));
+    }
+    await transport!.safeWrite('', record('x'.repeat(100)));
+    hidePage();
+
+    const bodies = await beaconBodies();
+    expect(bodies.map(body => messages(body))).toEqual([['first entry'], ['second entry'], ['third entry']]);
+    for (const body of bodies) {
+      expect(new TextEncoder().encode(body).length).toBeLessThanOrEqual(40);
+    }
+    expect(transport!.getStatus()).toMatchObject({ oversizedEntries: 1, droppedEntries: 1 });
+    expect(consoleErrorMock).toHaveBeenCalledWith('BeaconTransport entry exceeds maxPayloadBytes, dropping log entries');
+    consoleErrorMock.mockRestore();
+  });
+
+  it('should honor minLevel and filter', async () => {
+    createTransport({
+      minLevel: LogLevel.WARN,
+      filter: (_level, _message, metadata) => (metadata as LogRecord).messages[0] !== 'ignored',
+    });
+    const logger = createLogger({ transports: [transport!] });
+
+    logger.info('too quiet');
+    logger.warn('ignored');
+    logger.error('shipped');
+    await logger.close();
+
+    expect(fetchedMessages()).toEqual(['shipped']);
+  });
+
+  it('should report failed requests', async () => {
+    const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+    createTransport();
+
+    await transport!.safeWrite('', record('lost'));
+    await transport!.flush();
+
+    expect(transport!.getStatus()).toMatchObject({ failedRequests: 1, droppedEntries: 1, lastError: 'HTTP 503' });
+    expect(consoleErrorMock).toHaveBeenCalledWith('BeaconTransport send error:', expect.any(Error));
+    consoleErrorMock.mockRestore();
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { ConsoleTransport } from '@transports/console-transport';
-import { LogLevel } from '@/types/core.types';
-import type { LogMetadata } from '@/types/transport.types';
+import { ColorLevel, LogLevel } from '@/types/core.types';
+import type { LogMetadata, LogRecord } from '@/types/transport.types';
 
 describe('ConsoleTransport', () => {
   let transport: ConsoleTransport;
@@ -355,6 +355,176 @@ describe('ConsoleTransport', () => {
     });
   });
 
+  describe('browser styles', () => {
+    const record = (overrides: Partial<LogRecord> = {}): LogRecord => ({
+      level: LogLevel.INFO,
+      timestamp: new Date(),
+      messages: ['Saved', { id: 7 }],
+      prefix: ['ui'],
+      ...overrides,
+    });
+
+    it('should pass %c styles and live objects to the level method', () => {
+      transport = new ConsoleTransport({ browserStyles: true });
+      const item = { id: 7 };
+
+      transport.write('\u001B[32mansi text\u001B[39m', record({ messages: ['Saved', item] }));
+
+      expect(mockConsole.info).toHaveBeenCalledTimes(1);
+      const args = mockConsole.info.mock.calls[0];
+      expect(args[0]).toBe('%c INFO %c %c[ui]%c Saved %o');
+      expect(args.at(-1)).toBe(item);
+      expect(mockConsole.groupCollapsed).not.toHaveBeenCalled();
+    });
+
+    it('should write the output of a per-transport formatter unstyled', () => {
+      transport = new ConsoleTransport({ browserStyles: true, formatter: () => 'custom' });
+
+      transport.safeWrite('', record());
+
+      expect(mockConsole.info).toHaveBeenCalledWith('custom');
+    });
+
+    it('should fall back to the formatted message without a full record', () => {
+      transport = new ConsoleTransport({ browserStyles: true });
+
+      transport.write('Plain message', { level: LogLevel.INFO, timestamp: new Date() });
+
+      expect(mockConsole.info).toHaveBeenCalledWith('Plain message');
+    });
+
+    it('should group context, objects and stack trace when useGroups is enabled', () => {
+      transport = new ConsoleTransport({ browserStyles: true, useGroups: true });
+      const error = new Error('write failed');
+
+      transport.write('', record({
+        level: LogLevel.ERROR,
+        messages: ['Save failed', error],
+        context: { userId: 'u-1' },
+        stackTrace: { filteredStack: 'at save (app.ts:1:1)' } as LogRecord['stackTrace'],
+      }));
+
+      expect(mockConsole.groupCollapsed.mock.calls[0][0]).toBe('%c ERROR %c %c[ui]%c Save failed Error: write failed');
+      expect(mockConsole.log.mock.calls).toEqual([
+        ['context', { userId: 'u-1' }],
+        [error],
+        ['Stack trace:\nat save (app.ts:1:1)'],
+      ]);
+      expect(mockConsole.groupEnd).toHaveBeenCalledTimes(1);
+      expect(mockConsole.error).not.toHaveBeenCalled();
+    });
+
+    it('should not open a group without details', () => {
+      transport = new ConsoleTransport({ browserStyles: true, useGroups: true });
+
+      transport.write('', record({ messages: ['Just text'] }));
+
+      expect(mockConsole.groupCollapsed).not.toHaveBeenCalled();
+      expect(mockConsole.info.mock.calls[0][0]).toBe('%c INFO %c %c[ui]%c Just text');
+    });
+
+    it('should group stack traces in text output when useGroups is enabled', () => {
+      transport = new ConsoleTransport({ browserStyles: false, useGroups: true });
+
+      transport.write('Failed', {
+        level: LogLevel.ERROR,
+        timestamp: new Date(),
+        stackTrace: { filteredStack: 'at save (app.ts:1:1)' } as LogRecord['stackTrace'],
+      });
+
+      expect(mockConsole.groupCollapsed).toHaveBeenCalledWith('Failed');
+      expect(mockConsole.log).toHaveBeenCalledWith('Stack trace:\nat save (app.ts:1:1)');
+      expect(mockConsole.groupEnd).toHaveBeenCalled();
+    });
+  });
+
+  describe('useStderr', () => {
+    it('should write every level and stack traces with console.error', () => {
+      transport = new ConsoleTransport({ useStderr: true });
+      const metadata = (level: LogMetadata['level']): LogMetadata => ({
+        level,
+        timestamp: new Date(),
+        stackTrace: { filteredStack: 'at caller (app.ts:1:1)' } as LogMetadata['stackTrace'],
+      });
+
+      transport.write('Info message', metadata(LogLevel.INFO));
+      transport.write('Error message', metadata(LogLevel.ERROR));
+
+      expect(mockConsole.info).not.toHaveBeenCalled();
+      expect(mockConsole.log).not.toHaveBeenCalled();
+      expect(mockConsole.error).toHaveBeenCalledWith('Info message');
+      expect(mockConsole.error).toHaveBeenCalledWith('Error message');
+      expect(mockConsole.error).toHaveBeenCalledWith('Stack trace:\nat caller (app.ts:1:1)');
+      expect(transport.getStatus().useStderr).toBe(true);
+    });
+
+    it('should be configurable', () => {
+      transport = new ConsoleTransport();
+      transport.configure({ useStderr: true });
+
+      transport.write('Debug message', { level: LogLevel.DEBUG, timestamp: new Date() });
+
+      expect(mockConsole.error).toHaveBeenCalledWith('Debug message');
+    });
+  });
+
+  describe('object arguments', () => {
+    const record = (messages: unknown[], consoleText?: string): LogRecord => ({
+      level: LogLevel.INFO,
+      timestamp: new Date(),
+      messages,
+      consoleText,
+    });
+
+    beforeEach(() => {
+      transport = new ConsoleTransport({ browserStyles: false });
+    });
+
+    it('should pass objects after the record text', () => {
+      const user = new Map([['id', 42]]);
+
+      transport.write('INFO User Map {...} 100% loaded', record(['User', user, '100% loaded'], 'INFO User 100% loaded'));
+
+      expect(mockConsole.info).toHaveBeenCalledWith('INFO User 100%% loaded', user);
+      expect(mockConsole.info.mock.calls[0][1]).toBe(user);
+    });
+
+    it('should write the formatted message without record text', () => {
+      transport.write('INFO ready', record(['ready']));
+
+      expect(mockConsole.info).toHaveBeenCalledWith('INFO ready');
+    });
+
+    it('should keep a per-transport formatter output', () => {
+      transport = new ConsoleTransport({ browserStyles: false, formatter: () => 'custom' });
+
+      transport.safeWrite('INFO User {}', record(['User', {}], 'INFO User'));
+
+      expect(mockConsole.info).toHaveBeenCalledWith('custom');
+    });
+
+    it('should render objects with console args from a logger', async () => {
+      const { createLogger } = await import('@core/logger');
+      const logger = createLogger({
+        transports: [transport],
+        consoleObjects: 'args',
+        colorLevel: ColorLevel.NONE,
+        timestamped: false,
+        useSymbols: false,
+      });
+      const tags = new Set(['a']);
+
+      logger.info('Tags', tags, 'loaded');
+
+      const [text, object] = mockConsole.info.mock.calls[0];
+      expect(text).toContain('Tags loaded');
+      expect(text).not.toContain('{');
+      // A redacted copy, still a Set
+      expect(object).toBeInstanceOf(Set);
+      expect(object).toEqual(tags);
+    });
+  });
+
   describe('getStatus method', () => {
     it('should return current status with all properties', () => {
       transport = new ConsoleTransport({
@@ -0,0 +1,291 @@
+/**
+ * Minimal in-memory IndexedDB for transport tests
+ *
+ * Supports what IndexedDBTransport uses: open with upgrades, autoIncrement
+ * object stores, add, getAll, clear and cursors in transactions that
+ * auto-commit and roll back on errors. Requests complete asynchronously
+ * like the real thing, notifying `on<type>` handlers and event listeners.
+ * `blocked` makes open() throw like browsers with storage disabled,
+ * `quotaBytes` makes add() fail with QuotaExceededError.
+ */
+
+type Handler = (() => void) | null;
+
+/**
+ * Dispatches events to both `on<type>` handlers and added listeners
+ */
+class FakeEventTarget {
+  private listeners = new Map<string, Array<() => void>>();
+
+  addEventListener(type: string, listener: () => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  dispatch(type: string): void {
+    (this as unknown as Record<string, Handler>)[`on${type}`]?.();
+    for (const listener of this.listeners.get(type) ?? []) {
+      listener();
+    }
+  }
+}
+
+interface StoreData {
+  keyPath: string;
+  nextKey: number;
+  records: Map<number, Record<string, unknown>>;
+}
+
+interface DatabaseData {
+  version: number;
+  stores: Map<string, StoreData>;
+}
+
+class FakeRequest<T = unknown> extends FakeEventTarget {
+  result!: T;
+  error: DOMException | null = null;
+  onsuccess: Handler = null;
+  onerror: Handler = null;
+}
+
+class FakeOpenRequest extends FakeRequest<FakeDatabase> {
+  onupgradeneeded: Handler = null;
+  onblocked: Handler = null;
+}
+
+export class FakeIndexedDB {
+  databases = new Map<string, DatabaseData>();
+  blocked = false;
+  quotaBytes = Infinity;
+
+  open(name: string, version?: number): FakeOpenRequest {
+    if (this.blocked) {
+      throw new DOMException('The operation is insecure.', 'SecurityError');
+    }
+
+    const request = new FakeOpenRequest();
+    setTimeout(() => {
+      const data = this.databases.get(name) ?? { version: 0, stores: new Map() };
+      const requestedVersion = version ?? Math.max(data.version, 1);
+      if (requestedVersion < data.version) {
+        request.error = new DOMException('Requested version is lower than the existing one', 'VersionError');
+        request.dispatch('error');
+        return;
+      }
+
+      this.databases.set(name, data);
+      const db = new FakeDatabase(this, data);
+      request.result = db;
+      if (requestedVersion > data.version) {
+        data.version = requestedVersion;
+        db.upgrading = true;
+        request.dispatch('upgradeneeded');
+        db.upgrading = false;
+      }
+      request.dispatch('success');
+    }, 0);
+    return request;
+  }
+
+  usedBytes(): number {
+    let bytes = 0;
+    for (const database of this.databases.values()) {
+      for (const store of database.stores.values()) {
+        for (const record of store.records.values()) {
+          bytes += JSON.stringify(record).length;
+        }
+      }
+    }
+    return bytes;
+  }
+}
+
+class FakeDatabase extends FakeEventTarget {
+  upgrading = false;
+  closed = false;
+  onversionchange: Handler = null;
+
+  constructor(
+    private factory: FakeIndexedDB,
+    private data: DatabaseData,
+  ) {
+    super();
+  }
+
+  get version(): number {
+    return this.data.version;
+  }
+
+  get objectStoreNames(): { contains: (name: string) => boolean } {
+    return { contains: name => this.data.stores.has(name) };
+  }
+
+  createObjectStore(name: string, options: { keyPath: string; autoIncrement?: boolean }): void {
+    if (!this.upgrading) {
+      throw new DOMException('Not in a version change transaction', 'InvalidStateError');
+    }
+    this.data.stores.set(name, { keyPath: options.keyPath, nextKey: 1, records: new Map() });
+  }
+
+  transaction(storeName: string, mode: 'readonly' | 'readwrite' = 'readonly'): FakeTransaction {
+    if (this.closed) {
+      throw new DOMException('The database connection is closing.', 'InvalidStateError');
+    }
+    const store = this.data.stores.get(storeName);
+    if (!store) {
+      throw new DOMException(`No object store named ${storeName}`, 'NotFoundError');
+    }
+    return new FakeTransaction(this.factory, store, mode);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+class FakeTransaction extends FakeEventTarget {
+  oncomplete: Handler = null;
+  onerror: Handler = null;
+  onabort: Handler = null;
+  error: DOMException | null = null;
+
+  private pending = 0;
+  private finished = false;
+  private snapshot: { nextKey: number; records: Map<number, Record<string, unknown>> };
+
+  constructor(
+    readonly factory: FakeIndexedDB,
+    readonly store: StoreData,
+    readonly mode: 'readonly' | 'readwrite',
+  ) {
+    super();
+    this.snapshot = { nextKey: store.nextKey, records: new Map(store.records) };
+    this.settle();
+  }
+
+  objectStore(): FakeObjectStore {
+    return new FakeObjectStore(this);
+  }
+
+  /**
+   * Run an operation asynchronously as part of this transaction
+   */
+  request<T>(operation: () => T, request = new FakeRequest<T>()): FakeRequest<T> {
+    if (this.finished) {
+      throw new DOMException('The transaction has finished.', 'TransactionInactiveError');
+    }
+
+    this.pending++;
+    setTimeout(() => {
+      this.pending--;
+      if (this.finished) {
+        return;
+      }
+      try {
+        request.result = operation();
+      } catch (error) {
+        request.error = error as DOMException;
+        request.dispatch('error');
+        this.abort(error as DOMException);
+        return;
+      }
+      request.dispatch('success');
+      this.settle();
+    }, 0);
+    return request;
+  }
+
+  assertWritable(): void {
+    if (this.mode === 'readonly') {
+      throw new DOMException('The transaction is read-only.', 'ReadOnlyError');
+    }
+  }
+
+  /**
+   * Commit once no request is pending
+   */
+  private settle(): void {
+    setTimeout(() => {
+      if (this.pending === 0 && !this.finished) {
+        this.finished = true;
+        this.dispatch('complete');
+      }
+    }, 0);
+  }
+
+  private abort(error: DOMException): void {
+    this.finished = true;
+    this.store.nextKey = this.snapshot.nextKey;
+    this.store.records = this.snapshot.records;
+    this.error = error;
+    this.dispatch('error');
+    this.dispatch('abort');
+  }
+}
+
+class FakeObjectStore {
+  constructor(private transaction: FakeTransaction) {}
+
+  private get data(): StoreData {
+    return this.transaction.store;
+  }
+
+  add(value: Record<string, unknown>): FakeRequest<number> {
+    this.transaction.assertWritable();
+    return this.transaction.request(() => {
+      const key = this.data.nextKey++;
+      const record = structuredClone({ ...value, [this.data.keyPath]: key });
+      const { factory } = this.transaction;
+      if (factory.usedBytes() + JSON.stringify(record).length > factory.quotaBytes) {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      }
+      this.data.records.set(key, record);
+      return key;
+    });
+  }
+
+  getAll(): FakeRequest<unknown[]> {
+    return this.transaction.request(() => {
+      return [...this.data.records.values()].map(record => structuredClone(record));
+    });
+  }
+
+  clear(): FakeRequest<undefined> {
+    this.transaction.assertWritable();
+    return this.transaction.request(() => {
+      this.data.records.clear();
+      return undefined;
+    });
+  }
+
+  openCursor(): FakeRequest<FakeCursor | null> {
+    const request = new FakeRequest<FakeCursor | null>();
+    let lastKey = 0;
+
+    const step = (): FakeCursor | null => {
+      // Keys are assigned in increasing order, so Map order is key order
+      const key = [...this.data.records.keys()].find(candidate => candidate > lastKey);
+      if (key === undefined) {
+        return null;
+      }
+      lastKey = key;
+      return {
+        value: structuredClone(this.data.records.get(lastKey)),
+        delete: () => {
+          this.transaction.assertWritable();
+          this.data.records.delete(key);
+        },
+        continue: () => {
+          this.transaction.request(step, request);
+        },
+      };
+    };
+
+    return this.transaction.request(step, request);
+  }
+}
+
+interface FakeCursor {
+  value: unknown;
+  delete: () => void;
+  continue: () => void;
+}
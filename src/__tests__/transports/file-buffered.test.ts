@@ -0,0 +1,176 @@
+/**
+ * Buffered FileTransport tests against a real temporary directory
+ */
+
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import path from 'node:path';
+import * as zlib from 'node:zlib';
+import { FileTransport } from '@transports/file-transport';
+import { LogLevel } from '@/types/core.types';
+import type { LogMetadata } from '@/types/transport.types';
+
+// Pass-through spies, to check that buffered writing never blocks on the file system
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>();
+  return {
+    ...actual,
+    renameSync: vi.fn(actual.renameSync),
+    readdirSync: vi.fn(actual.readdirSync),
+    unlinkSync: vi.fn(actual.unlinkSync),
+  };
+});
+vi.mock('node:zlib', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:zlib')>();
+  return { ...actual, gzipSync: vi.fn(actual.gzipSync) };
+});
+
+describe('FileTransport (Buffered)', () => {
+  let dir: string;
+  let filename: string;
+  let transport: FileTransport | undefined;
+  const metadata: LogMetadata = {
+    level: LogLevel.INFO,
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  const read = (file = filename): string =>
+    fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loggical-buffered-'));
+    filename = path.join(dir, 'app.log');
+  });
+
+  afterEach(async () => {
+    await transport?.close();
+    transport = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should queue lines until flushed', async () => {
+    transport = new FileTransport({ filename, buffered: true, eol: '\n' });
+
+    transport.write('first', metadata);
+    transport.write('second', metadata);
+    expect(read()).toBe('');
+    expect(transport.getStatus().buffer).toMatchObject({ queuedLines: 2, queuedBytes: 13 });
+
+    await transport.flush();
+    expect(read()).toBe('first\nsecond\n');
+    expect(transport.getStatus().buffer).toMatchObject({ queuedLines: 0, queuedBytes: 0 });
+  });
+
+  it('should flush once bufferSize is reached', async () => {
+    transport = new FileTransport({ filename, buffered: true, bufferSize: 10, eol: '\n' });
+
+    transport.write('12345', metadata);
+    transport.write('67890', metadata);
+
+    // The batch is already on its way; flush() waits for it
+    await transport.flush();
+    expect(read()).toBe('12345\n67890\n');
+  });
+
+  it('should flush periodically', async () => {
+    transport = new FileTransport({ filename, buffered: true, flushInterval: 10, eol: '\n' });
+
+    transport.write('tick', metadata);
+    await vi.waitFor(() => {
+      expect(read()).toBe('tick\n');
+    });
+  });
+
+  it('should write every queued line in order on close', async () => {
+    transport = new FileTransport({ filename, buffered: true, bufferSize: 64, eol: '\n' });
+
+    const expected: string[] = [];
+    for (let i = 0; i < 200; i++) {
+      transport.write(`line ${i}`, metadata);
+      expected.push(`line ${i}\n`);
+    }
+
+    await transport.close();
+    expect(read()).toBe(expected.join(''));
+  });
+
+  it('should drop lines while the queue is full', async () => {
+    const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+    transport = new FileTransport({ filename, buffered: true, maxQueueSize: 12, eol: '\n' });
+
+    transport.write('kept', metadata);
+    transport.write('also', metadata);
+    transport.write('dropped', metadata);
+    transport.write('dropped', metadata);
+
+    expect(transport.getStatus().buffer).toMatchObject({ queuedLines: 2, droppedLines: 2 });
+    expect(consoleErrorMock).toHaveBeenCalledTimes(1);
+    expect(consoleErrorMock).toHaveBeenCalledWith('FileTransport buffer full, dropping log lines');
+
+    await transport.flush();
+    expect(read()).toBe('kept\nalso\n');
+    consoleErrorMock.mockRestore();
+  });
+
+  it('should rotate within a batch', async () => {
+    transport = new FileTransport({ filename, buffered: true, maxSize: 10, eol: '\n' });
+
+    transport.write('message 1', metadata);
+    transport.write('message 2', metadata);
+    transport.write('message 3', metadata);
+    await transport.flush();
+
+    expect(read(`${filename}.1`)).toBe('message 1\n');
+    expect(read(`${filename}.2`)).toBe('message 2\n');
+    expect(read()).toBe('message 3\n');
+  });
+
+  it('should rotate, compress and prune without synchronous file system calls', async () => {
+    transport = new FileTransport({ filename, buffered: true, maxSize: 10, maxFiles: 1, compress: true, eol: '\n' });
+    vi.clearAllMocks();
+
+    transport.write('message 1', metadata);
+    transport.write('message 2', metadata);
+    transport.write('message 3', metadata);
+    await transport.flush();
+
+    const files = fs.readdirSync(dir);
+    files.sort();
+    expect(files).toEqual(['app.log', 'app.log.2.gz']);
+    expect(zlib.gunzipSync(fs.readFileSync(`${filename}.2.gz`)).toString()).toBe('message 2\n');
+    expect(read()).toBe('message 3\n');
+    expect(fs.renameSync).not.toHaveBeenCalled();
+    expect(fs.unlinkSync).not.toHaveBeenCalled();
+    expect(fs.readdirSync).toHaveBeenCalledTimes(1); // The assertion above
+    expect(zlib.gzipSync).not.toHaveBeenCalled();
+  });
+
+  it('should truncate each file as it is opened when append is off', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2024, 0, 1, 12));
+    const dayOne = path.join(dir, 'app-2024-01-01.log');
+    const dayTwo = path.join(dir, 'app-2024-01-02.log');
+    fs.writeFileSync(dayOne, 'previous run\n');
+    fs.writeFileSync(dayTwo, 'previous run\n');
+    transport = new FileTransport({ filename: path.join(dir, 'app-%Y-%m-%d.log'), buffered: true, append: false, eol: '\n' });
+    expect(read(dayOne)).toBe('');
+
+    transport.write('first', metadata);
+    await transport.flush();
+    transport.write('second', metadata);
+    await transport.flush();
+    vi.setSystemTime(new Date(2024, 0, 2, 12));
+    transport.write('next day', metadata);
+    await transport.flush();
+    vi.useRealTimers();
+
+    expect(read(dayOne)).toBe('first\nsecond\n');
+    expect(read(dayTwo)).toBe('next day\n');
+  });
+
+  it('should report buffering as disabled by default', () => {
+    transport = new FileTransport({ filename });
+    expect(transport.getStatus().buffer).toEqual({ enabled: false });
+  });
+});
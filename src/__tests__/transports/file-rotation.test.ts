@@ -0,0 +1,253 @@
+/**
+ * File rotation tests against a real temporary directory
+ */
+
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { FileTransport } from '@transports/file-transport';
+import {
+  getPatternInterval,
+  getPeriodKey,
+  resolveFilenamePattern,
+} from '@transports/file-rotation';
+import { LogLevel } from '@/types/core.types';
+import type { LogMetadata } from '@/types/transport.types';
+
+describe('File Rotation', () => {
+  let dir: string;
+  const metadata: LogMetadata = {
+    level: LogLevel.INFO,
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  const listFiles = (): string[] => {
+    const files = fs.readdirSync(dir);
+    files.sort();
+    return files;
+  };
+  const read = (name: string): string => fs.readFileSync(path.join(dir, name), 'utf8');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loggical-rotation-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('helpers', () => {
+    const date = new Date(2024, 0, 5, 7, 30);
+
+    it('should resolve date tokens in filename patterns', () => {
+      expect(resolveFilenamePattern('logs/app-%Y-%m-%d.log', date)).toBe('logs/app-2024-01-05.log');
+      expect(resolveFilenamePattern('app-%Y%m%d%H.log', date)).toBe('app-2024010507.log');
+      expect(resolveFilenamePattern('app.log', date)).toBe('app.log');
+    });
+
+    it('should compute period keys per interval', () => {
+      expect(getPeriodKey(date, 'daily')).toBe('2024-01-05');
+      expect(getPeriodKey(date, 'hourly')).toBe('2024-01-05T07');
+    });
+
+    it('should infer the interval from date tokens', () => {
+      expect(getPatternInterval('app-%Y-%m-%d-%H.log')).toBe('hourly');
+      expect(getPatternInterval('app-%Y-%m-%d.log')).toBe('daily');
+      expect(getPatternInterval('app.log')).toBeUndefined();
+    });
+  });
+
+  describe('size-based rotation', () => {
+    it('should rotate when the next line would exceed maxSize', () => {
+      const transport = new FileTransport({
+        filename: path.join(dir, 'app.log'),
+        maxSize: 20,
+        eol: '\n',
+      });
+
+      transport.write('first line', metadata);
+      transport.write('second line', metadata);
+      transport.write('third line', metadata);
+
+      expect(listFiles()).toEqual(['app.log', 'app.log.1', 'app.log.2']);
+      expect(read('app.log.1')).toBe('first line\n');
+      expect(read('app.log.2')).toBe('second line\n');
+      expect(read('app.log')).toBe('third line\n');
+    });
+
+    it('should keep at most maxFiles rotated files', () => {
+      const transport = new FileTransport({
+        filename: path.join(dir, 'app.log'),
+        maxSize: 10,
+        maxFiles: 2,
+        eol: '\n',
+      });
+
+      for (let i = 1; i <= 5; i++) {
+        transport.write(`message ${i}`, metadata);
+      }
+
+      expect(listFiles()).toEqual(['app.log', 'app.log.3', 'app.log.4']);
+      expect(read('app.log.4')).toBe('message 4\n');
+    });
+
+    it('should keep rotated files within maxTotalSize', () => {
+      const transport = new FileTransport({
+        filename: path.join(dir, 'app.log'),
+        maxSize: 10,
+        maxTotalSize: 25,
+        eol: '\n',
+      });
+
+      for (let i = 1; i <= 5; i++) {
+        transport.write(`message ${i}`, metadata);
+      }
+
+      // Each rotated file is 10 bytes, so only two fit
+      expect(listFiles()).toEqual(['app.log', 'app.log.3', 'app.log.4']);
+    });
+
+    it('should gzip rotated files when compress is enabled', () => {
+      const transport = new FileTransport({
+        filename: path.join(dir, 'app.log'),
+        maxSize: 10,
+        compress: true,
+        eol: '\n',
+      });
+
+      transport.write('message 1', metadata);
+      transport.write('message 2', metadata);
+
+      expect(listFiles()).toEqual(['app.log', 'app.log.1.gz']);
+      const content = gunzipSync(fs.readFileSync(path.join(dir, 'app.log.1.gz'))).toString('utf8');
+      expect(content).toBe('message 1\n');
+    });
+  });
+
+  describe('time-based rotation', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2024, 0, 1, 23, 59));
+    });
+
+    it('should rotate when a new day starts', () => {
+      const transport = new FileTransport({
+        filename: path.join(dir, 'app.log'),
+        interval: 'daily',
+        eol: '\n',
+      });
+
+      transport.write('before midnight', metadata);
+      transport.write('still today', metadata);
+      vi.setSystemTime(new Date(2024, 0, 2, 0, 1));
+      transport.write('after midnight', metadata);
+
+      expect(listFiles()).toEqual(['app.log', 'app.log.1']);
+      expect(read('app.log.1')).toBe('before midnight\nstill today\n');
+      expect(read('app.log')).toBe('after midnight\n');
+    });
+
+    it('should switch files when date tokens change', () => {
+      const transport = new FileTransport({
+        filename: path.join(dir, 'app-%Y-%m-%d.log'),
+        eol: '\n',
+      });
+
+      transport.write('day one', metadata);
+      vi.setSystemTime(new Date(2024, 0, 2, 0, 1));
+      transport.write('day two', metadata);
+
+      expect(listFiles()).toEqual(['app-2024-01-01.log', 'app-2024-01-02.log']);
+      expect(read('app-2024-01-01.log')).toBe('day one\n');
+      expect(read('app-2024-01-02.log')).toBe('day two\n');
+    });
+
+    it('should truncate each file as it is opened when append is off', () => {
+      fs.writeFileSync(path.join(dir, 'app-2024-01-01.log'), 'previous run\n');
+      fs.writeFileSync(path.join(dir, 'app-2024-01-02.log'), 'previous run\n');
+      const transport = new FileTransport({
+        filename: path.join(dir, 'app-%Y-%m-%d.log'),
+        append: false,
+        eol: '\n',
+      });
+      expect(read('app-2024-01-01.log')).toBe('');
+
+      transport.write('first', metadata);
+      transport.write('second', metadata);
+      vi.setSystemTime(new Date(2024, 0, 2, 0, 1));
+      transport.write('next day', metadata);
+
+      expect(read('app-2024-01-01.log')).toBe('first\nsecond\n');
+      expect(read('app-2024-01-02.log')).toBe('next day\n');
+    });
+
+    it('should compress and prune files of previous periods', () => {
+      const transport = new FileTransport({
+        filename: path.join(dir, 'app-%Y-%m-%d-%H.log'),
+        maxFiles: 1,
+        compress: true,
+        eol: '\n',
+      });
+
+      transport.write('hour 23', metadata);
+      vi.setSystemTime(new Date(2024, 0, 2, 0, 1));
+      transport.write('hour 0', metadata);
+      vi.setSystemTime(new Date(2024, 0, 2, 1, 1));
+      transport.write('hour 1', metadata);
+
+      expect(listFiles()).toEqual(['app-2024-01-02-00.log.gz', 'app-2024-01-02-01.log']);
+    });
+
+    it('should prune files of previous periods in dated directories', () => {
+      const transport = new FileTransport({
+        filename: path.join(dir, '%Y-%m-%d', 'app.log'),
+        maxFiles: 1,
+        eol: '\n',
+      });
+
+      transport.write('day one', metadata);
+      vi.setSystemTime(new Date(2024, 0, 2, 0, 1));
+      transport.write('day two', metadata);
+      vi.setSystemTime(new Date(2024, 0, 3, 0, 1));
+      transport.write('day three', metadata);
+
+      const remaining = ['2024-01-01', '2024-01-02', '2024-01-03']
+        .filter(day => fs.existsSync(path.join(dir, day, 'app.log')));
+      expect(remaining).toEqual(['2024-01-02', '2024-01-03']);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report rotation details', () => {
+      const transport = new FileTransport({
+        filename: path.join(dir, 'app.log'),
+        maxSize: 10,
+        maxFiles: 3,
+        eol: '\n',
+      });
+
+      transport.write('message 1', metadata);
+      transport.write('message 2', metadata);
+
+      expect(transport.getStatus().rotation).toMatchObject({
+        enabled: true,
+        activeFile: path.join(dir, 'app.log'),
+        maxSize: 10,
+        maxFiles: 3,
+        compress: false,
+        currentSize: 10,
+        rotations: 1,
+        rotatedFiles: 1,
+        rotatedSize: 10,
+      });
+    });
+
+    it('should report rotation as disabled by default', () => {
+      const transport = new FileTransport({ filename: path.join(dir, 'app.log') });
+      expect(transport.getStatus().rotation).toEqual({ enabled: false });
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import path from 'node:path';
+import { HttpTransport } from '@transports/http-transport';
+import { createLogger } from '@core/logger';
+import { LogLevel } from '@/types/core.types';
+import type { HttpTransportOptions, LogRecord } from '@/types/transport.types';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('HttpTransport', () => {
+  let server: Server;
+  let url: string;
+  let requests: ReceivedRequest[];
+  let respond: (request: ReceivedRequest) => number | Promise<number>;
+  let transports: HttpTransport[];
+  let consoleErrorMock: ReturnType<typeof vi.spyOn>;
+
+  const record = (message: string): LogRecord => ({
+    level: LogLevel.INFO,
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    messages: [message],
+    context: {},
+  });
+
+  const createTransport = (options: Partial<HttpTransportOptions> = {}) => {
+    const transport = new HttpTransport({ url, retryDelay: 5, ...options });
+    transports.push(transport);
+    return transport;
+  };
+
+  const waitForRequests = (count: number) => vi.waitFor(() => {
+    expect(requests.length).toBeGreaterThanOrEqual(count);
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    transports = [];
+    respond = () => 200;
+    consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', async () => {
+        const request = { headers: req.headers, body };
+        requests.push(request);
+        res.statusCode = await respond(request);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve);
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/ingest`;
+  });
+
+  afterEach(async () => {
+    for (const transport of transports) {
+      await transport.close();
+    }
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+    consoleErrorMock.mockRestore();
+  });
+
+  describe('batching', () => {
+    it('should send a JSON array once batchSize entries are queued', async () => {
+      const transport = createTransport({ batchSize: 3, headers: { Authorization: 'Bearer token' } });
+
+      await transport.safeWrite('', record('one'));
+      await transport.safeWrite('', record('two'));
+      expect(requests).toHaveLength(0);
+      await transport.safeWrite('', record('three'));
+      await waitForRequests(1);
+
+      const body = JSON.parse(requests[0].body);
+      expect(body.map((entry: { message: string }) => entry.message)).toEqual(['one', 'two', 'three']);
+      expect(requests[0].headers['content-type']).toBe('application/json');
+      expect(requests[0].headers.authorization).toBe('Bearer token');
+    });
+
+    it('should send NDJSON', async () => {
+      const transport = createTransport({ batchSize: 2, bodyFormat: 'ndjson' });
+
+      await transport.safeWrite('', record('one'));
+      await transport.safeWrite('', record('two'));
+      await waitForRequests(1);
+
+      const lines = requests[0].body.trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(line => line.message)).toEqual(['one', 'two']);
+      expect(requests[0].headers['content-type']).toBe('application/x-ndjson');
+    });
+
+    it('should send once batchBytes are queued', async () => {
+      const transport = createTransport({ batchBytes: 100 });
+
+      await transport.safeWrite('', record('x'.repeat(120)));
+      await waitForRequests(1);
+
+      expect(transport.getStatus().sentEntries).toBe(1);
+    });
+
+    it('should send partial batches every flushInterval', async () => {
+      const transport = createTransport({ flushInterval: 20 });
+
+      await transport.safeWrite('', record('waiting'));
+      await waitForRequests(1);
+
+      expect(JSON.parse(requests[0].body)).toHaveLength(1);
+    });
+
+    it('should send everything queued on close', async () => {
+      const transport = createTransport();
+
+      await transport.safeWrite('', record('one'));
+      await transport.safeWrite('', record('two'));
+      await transport.close();
+
+      expect(requests).toHaveLength(1);
+      expect(transport.getStatus()).toMatchObject({ queueDepth: 0, sentEntries: 2, closed: true });
+    });
+
+    it('should default to JSON when the formatter option is undefined', async () => {
+      const transport = createTransport({ formatter: undefined, batchSize: 1 });
+
+      await transport.safeWrite('', record('defaulted'));
+      await waitForRequests(1);
+
+      expect(JSON.parse(requests[0].body)[0]).toMatchObject({ message: 'defaulted' });
+    });
+
+    it('should wrap plain metadata in a JSON entry', async () => {
+      const transport = createTransport();
+
+      await transport.write('Plain message', { level: LogLevel.WARN, timestamp: new Date(), context: { a: 1 } });
+      await transport.flush();
+
+      expect(JSON.parse(requests[0].body)[0]).toMatchObject({ message: 'Plain message', context: { a: 1 } });
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry server errors with backoff', async () => {
+      let attempts = 0;
+      respond = () => (++attempts < 3 ? 503 : 200);
+      const transport = createTransport();
+
+      await transport.safeWrite('', record('eventually'));
+      await transport.flush();
+
+      expect(requests).toHaveLength(3);
+      expect(transport.getStatus()).toMatchObject({
+        sentEntries: 1,
+        failedRequests: 2,
+        retries: 2,
+        droppedEntries: 0,
+        lastError: 'HTTP 503',
+      });
+    });
+
+    it('should not keep the process alive while waiting to retry', async () => {
+      respond = () => 503;
+      const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+      const transport = createTransport({ maxRetries: 1, silent: true });
+
+      await transport.safeWrite('', record('waiting'));
+      await transport.flush();
+
+      // Backoff for the first retry is jittered between 2.5 and 5 ms
+      const backoffs = setTimeoutSpy.mock.calls.flatMap((call, index) =>
+        (call[1] ?? 0) > 0 && (call[1] ?? 0) <= 5 ? [setTimeoutSpy.mock.results[index].value as NodeJS.Timeout] : []);
+      expect(backoffs).toHaveLength(1);
+      expect(backoffs[0].hasRef()).toBe(false);
+      setTimeoutSpy.mockRestore();
+    });
+
+    it('should drop a batch after maxRetries', async () => {
+      respond = () => 500;
+      const transport = createTransport({ maxRetries: 1 });
+
+      await transport.safeWrite('', record('lost'));
+      await transport.flush();
+
+      expect(requests).toHaveLength(2);
+      expect(transport.getStatus()).toMatchObject({ failedBatches: 1, droppedEntries: 1 });
+      expect(consoleErrorMock).toHaveBeenCalledWith('HttpTransport send error:', expect.any(Error));
+    });
+
+    it('should not retry client errors', async () => {
+      respond = () => 400;
+      const transport = createTransport();
+
+      await transport.safeWrite('', record('rejected'));
+      await transport.flush();
+
+      expect(requests).toHaveLength(1);
+      expect(transport.getStatus()).toMatchObject({ retries: 0, failedBatches: 1 });
+    });
+
+    it('should retry network errors', async () => {
+      const transport = createTransport({ url: 'http://127.0.0.1:1/unreachable', maxRetries: 2, silent: true });
+
+      await transport.safeWrite('', record('offline'));
+      await transport.flush();
+
+      expect(transport.getStatus()).toMatchObject({ failedRequests: 3, retries: 2, droppedEntries: 1 });
+    });
+  });
+
+  describe('limits', () => {
+    it('should cap the number of requests in flight', async () => {
+      let active = 0;
+      let maxActive = 0;
+      respond = async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        active--;
+        return 200;
+      };
+      const transport = createTransport({ batchSize: 1, maxInFlight: 2 });
+
+      for (const message of ['a', 'b', 'c', 'd', 'e']) {
+        await transport.safeWrite('', record(message));
+      }
+      expect(transport.getStatus()).toMatchObject({ inFlight: 2, queueDepth: 3 });
+      await transport.flush();
+
+      expect(maxActive).toBe(2);
+      expect(transport.getStatus().sentEntries).toBe(5);
+    });
+
+    it('should drop entries while the queue is full', async () => {
+      const transport = createTransport({ maxQueueSize: 2 });
+
+      for (const message of ['a', 'b', 'c', 'd']) {
+        await transport.safeWrite('', record(message));
+      }
+
+      expect(transport.getStatus()).toMatchObject({ queueDepth: 2, droppedEntries: 2 });
+      expect(consoleErrorMock).toHaveBeenCalledTimes(1);
+      expect(consoleErrorMock).toHaveBeenCalledWith('HttpTransport buffer full, dropping log entries');
+    });
+
+    it('should spill entries to disk while the queue is full', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loggical-http-'));
+      const spillFile = path.join(dir, 'spill.ndjson');
+      const transport = createTransport({ maxQueueSize: 1, overflow: 'spill', spillFile });
+
+      await transport.safeWrite('', record('queued'));
+      await transport.safeWrite('', record('spilled'));
+
+      const spilled = fs.readFileSync(spillFile, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(spilled.map(entry => entry.message)).toEqual(['spilled']);
+      expect(transport.getStatus()).toMatchObject({ spilledEntries: 1, droppedEntries: 0, spillFile });
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  it('should ship logger output and flush on logger.close()', async () => {
+    const transport = createTransport();
+    const logger = createLogger({ transports: [transport], redaction: true });
+
+    logger.info('Shipped', { password: 'hunter2' });
+    await logger.close();
+
+    const [entry] = JSON.parse(requests[0].body);
+    expect(entry).toMatchObject({ levelName: 'INFO', message: 'Shipped' });
+    expect(requests[0].body).not.toContain('hunter2');
+  });
+});
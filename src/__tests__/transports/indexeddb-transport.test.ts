@@ -0,0 +1,197 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { IndexedDBTransport } from '@transports/indexeddb-transport';
+import { createLogger } from '@core/logger';
+import { LogLevel, type LogLevelType } from '@/types/core.types';
+import type { IndexedDBTransportOptions, LogRecord } from '@/types/transport.types';
+import { FakeIndexedDB } from './fake-indexeddb';
+
+describe('IndexedDBTransport', () => {
+  let indexedDB: FakeIndexedDB;
+  let consoleWarnMock: ReturnType<typeof vi.spyOn>;
+
+  const createTransport = (options: IndexedDBTransportOptions = {}) => new IndexedDBTransport({
+    indexedDB: indexedDB as unknown as IDBFactory,
+    formatter: entry => String(entry.messages[0]),
+    ...options,
+  });
+
+  const record = (message: string, overrides: Partial<LogRecord> = {}): LogRecord => ({
+    level: LogLevel.INFO as LogLevelType,
+    timestamp: new Date(),
+    messages: [message],
+    ...overrides,
+  });
+
+  const lines = async (transport: IndexedDBTransport) => {
+    const ndjson = await transport.export();
+    return ndjson.split('\n').filter(Boolean);
+  };
+
+  beforeEach(() => {
+    indexedDB = new FakeIndexedDB();
+    consoleWarnMock = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleWarnMock.mockRestore();
+  });
+
+  it('should store logger output as NDJSON', async () => {
+    const transport = new IndexedDBTransport({ indexedDB: indexedDB as unknown as IDBFactory });
+    const logger = createLogger({ transports: [transport], prefix: 'app' });
+
+    logger.info('Started', { version: '1.2.3' });
+    logger.error('Request failed');
+    await transport.flush();
+
+    const ndjson = await transport.export();
+    const exported = ndjson.trimEnd().split('\n').map(line => JSON.parse(line));
+    expect(exported).toMatchObject([
+      { level: LogLevel.INFO, prefix: ['app'], message: 'Started' },
+      { level: LogLevel.ERROR, message: 'Request failed' },
+    ]);
+    await transport.close();
+  });
+
+  it('should keep entries across page loads', async () => {
+    const first = createTransport();
+    await first.safeWrite('', record('before reload'));
+    await first.close();
+
+    const second = createTransport();
+    await second.safeWrite('', record('after reload'));
+
+    expect(await lines(second)).toEqual(['before reload', 'after reload']);
+    expect(second.getStatus()).toMatchObject({ state: 'ready', storedEntries: 2 });
+    await second.close();
+  });
+
+  it('should write a batch once batchSize entries are queued', async () => {
+    const transport = createTransport({ batchSize: 2, flushInterval: 60_000 });
+
+    await transport.safeWrite('', record('one'));
+    expect(transport.getStatus().queuedEntries).toBe(1);
+    await transport.safeWrite('', record('two'));
+
+    await vi.waitFor(() => {
+      expect(transport.getStatus()).toMatchObject({ queuedEntries: 0, writtenEntries: 2 });
+    });
+    await transport.close();
+  });
+
+  describe('retention', () => {
+    it('should keep at most maxEntries entries', async () => {
+      const transport = createTransport({ maxEntries: 3 });
+      for (const message of ['one', 'two', 'three', 'four', 'five']) {
+        await transport.safeWrite('', record(message));
+      }
+
+      expect(await lines(transport)).toEqual(['three', 'four', 'five']);
+      expect(transport.getStatus()).toMatchObject({ storedEntries: 3, evictedEntries: 2 });
+      await transport.close();
+    });
+
+    it('should keep at most maxBytes bytes of log lines', async () => {
+      const transport = createTransport({ maxBytes: 20 });
+      for (const message of ['aaaaaaaaaa', 'bbbbbbbbbb', 'cccccccccc']) {
+        await transport.safeWrite('', record(message));
+      }
+
+      expect(await lines(transport)).toEqual(['bbbbbbbbbb', 'cccccccccc']);
+      expect(transport.getStatus().storedBytes).toBe(20);
+      await transport.close();
+    });
+
+    it('should delete entries older than maxAge', async () => {
+      const first = createTransport();
+      await first.safeWrite('', record('last week', { timestamp: new Date(Date.now() - 7 * 86_400_000) }));
+      await first.safeWrite('', record('yesterday', { timestamp: new Date(Date.now() - 86_400_000) }));
+      await first.close();
+
+      const second = createTransport({ maxAge: 2 * 86_400_000 });
+
+      expect(await lines(second)).toEqual(['yesterday']);
+      await second.close();
+    });
+
+    it('should evict the oldest entries when the quota is exceeded', async () => {
+      const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const transport = createTransport();
+      for (const message of ['one', 'two', 'three', 'four']) {
+        await transport.safeWrite('', record(message));
+      }
+      await transport.flush();
+      indexedDB.quotaBytes = indexedDB.usedBytes();
+
+      await transport.safeWrite('', record('five'));
+
+      expect(await lines(transport)).toEqual(['three', 'four', 'five']);
+      expect(transport.getStatus()).toMatchObject({ droppedEntries: 0, evictedEntries: 2 });
+      expect(consoleErrorMock).not.toHaveBeenCalled();
+      consoleErrorMock.mockRestore();
+      await transport.close();
+    });
+  });
+
+  describe('export', () => {
+    it('should filter by time and level', async () => {
+      const transport = createTransport();
+      await transport.safeWrite('', record('old', { timestamp: new Date(Date.now() - 60_000) }));
+      await transport.safeWrite('', record('debug', { level: LogLevel.DEBUG }));
+      await transport.safeWrite('', record('warning', { level: LogLevel.WARN }));
+
+      expect(await transport.export({ since: Date.now() - 1000 })).toBe('debug\nwarning\n');
+      expect(await transport.export({ minLevel: LogLevel.INFO })).toBe('old\nwarning\n');
+      await transport.close();
+    });
+
+    it('should export a Blob', async () => {
+      const transport = createTransport();
+      await transport.safeWrite('', record('in a blob'));
+
+      const blob = await transport.export({ format: 'blob' });
+
+      expect(blob.type).toBe('application/x-ndjson');
+      expect(await blob.text()).toBe('in a blob\n');
+      await transport.close();
+    });
+
+    it('should clear stored entries', async () => {
+      const transport = createTransport();
+      await transport.safeWrite('', record('gone'));
+      await transport.flush();
+
+      await transport.clear();
+
+      expect(await transport.export()).toBe('');
+      expect(transport.getStatus().storedEntries).toBe(0);
+      await transport.close();
+    });
+  });
+
+  describe('unavailable storage', () => {
+    it('should drop entries when opening is blocked', async () => {
+      indexedDB.blocked = true;
+      const transport = createTransport();
+
+      await transport.safeWrite('', record('nowhere to go'));
+      await transport.safeWrite('', record('still nowhere'));
+
+      expect(await transport.export()).toBe('');
+      expect(transport.getStatus()).toMatchObject({ state: 'unavailable', droppedEntries: 2 });
+      expect(consoleWarnMock).toHaveBeenCalledTimes(1);
+      await transport.close();
+    });
+
+    it('should drop entries without IndexedDB', async () => {
+      const transport = new IndexedDBTransport({ silent: true });
+
+      await transport.safeWrite('', record('no IndexedDB here'));
+
+      expect(await transport.export()).toBe('');
+      expect(transport.getStatus()).toMatchObject({ state: 'unavailable', lastError: 'IndexedDB is not available' });
+      expect(consoleWarnMock).not.toHaveBeenCalled();
+      await transport.close();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryTransport } from '@transports/memory-transport';
+import { createLogger } from '@core/logger';
+import { LogLevel, type LogLevelType } from '@/types/core.types';
+import type { LogRecord, Transport } from '@/types/transport.types';
+
+describe('MemoryTransport', () => {
+  const record = (
+    message: string,
+    overrides: Partial<LogRecord> = {},
+  ): LogRecord => ({
+    level: LogLevel.INFO as LogLevelType,
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    messages: [message],
+    ...overrides,
+  });
+
+  it('should keep the last entries in a ring buffer', async () => {
+    const transport = new MemoryTransport({ capacity: 3 });
+
+    for (const message of ['one', 'two', 'three', 'four', 'five']) {
+      await transport.safeWrite(message, record(message));
+    }
+
+    expect(transport.snapshot().map(entry => entry.metadata)).toEqual([
+      record('three'),
+      record('four'),
+      record('five'),
+    ]);
+    expect(transport.getStatus()).toMatchObject({ capacity: 3, size: 3, overwrittenEntries: 2 });
+  });
+
+  it('should render messages without colors by default', async () => {
+    const transport = new MemoryTransport();
+
+    await transport.safeWrite('\u001B[31mcolored\u001B[39m', record('plain', { prefix: ['api'] }));
+
+    const [entry] = transport.snapshot();
+    expect(entry.message).toContain('plain');
+    expect(entry.message).toContain('api');
+    expect(entry.message).not.toContain('\u001B[');
+  });
+
+  it('should empty the buffer on drain', async () => {
+    const transport = new MemoryTransport();
+    await transport.safeWrite('one', record('one'));
+    await transport.safeWrite('two', record('two'));
+
+    expect(transport.drain()).toHaveLength(2);
+    expect(transport.snapshot()).toEqual([]);
+
+    await transport.safeWrite('three', record('three'));
+    expect(transport.snapshot().map(entry => entry.metadata)).toEqual([record('three')]);
+  });
+
+  it('should query by level, time, prefix, context and text', async () => {
+    const transport = new MemoryTransport({ formatter: entry => String(entry.messages[0]) });
+    await transport.safeWrite('', record('Cache warmed', {
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+      prefix: ['cache'],
+    }));
+    await transport.safeWrite('', record('Query timeout', {
+      level: LogLevel.ERROR,
+      timestamp: new Date('2024-01-01T00:05:00Z'),
+      prefix: ['api', 'db'],
+      context: { requestId: 'r-1', attempt: 2 },
+    }));
+    await transport.safeWrite('', record('Slow query', {
+      level: LogLevel.WARN,
+      timestamp: new Date('2024-01-01T00:10:00Z'),
+      prefix: ['db'],
+      context: { requestId: 'r-2' },
+    }));
+
+    const messages = (query: Parameters<MemoryTransport['query']>[0]) =>
+      transport.query(query).map(entry => entry.message);
+
+    expect(messages({})).toEqual(['Cache warmed', 'Query timeout', 'Slow query']);
+    expect(messages({ minLevel: LogLevel.WARN })).toEqual(['Query timeout', 'Slow query']);
+    expect(messages({ since: new Date('2024-01-01T00:05:00Z') })).toEqual(['Query timeout', 'Slow query']);
+    expect(messages({ since: Date.parse('2024-01-01T00:06:00Z') })).toEqual(['Slow query']);
+    expect(messages({ prefix: 'db' })).toEqual(['Query timeout', 'Slow query']);
+    expect(messages({ contextMatch: { requestId: 'r-1', attempt: 2 } })).toEqual(['Query timeout']);
+    expect(messages({ text: 'query' })).toEqual(['Slow query']);
+    expect(messages({ text: /query/gi })).toEqual(['Query timeout', 'Slow query']);
+    expect(messages({ prefix: 'db', minLevel: LogLevel.ERROR, text: 'timeout' })).toEqual(['Query timeout']);
+  });
+
+  it('should keep the newest entries when capacity shrinks', async () => {
+    const transport = new MemoryTransport({ capacity: 5 });
+    for (const message of ['one', 'two', 'three', 'four']) {
+      await transport.safeWrite(message, record(message));
+    }
+
+    transport.configure({ capacity: 2 });
+
+    expect(transport.snapshot().map(entry => entry.metadata)).toEqual([record('three'), record('four')]);
+  });
+
+  it('should dump the buffer into another transport on FATAL', async () => {
+    const written: string[] = [];
+    const target: Transport = {
+      name: 'crash-report',
+      write: (message) => {
+        written.push(message);
+      },
+      flush: vi.fn(),
+    };
+    const transport = new MemoryTransport({
+      formatter: entry => String(entry.messages[0]),
+      dumpOnFatal: target,
+    });
+
+    await transport.safeWrite('', record('Starting'));
+    await transport.safeWrite('', record('Disk full', { level: LogLevel.ERROR }));
+    expect(written).toEqual([]);
+
+    await transport.safeWrite('', record('Giving up', { level: LogLevel.FATAL }));
+
+    expect(written).toEqual(['Starting', 'Disk full', 'Giving up']);
+    expect(target.flush).toHaveBeenCalled();
+    expect(transport.snapshot()).toEqual([]);
+    expect(transport.getStatus()).toMatchObject({ dumpOnFatal: 'crash-report', dumps: 1 });
+  });
+
+  it('should record logger calls with their full record', async () => {
+    const transport = new MemoryTransport();
+    const logger = createLogger({ transports: [transport], prefix: 'worker' });
+
+    logger.withContext({ jobId: 7 }).warn('Retrying', { attempt: 3 });
+    await logger.close();
+
+    const [entry] = transport.query({ contextMatch: { jobId: 7 } });
+    expect(entry.metadata).toMatchObject({
+      level: LogLevel.WARN,
+      prefix: ['worker'],
+      messages: ['Retrying', { attempt: 3 }],
+    });
+    expect(entry.message).toContain('Retrying');
+  });
+});
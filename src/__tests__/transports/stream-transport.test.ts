@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PassThrough, Writable } from 'node:stream';
+import { StreamTransport } from '@transports/stream-transport';
+import { createLogger } from '@core/logger';
+import { LogLevel } from '@/types/core.types';
+import type { LogMetadata } from '@/types/transport.types';
+
+describe('StreamTransport', () => {
+  const metadata: LogMetadata = { level: LogLevel.INFO, timestamp: new Date() };
+
+  /**
+   * Writable that holds every chunk until release() is called
+   */
+  const createSlowStream = () => {
+    const chunks: string[] = [];
+    const callbacks: Array<() => void> = [];
+    const stream = new Writable({
+      highWaterMark: 16,
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk.toString());
+        callbacks.push(callback);
+      },
+    });
+    const release = () => {
+      while (callbacks.length > 0) {
+        callbacks.shift()?.();
+      }
+    };
+    return { stream, chunks, release };
+  };
+
+  it('should write lines with the configured EOL', () => {
+    const stream = new PassThrough();
+    const transport = new StreamTransport({ stream, eol: '\r\n' });
+
+    transport.write('first', metadata);
+    transport.write('second', metadata);
+
+    expect(stream.read().toString()).toBe('first\r\nsecond\r\n');
+    expect(transport.getStatus()).toMatchObject({ name: 'stream', eol: String.raw`\r\n`, writable: true });
+  });
+
+  it('should queue lines until the stream drains', async () => {
+    const { stream, chunks, release } = createSlowStream();
+    const transport = new StreamTransport({ stream });
+
+    transport.write('this line fills the buffer', metadata);
+    transport.write('queued one', metadata);
+    transport.write('queued two', metadata);
+
+    expect(chunks).toEqual(['this line fills the buffer\n']);
+    expect(transport.getStatus()).toMatchObject({ waitingForDrain: true, queuedLines: 2 });
+
+    const flushed = transport.flush();
+    release();
+    await vi.waitFor(() => {
+      release();
+      expect(chunks).toHaveLength(3);
+    });
+    await flushed;
+
+    expect(chunks).toEqual(['this line fills the buffer\n', 'queued one\n', 'queued two\n']);
+    expect(transport.getStatus()).toMatchObject({ waitingForDrain: false, queuedLines: 0 });
+    expect(transport.getStatus().drainEvents).toBeGreaterThan(0);
+  });
+
+  it('should drop lines beyond maxQueueSize', () => {
+    const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { stream } = createSlowStream();
+    const transport = new StreamTransport({ stream, maxQueueSize: 20 });
+
+    transport.write('this line fills the buffer', metadata);
+    transport.write('queued line', metadata);
+    transport.write('dropped line', metadata);
+    transport.write('dropped too', metadata);
+
+    expect(transport.getStatus()).toMatchObject({ queuedLines: 1, droppedLines: 2 });
+    expect(consoleErrorMock).toHaveBeenCalledTimes(1);
+    consoleErrorMock.mockRestore();
+  });
+
+  it('should end the stream and wait for finish on close', async () => {
+    const { stream, chunks, release } = createSlowStream();
+    const transport = new StreamTransport({ stream });
+    const finished = vi.fn();
+    stream.on('finish', finished);
+
+    transport.write('this line fills the buffer', metadata);
+    transport.write('last line', metadata);
+    const closed = transport.close();
+    const interval = setInterval(release, 5);
+    await closed;
+    clearInterval(interval);
+
+    expect(finished).toHaveBeenCalled();
+    expect(chunks).toEqual(['this line fills the buffer\n', 'last line\n']);
+    expect(stream.writableFinished).toBe(true);
+  });
+
+  it('should not end process.stderr', async () => {
+    const endSpy = vi.spyOn(process.stderr, 'end');
+    const transport = new StreamTransport({ stream: process.stderr });
+
+    await transport.close();
+
+    expect(endSpy).not.toHaveBeenCalled();
+    expect(transport.getStatus().end).toBe(false);
+    endSpy.mockRestore();
+  });
+
+  it('should report stream errors instead of crashing', () => {
+    const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stream = new PassThrough();
+    new StreamTransport({ stream });
+
+    stream.emit('error', new Error('EPIPE'));
+
+    expect(consoleErrorMock).toHaveBeenCalledWith('StreamTransport error:', expect.any(Error));
+    consoleErrorMock.mockRestore();
+  });
+
+  it('should receive logger output', async () => {
+    const stream = new PassThrough();
+    let output = '';
+    stream.on('data', (chunk) => {
+      output += chunk;
+    });
+    const logger = createLogger({
+      transports: [new StreamTransport({ stream, formatter: record => String(record.messages[0]) })],
+    });
+
+    logger.info('Streamed');
+    await logger.close();
+
+    expect(output).toBe('Streamed\n');
+  });
+});
@@ -0,0 +1,428 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import * as dgram from 'node:dgram';
+import * as net from 'node:net';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import path from 'node:path';
+import { SyslogTransport } from '@transports/syslog-transport';
+import {
+  formatRfc3164,
+  formatRfc5424,
+  formatStructuredData,
+  getPriority,
+  getSyslogSeverity,
+} from '@transports/syslog-format';
+import { createLogger } from '@core/logger';
+import { LogLevel } from '@/types/core.types';
+import type { LogRecord } from '@/types/transport.types';
+
+describe('SyslogTransport', () => {
+  const fields = {
+    level: LogLevel.WARN,
+    timestamp: new Date(2024, 0, 5, 9, 3, 7),
+    facility: 'local0' as const,
+    hostname: 'web-1',
+    appName: 'billing',
+    procId: 1234,
+    message: 'Disk almost full',
+  };
+
+  const record = (message: string, context: Record<string, unknown> = {}): LogRecord => ({
+    level: LogLevel.INFO,
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    messages: [message],
+    context,
+  });
+
+  describe('formatting', () => {
+    it('should map levels to syslog severities', () => {
+      expect(getSyslogSeverity(LogLevel.DEBUG)).toBe(7);
+      expect(getSyslogSeverity(LogLevel.INFO)).toBe(6);
+      expect(getSyslogSeverity(LogLevel.WARN)).toBe(4);
+      expect(getSyslogSeverity(LogLevel.ERROR)).toBe(3);
+      expect(getSyslogSeverity(LogLevel.HIGHLIGHT)).toBe(5);
+      expect(getSyslogSeverity(LogLevel.FATAL)).toBe(2);
+    });
+
+    it('should combine facility and severity into the priority', () => {
+      expect(getPriority('local0', LogLevel.WARN)).toBe(132);
+      expect(getPriority('user', LogLevel.FATAL)).toBe(10);
+      expect(getPriority(3, LogLevel.INFO)).toBe(30);
+    });
+
+    it('should build RFC 5424 messages', () => {
+      expect(formatRfc5424(fields, '[ctx@1 a="1"]')).toBe(
+        `<132>1 ${fields.timestamp.toISOString()} web-1 billing 1234 - [ctx@1 a="1"] Disk almost full`,
+      );
+      expect(formatRfc5424({ ...fields, hostname: '', appName: 'my app' })).toContain(' - myapp 1234 - - ');
+    });
+
+    it('should build RFC 3164 messages', () => {
+      expect(formatRfc3164(fields)).toBe('<132>Jan  5 09:03:07 web-1 billing[1234]: Disk almost full');
+    });
+
+    it('should turn context into escaped structured data', () => {
+      expect(formatStructuredData('context@32473', {
+        'requestId': 'r-1',
+        'quote': 'say "hi" [x]',
+        'count': 3,
+        'bad key=': true,
+      })).toBe('[context@32473 requestId="r-1" quote="say \\"hi\\" [x\\]" count="3" bad_key_="true"]');
+      expect(formatStructuredData('context@32473', {})).toBe('-');
+    });
+  });
+
+  describe('UDP', () => {
+    let server: dgram.Socket;
+    let messages: string[];
+
+    beforeEach(async () => {
+      messages = [];
+      server = dgram.createSocket('udp4');
+      server.on('message', (message) => {
+        messages.push(message.toString());
+      });
+      await new Promise<void>((resolve) => {
+        server.bind(0, '127.0.0.1', resolve);
+      });
+    });
+
+    afterEach(() => {
+      server.close();
+    });
+
+    it('should send one datagram per message', async () => {
+      const transport = new SyslogTransport({
+        host: '127.0.0.1',
+        port: server.address().port,
+        appName: 'api',
+        hostname: 'web-1',
+      });
+
+      await transport.safeWrite('', record('Hello syslog', { requestId: 'r-1' }));
+      await vi.waitFor(() => {
+        expect(messages).toHaveLength(1);
+      });
+      await transport.close();
+
+      expect(messages[0]).toMatch(/^<14>1 2024-01-01T00:00:00\.000Z web-1 api \d+ - \[context@32473 requestId="r-1"\] /);
+      expect(messages[0]).toContain('Hello syslog');
+      expect(messages[0]).not.toContain('\u001B[');
+    });
+
+    it('should send RFC 3164 through a logger', async () => {
+      const transport = new SyslogTransport({
+        host: '127.0.0.1',
+        port: server.address().port,
+        format: 'rfc3164',
+        facility: 'local7',
+        appName: 'worker',
+      });
+      const logger = createLogger({ transports: [transport] });
+
+      logger.highlight('Deploy finished');
+      await vi.waitFor(() => {
+        expect(messages).toHaveLength(1);
+      });
+      await logger.close();
+
+      expect(messages[0]).toMatch(/^<189>\w{3} [ \d]\d \d\d:\d\d:\d\d \S+ worker\[\d+\]: .*Deploy finished/);
+    });
+  });
+
+  describe('TCP', () => {
+    let server: net.Server;
+    let received: string;
+    let connections: net.Socket[];
+
+    const listen = async (port = 0) => {
+      server = net.createServer((socket) => {
+        connections.push(socket);
+        socket.on('data', (chunk) => {
+          received += chunk.toString();
+        });
+      });
+      await new Promise<void>((resolve) => {
+        server.listen(port, '127.0.0.1', resolve);
+      });
+      return (server.address() as net.AddressInfo).port;
+    };
+
+    beforeEach(() => {
+      received = '';
+      connections = [];
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => {
+        server.close(resolve);
+      });
+    });
+
+    it('should frame messages with octet counting', async () => {
+      const port = await listen();
+      const transport = new SyslogTransport({ protocol: 'tcp', host: '127.0.0.1', port });
+
+      await transport.safeWrite('', record('first'));
+      await transport.safeWrite('', record('zweite — ü'));
+      await vi.waitFor(() => {
+        expect(transport.getStatus().sentMessages).toBe(2);
+        expect(received).toContain('zweite');
+      });
+      await transport.close();
+
+      const frames: string[] = [];
+      let rest = Buffer.from(received);
+      while (rest.length > 0) {
+        const space = rest.indexOf(' ');
+        const length = Number(rest.subarray(0, space).toString());
+        frames.push(rest.subarray(space + 1, space + 1 + length).toString());
+        rest = rest.subarray(space + 1 + length);
+      }
+      expect(frames).toHaveLength(2);
+      expect(frames[0]).toMatch(/first$/);
+      expect(frames[1]).toMatch(/zweite — ü$/);
+    });
+
+    it('should buffer while disconnected and reconnect', async () => {
+      const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const port = await listen();
+      const transport = new SyslogTransport({ protocol: 'tcp', host: '127.0.0.1', port, reconnectDelay: 200 });
+      await vi.waitFor(() => {
+        expect(transport.getStatus().state).toBe('connected');
+      });
+
+      for (const socket of connections) {
+        socket.destroy();
+      }
+      await vi.waitFor(() => {
+        expect(transport.getStatus().state).not.toBe('connected');
+      });
+      await transport.safeWrite('', record('while away'));
+      expect(transport.getStatus().bufferSize).toBe(1);
+
+      await vi.waitFor(() => {
+        expect(received).toContain('while away');
+      });
+      expect(transport.getStatus()).toMatchObject({ state: 'connected', reconnectAttempts: 0, bufferSize: 0 });
+
+      await transport.close();
+      consoleErrorMock.mockRestore();
+    });
+
+    it('should give up after maxReconnectAttempts', async () => {
+      const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const port = await listen();
+      await new Promise((resolve) => {
+        server.close(resolve);
+      });
+      const transport = new SyslogTransport({
+        protocol: 'tcp',
+        host: '127.0.0.1',
+        port,
+        reconnectDelay: 1,
+        maxReconnectAttempts: 2,
+      });
+
+      await vi.waitFor(() => {
+        expect(transport.getStatus().state).toBe('error');
+      });
+
+      expect(transport.getStatus().reconnectAttempts).toBe(2);
+      expect(consoleErrorMock).toHaveBeenCalledWith('SyslogTransport: Max reconnection attempts reached');
+      await transport.close();
+      await listen();
+      consoleErrorMock.mockRestore();
+    });
+  });
+
+  describe('Unix socket', () => {
+    let dir: string;
+    let socketPath: string;
+    let received: string;
+    let connections: net.Socket[];
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loggical-syslog-'));
+      socketPath = path.join(dir, 'log.sock');
+      received = '';
+      connections = [];
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const listenStream = async () => {
+      const server = net.createServer((socket) => {
+        connections.push(socket);
+        socket.on('data', (chunk) => {
+          received += chunk.toString();
+        });
+      });
+      await new Promise<void>((resolve) => {
+        server.listen(socketPath, resolve);
+      });
+      return server;
+    };
+
+    const stop = (server: net.Server) => {
+      const closed = new Promise((resolve) => {
+        server.close(resolve);
+      });
+      for (const socket of connections) {
+        socket.destroy();
+      }
+      return closed;
+    };
+
+    describe('datagram', () => {
+      const listenDatagram = async () => {
+        // Hidden from the type checker: unix-dgram ships no types
+        const specifier = 'unix-dgram';
+        const unixDgram = await import(specifier);
+        const datagrams: string[] = [];
+        const server = unixDgram.createSocket('unix_dgram', (buffer: Buffer) => {
+          datagrams.push(buffer.toString());
+        });
+        server.bind(socketPath);
+        return { datagrams, close: () => server.close() };
+      };
+
+      it('should default to /dev/log', async () => {
+        const transport = new SyslogTransport({ protocol: 'unix', silent: true, reconnect: false });
+
+        expect(transport.getStatus()).toMatchObject({ target: '/dev/log', unixSocketType: 'dgram' });
+        await transport.close();
+      });
+
+      it('should send one datagram per message', async () => {
+        const server = await listenDatagram();
+        const transport = new SyslogTransport({ protocol: 'unix', path: socketPath });
+
+        await transport.safeWrite('', record('one'));
+        await transport.safeWrite('', record('two'));
+        await vi.waitFor(() => {
+          expect(server.datagrams).toHaveLength(2);
+        });
+        await transport.close();
+        server.close();
+
+        expect(server.datagrams[0]).toMatch(/^<14>1 .*one$/);
+        expect(server.datagrams[1]).toMatch(/^<14>1 .*two$/);
+        expect(transport.getStatus()).toMatchObject({ sentMessages: 2, state: 'disconnected' });
+      });
+
+      it('should buffer while the socket is missing and reconnect', async () => {
+        const transport = new SyslogTransport({ protocol: 'unix', path: socketPath, reconnectDelay: 10, silent: true });
+
+        await transport.safeWrite('', record('early'));
+        expect(transport.getStatus().bufferSize).toBe(1);
+
+        const server = await listenDatagram();
+        await vi.waitFor(() => {
+          expect(server.datagrams).toHaveLength(1);
+        });
+        await transport.close();
+        server.close();
+
+        expect(server.datagrams[0]).toMatch(/early$/);
+      });
+    });
+
+    describe('stream', () => {
+      it('should send newline-framed messages', async () => {
+        const server = await listenStream();
+
+        const transport = new SyslogTransport({ protocol: 'unix', path: socketPath, unixSocketType: 'stream' });
+        await transport.safeWrite('', record('one'));
+        await transport.safeWrite('', record('two'));
+        await vi.waitFor(() => {
+          expect(received.split('\n')).toHaveLength(3);
+        });
+        await transport.close();
+        await stop(server);
+
+        expect(transport.getStatus()).toMatchObject({ protocol: 'unix', target: socketPath, state: 'disconnected' });
+        expect(received).toMatch(/one\n<14>1 .*two\n$/);
+      });
+
+      it('should reconnect when the socket is recreated', async () => {
+        const first = await listenStream();
+        const transport = new SyslogTransport({
+          protocol: 'unix',
+          path: socketPath,
+          unixSocketType: 'stream',
+          reconnectDelay: 10,
+          silent: true,
+        });
+        await vi.waitFor(() => {
+          expect(transport.getStatus().state).toBe('connected');
+        });
+        await stop(first);
+        await vi.waitFor(() => {
+          expect(transport.getStatus().state).not.toBe('connected');
+        });
+
+        await transport.safeWrite('', record('buffered'));
+        const second = await listenStream();
+        await vi.waitFor(() => {
+          expect(received).toMatch(/buffered\n$/);
+        });
+        await transport.close();
+        await stop(second);
+      });
+    });
+
+    describe('close', () => {
+      it('should deliver messages written before the socket connected', async () => {
+        const server = await listenStream();
+        const transport = new SyslogTransport({ protocol: 'unix', path: socketPath, unixSocketType: 'stream' });
+
+        await transport.safeWrite('', record('last words'));
+        await transport.close();
+        await vi.waitFor(() => {
+          expect(received).toMatch(/last words\n$/);
+        });
+        await stop(server);
+
+        expect(transport.getStatus()).toMatchObject({ sentMessages: 1, droppedMessages: 0 });
+      });
+
+      it('should try to connect once more instead of waiting for the next reconnect', async () => {
+        const transport = new SyslogTransport({
+          protocol: 'unix',
+          path: socketPath,
+          unixSocketType: 'stream',
+          reconnectDelay: 60_000,
+          silent: true,
+        });
+        await vi.waitFor(() => {
+          expect(transport.getStatus().state).toBe('reconnecting');
+        });
+        await transport.safeWrite('', record('queued'));
+
+        const server = await listenStream();
+        await transport.close();
+        await vi.waitFor(() => {
+          expect(received).toMatch(/queued\n$/);
+        });
+        await stop(server);
+      });
+
+      it('should count messages it could not deliver as dropped', async () => {
+        const consoleWarnMock = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const transport = new SyslogTransport({ protocol: 'unix', path: socketPath, unixSocketType: 'stream', reconnectDelay: 60_000 });
+        const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+        await transport.safeWrite('', record('nowhere'));
+
+        await transport.close();
+
+        expect(transport.getStatus()).toMatchObject({ droppedMessages: 1, bufferSize: 0 });
+        expect(consoleWarnMock).toHaveBeenCalledWith('SyslogTransport: Dropping 1 undelivered messages on close');
+        consoleWarnMock.mockRestore();
+        consoleErrorMock.mockRestore();
+      });
+    });
+  });
+});
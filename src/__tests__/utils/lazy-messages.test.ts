@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isLazyMessage, lazy, resolveLazyMessages } from '@utils/lazy-messages';
+
+describe('Lazy Messages', () => {
+  describe('isLazyMessage', () => {
+    it('should accept values wrapped with lazy()', () => {
+      expect(isLazyMessage(lazy(() => 'value'))).toBe(true);
+    });
+
+    it('should reject values and plain functions', () => {
+      expect(isLazyMessage('text')).toBe(false);
+      expect(isLazyMessage(null)).toBe(false);
+      expect(isLazyMessage({ fn: () => 1 })).toBe(false);
+      expect(isLazyMessage(() => 'value')).toBe(false);
+    });
+  });
+
+  describe('resolveLazyMessages', () => {
+    it('should return the same array when there are no lazy messages', () => {
+      const messages = ['plain', { id: 1 }, () => 'callback'];
+      expect(resolveLazyMessages(messages)).toBe(messages);
+    });
+
+    it('should replace lazy messages with their values', () => {
+      expect(resolveLazyMessages(['State', lazy(() => ({ size: 3 })), 42])).toEqual([
+        'State',
+        { size: 3 },
+        42,
+      ]);
+    });
+
+    it('should call bare functions without parameters only when asked', () => {
+      const Worker = class {};
+      const handler = (_event: unknown) => {};
+
+      expect(resolveLazyMessages([() => 'thunk', handler, Worker], true)).toEqual(['thunk', handler, Worker]);
+      expect(resolveLazyMessages([() => 'thunk'])[0]).toBeTypeOf('function');
+    });
+
+    it('should call each lazy message once', () => {
+      const dump = vi.fn(() => 'once');
+      resolveLazyMessages([lazy(dump)]);
+      expect(dump).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace a throwing lazy message with the thrown error', () => {
+      const error = new Error('broken');
+      const [resolved] = resolveLazyMessages([lazy(() => {
+        throw error;
+      })]);
+      expect(resolved).toBe(error);
+    });
+
+    it('should not leave rejections of async lazy messages unhandled', async () => {
+      const unhandled = vi.fn();
+      process.on('unhandledRejection', unhandled);
+
+      const [resolved] = resolveLazyMessages([lazy(async () => {
+        throw new Error('async failure');
+      })]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      process.off('unhandledRejection', unhandled);
+      expect(resolved).toBeInstanceOf(Promise);
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+  });
+});
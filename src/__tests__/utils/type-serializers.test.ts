@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  registerTypeSerializer,
+  serializeType,
+  unregisterTypeSerializer,
+} from '@utils/type-serializers';
+import { stringify } from '@utils/serialization';
+import { formatCompact, processObjectForSerialization } from '@formatters/object-formatting';
+import { formatJsonLog } from '@formatters/json-formatting';
+import { LogLevel } from '@/types/core.types';
+
+describe('Type Serializers', () => {
+  class Money {
+    constructor(public amount: number, public currency: string) {}
+  }
+
+  afterEach(() => {
+    unregisterTypeSerializer('money');
+  });
+
+  describe('built-in serializers', () => {
+    it('should serialize standard types to plain data', () => {
+      expect(serializeType(10n)).toBe('10n');
+      expect(serializeType(new Date('2024-01-01T00:00:00Z'))).toBe('2024-01-01T00:00:00.000Z');
+      expect(serializeType(new Date('nope'))).toBe('Invalid Date');
+      expect(serializeType(new Map<unknown, unknown>([['a', 1], [2, 'b']]))).toEqual({ a: 1, 2: 'b' });
+      expect(serializeType(new Map([[{ id: 1 }, 'x']]))).toEqual([[{ id: 1 }, 'x']]);
+      expect(serializeType(new Set([1, 2]))).toEqual([1, 2]);
+      expect(serializeType(new Uint16Array([1, 2, 3]))).toEqual([1, 2, 3]);
+      expect(serializeType(new ArrayBuffer(8))).toBe('[ArrayBuffer: 8 bytes]');
+      expect(serializeType(/ab+c/gi)).toBe('/ab+c/gi');
+    });
+
+    it('should render Buffers as hex and cut long binary data short', () => {
+      expect(serializeType(Buffer.from('hi'))).toBe('<Buffer 68 69>');
+      expect(serializeType(Buffer.alloc(60))).toMatch(/^<Buffer (00 ){49}00 \.\.\. 10 more bytes>$/);
+      expect(serializeType(new Float64Array(52))).toHaveLength(51);
+    });
+
+    it('should keep class instance fields and honor toJSON', () => {
+      expect(serializeType(new Money(5, 'EUR'))).toEqual({ amount: 5, currency: 'EUR' });
+      expect(serializeType(new URL('https://example.com/a'))).toBe('https://example.com/a');
+    });
+
+    it('should leave plain data alone', () => {
+      const plain = { a: 1 };
+      const list = [1];
+
+      expect(serializeType(plain)).toBe(plain);
+      expect(serializeType(list)).toBe(list);
+      expect(serializeType('text')).toBe('text');
+    });
+  });
+
+  describe('registry', () => {
+    it('should run registered serializers before built-ins', () => {
+      registerTypeSerializer({
+        name: 'money',
+        test: value => value instanceof Money,
+        serialize: (value: Money) => `${value.amount} ${value.currency}`,
+      });
+
+      expect(serializeType(new Money(5, 'EUR'))).toBe('5 EUR');
+      expect(unregisterTypeSerializer('money')).toBe(true);
+      expect(serializeType(new Money(5, 'EUR'))).toEqual({ amount: 5, currency: 'EUR' });
+      expect(unregisterTypeSerializer('money')).toBe(false);
+    });
+
+    it('should report failing serializers in place of the value', () => {
+      registerTypeSerializer({
+        name: 'money',
+        test: value => value instanceof Money,
+        serialize: () => {
+          throw new Error('locked');
+        },
+      });
+
+      expect(serializeType(new Money(1, 'USD'))).toBe('[Serializer "money" failed: locked]');
+    });
+  });
+
+  describe('formatting', () => {
+    const data = {
+      id: 12_345_678_901_234_567_890n,
+      tags: new Set(['a', 'b']),
+      roles: new Map([['admin', true]]),
+      avatar: Buffer.from([1, 2]),
+      price: new Money(5, 'EUR'),
+    };
+    const expected = {
+      id: '12345678901234567890n',
+      tags: ['a', 'b'],
+      roles: { admin: true },
+      avatar: '<Buffer 01 02>',
+      price: { amount: 5, currency: 'EUR' },
+    };
+
+    it('should serialize nested values in stringify and processObjectForSerialization', () => {
+      expect(JSON.parse(stringify(data))).toEqual(expected);
+      expect(processObjectForSerialization(data)).toEqual(expected);
+    });
+
+    it('should serialize JSON log arguments and context', () => {
+      const line = JSON.parse(formatJsonLog(LogLevel.INFO, ['Order', data], { context: { ids: new Set([1]) } }));
+
+      expect(line.args).toEqual([expected]);
+      expect(line.context).toEqual({ ids: [1] });
+    });
+
+    it('should serialize values in compact formatting', () => {
+      expect(formatCompact(new Set([1, 2]))).toBe('[1, 2]');
+      expect(formatCompact({ tags: new Set(['a']) })).toBe('{ tags: Array(1) }');
+    });
+
+    it('should still mark circular references', () => {
+      const node: { name: string; children: Set<unknown> } = { name: 'root', children: new Set() };
+      node.children.add(node);
+
+      expect(JSON.parse(stringify(node))).toEqual({ name: 'root', children: ['[Circular Reference]'] });
+      expect(processObjectForSerialization(node)).toEqual({ name: 'root', children: ['[Circular Reference]'] });
+    });
+  });
+});
@@ -87,3 +87,31 @@ export function parseBoolean(value: string): boolean | null {
     }
   }
 }
+
+/**
+ * Parse a non-negative number (e.g. a count, rate or interval)
+ */
+export function parseNonNegativeNumber(value: string): number | null {
+  const trimmed = value.trim();
+  const number = Number(trimmed);
+  return trimmed !== '' && Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+/**
+ * Parse sampling rates per level from `debug=0.1,info=0.5`
+ * Entries with an unknown level or a rate outside 0-1 are skipped.
+ */
+export function parseLevelRates(value: string): Partial<Record<LogLevelType, number>> | null {
+  const rates: Partial<Record<LogLevelType, number>> = {};
+
+  for (const entry of value.split(',')) {
+    const [levelStr = '', rateStr = ''] = entry.split('=');
+    const level = parseLogLevel(levelStr.trim());
+    const rate = parseNonNegativeNumber(rateStr);
+    if (level !== null && rate !== null && rate <= 1) {
+      rates[level] = rate;
+    }
+  }
+
+  return Object.keys(rates).length > 0 ? rates : null;
+}
@@ -9,13 +9,19 @@
  * without handling merging, validation, or presets.
  */
 
-import type { LoggerOptions } from '@/types/logger.types';
+import type { LoggerOptions, SamplingOptions } from '@/types/logger.types';
 import {
   isBrowserEnvironment,
   isNodeEnvironment,
 } from '@environment/detection';
 import { FORMAT_PRESETS, type FormatPreset } from '@presets/format-presets';
-import { parseBoolean, parseColorLevel, parseLogLevel } from './config-parsers';
+import {
+  parseBoolean,
+  parseColorLevel,
+  parseLevelRates,
+  parseLogLevel,
+  parseNonNegativeNumber,
+} from './config-parsers';
 
 /**
  * Configuration field definition for generic parsing
@@ -27,6 +33,24 @@ interface ConfigField {
   isFormatPreset?: boolean;
 }
 
+/**
+ * Field that sets one sampling option; sampling fields are merged together
+ */
+function samplingField<K extends keyof SamplingOptions>(
+  sourceKey: string,
+  option: K,
+  parser: (value: string) => SamplingOptions[K] | null,
+): ConfigField {
+  return {
+    sourceKey,
+    targetProperty: 'sampling',
+    parser: (value) => {
+      const parsed = parser(value);
+      return parsed === null ? null : { [option]: parsed };
+    },
+  };
+}
+
 /**
  * Common configuration fields that can be parsed from environment
  */
@@ -50,6 +74,13 @@ const CONFIG_FIELDS: ConfigField[] = [
   },
   { sourceKey: 'redaction', targetProperty: 'redaction', parser: parseBoolean },
   { sourceKey: 'fatal_exit', targetProperty: 'fatalExitsProcess', parser: parseBoolean },
+  samplingField('sample_rates', 'rates', parseLevelRates),
+  samplingField('sample_first', 'first', parseNonNegativeNumber),
+  samplingField('sample_thereafter', 'thereafter', parseNonNegativeNumber),
+  samplingField('sample_interval', 'interval', parseNonNegativeNumber),
+  samplingField('rate_limit', 'rateLimit', parseNonNegativeNumber),
+  samplingField('rate_limit_burst', 'burst', parseNonNegativeNumber),
+  samplingField('sample_summary_interval', 'summaryInterval', parseNonNegativeNumber),
 ];
 
 /**
@@ -77,7 +108,12 @@ function parseConfigFromSource(
       // Regular field parsing
       const parsedValue = field.parser(rawValue);
       if (parsedValue !== null) {
-        (config as Record<string, unknown>)[field.targetProperty] = parsedValue;
+        // Fields that set parts of the same object option are merged
+        const current = (config as Record<string, unknown>)[field.targetProperty];
+        (config as Record<string, unknown>)[field.targetProperty] =
+          typeof current === 'object' && current !== null && typeof parsedValue === 'object'
+            ? { ...current, ...parsedValue }
+            : parsedValue;
       }
     }
   }
@@ -0,0 +1,89 @@
+/**
+ * Ambient context scopes
+ *
+ * `runWithContext` makes context available to every logger for the duration
+ * of a function call, so request data doesn't have to be threaded through
+ * `withContext` loggers. Node.js tracks the scope across async boundaries
+ * with AsyncLocalStorage; browsers fall back to a synchronous stack.
+ */
+
+import * as asyncHooks from 'node:async_hooks';
+import { isNodeEnvironment } from '@environment/detection';
+
+type ScopedContext = Record<string, unknown>;
+
+let asyncStorage: asyncHooks.AsyncLocalStorage<ScopedContext> | undefined;
+let asyncStorageChecked = false;
+
+/**
+ * Fallback for environments without AsyncLocalStorage
+ * Only code that runs synchronously inside the scope sees its context.
+ */
+const contextStack: ScopedContext[] = [];
+
+/**
+ * Get the AsyncLocalStorage instance, created on first use (Node.js only)
+ * Browser bundles replace node:async_hooks with an empty stub, so the
+ * class is looked up at runtime rather than imported by name.
+ */
+function getAsyncStorage(): asyncHooks.AsyncLocalStorage<ScopedContext> | undefined {
+  if (!asyncStorageChecked) {
+    asyncStorageChecked = true;
+    const { AsyncLocalStorage } = asyncHooks as Partial<typeof asyncHooks>;
+    if (isNodeEnvironment() && typeof AsyncLocalStorage === 'function') {
+      asyncStorage = new AsyncLocalStorage<ScopedContext>();
+    }
+  }
+  return asyncStorage;
+}
+
+/**
+ * Get the context of the innermost active scope
+ * @returns Scoped context, or undefined outside of runWithContext
+ */
+export function getScopedContext(): ScopedContext | undefined {
+  const storage = getAsyncStorage();
+  if (storage) {
+    return storage.getStore();
+  }
+  return contextStack.at(-1);
+}
+
+/**
+ * Run a function with context that every logger adds to its log messages
+ *
+ * Nested scopes inherit the outer scope's context. A logger's own
+ * `withContext` values take precedence over scoped values with the same key.
+ *
+ * In Node.js the scope follows async work started inside `fn` (promises,
+ * timers, callbacks). In browsers only the synchronous part of `fn` sees it.
+ *
+ * @param context Context to add for the duration of the call
+ * @param fn Function to run inside the scope
+ * @returns Whatever `fn` returns
+ *
+ * @example
+ * ```typescript
+ * app.use((req, res, next) => {
+ *   runWithContext({ requestId: req.headers['x-request-id'] }, next);
+ * });
+ *
+ * // Anywhere down the call chain
+ * logger.info('Loading user'); // includes requestId
+ * ```
+ */
+export function runWithContext<T>(context: ScopedContext, fn: () => T): T {
+  const scopedContext = { ...getScopedContext(), ...context };
+
+  const storage = getAsyncStorage();
+  if (storage) {
+    return storage.run(scopedContext, fn);
+  }
+
+  contextStack.push(scopedContext);
+  try {
+    return fn();
+  } finally {
+    contextStack.pop();
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Duplicate message collapsing
+ *
+ * Holds back repeats of the same level, prefix and messages and turns
+ * them into one summary record when the run ends or the window timer
+ * fires. A logger shares its deduplicator with the loggers derived from it.
+ */
+
+import type { DedupeOptions } from '@/types/logger.types';
+import type { LogRecord, Transport } from '@/types/transport.types';
+import { serializeError } from '@formatters/object-formatting';
+import { createReplacer } from '@utils/serialization';
+
+/** Default time repeats are held before their summary is written */
+const DEFAULT_WINDOW = 5000;
+
+/** Distinct messages tracked at once in window mode */
+const MAX_TRACKED_KEYS = 1000;
+
+let unserializableRecords = 0;
+
+/**
+ * A message and the repeats held back since it was written
+ */
+interface RepeatRun {
+  key: string;
+  /** Latest repeat, or the written record while there are none */
+  record: LogRecord;
+  count: number;
+  first?: Date;
+}
+
+/**
+ * Result of offering a record to the deduplicator
+ */
+export interface DedupeResult {
+  /** The record repeats a written one and is held back */
+  repeated: boolean;
+  /** Summaries of runs the record ended, to write before it */
+  summaries: LogRecord[];
+}
+
+/**
+ * Build the key that makes two records repeats of each other
+ * Errors are keyed by their serialized fields (name, message, code, stack,
+ * ...) and records with different context never repeat each other.
+ */
+function repeatKey(record: LogRecord): string {
+  const replace = createReplacer();
+  const replacer = function (this: unknown, key: string, value: unknown): unknown {
+    return value instanceof Error ? serializeError(value) : replace.call(this, key, value);
+  };
+
+  let data: string;
+  try {
+    data = JSON.stringify([record.messages, record.context ?? {}], replacer);
+  } catch {
+    // A record that can't be serialized (a throwing getter, ...) is never a repeat
+    data = `unserializable:${++unserializableRecords}`;
+  }
+  return `${record.level}|${record.prefix?.join(':') ?? ''}|${data}`;
+}
+
+/**
+ * Build the summary record of a run with held repeats
+ */
+function createSummary(run: RepeatRun): LogRecord {
+  const { record, count } = run;
+  const first = run.first ?? record.timestamp;
+  const last = record.timestamp;
+  return {
+    ...record,
+    messages: [
+      `Repeated ${count.toLocaleString('en-US')} times from ${first.toISOString()} to ${last.toISOString()}:`,
+      ...record.messages,
+    ],
+    repeat: { count, first, last },
+  };
+}
+
+/**
+ * Collapses repeated log records into summary records
+ */
+export class Deduplicator {
+  private options: DedupeOptions;
+  private onFlush: (summaries: LogRecord[]) => void;
+  private runs = new Map<string, RepeatRun>();
+  private current?: RepeatRun;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param options Dedupe options
+   * @param onFlush Writes the summaries taken when the window timer fires
+   */
+  constructor(options: DedupeOptions, onFlush: (summaries: LogRecord[]) => void) {
+    this.options = options;
+    this.onFlush = onFlush;
+  }
+
+  /**
+   * Resolve the `dedupe` logger option
+   * @returns The options, or undefined if collapsing is disabled
+   */
+  static resolveOptions(option: boolean | DedupeOptions | undefined): DedupeOptions | undefined {
+    if (!option) {
+      return undefined;
+    }
+    return option === true ? {} : option;
+  }
+
+  /**
+   * Check if a transport gets collapsed output
+   */
+  appliesTo(transport: Transport): boolean {
+    return this.options.transports === undefined || this.options.transports.includes(transport.name);
+  }
+
+  /**
+   * Offer a processed record before it's written
+   * @param record Record of a log call
+   * @returns Whether the record is held back and the summaries to write first
+   */
+  push(record: LogRecord): DedupeResult {
+    return this.options.mode === 'window' ? this.pushWindowed(record) : this.pushConsecutive(record);
+  }
+
+  /**
+   * Take the summaries of all held repeats and stop the timer, e.g. on close
+   */
+  flush(): LogRecord[] {
+    this.stopTimer();
+    const summaries = this.takeSummaries();
+    this.runs.clear();
+    this.current = undefined;
+    return summaries;
+  }
+
+  /**
+   * Consecutive mode: a record repeats the one written or held just before it
+   */
+  private pushConsecutive(record: LogRecord): DedupeResult {
+    const key = repeatKey(record);
+    if (this.current?.key === key) {
+      this.hold(this.current, record);
+      return { repeated: true, summaries: [] };
+    }
+
+    const summaries = this.takeSummaries();
+    this.stopTimer();
+    this.current = { key, record, count: 0 };
+    return { repeated: false, summaries };
+  }
+
+  /**
+   * Window mode: a record repeats any record written since the window started
+   */
+  private pushWindowed(record: LogRecord): DedupeResult {
+    const key = repeatKey(record);
+    const run = this.runs.get(key);
+    if (run) {
+      this.hold(run, record);
+      return { repeated: true, summaries: [] };
+    }
+
+    if (this.runs.size < MAX_TRACKED_KEYS) {
+      this.runs.set(key, { key, record, count: 0 });
+      this.startTimer();
+    }
+    return { repeated: false, summaries: [] };
+  }
+
+  /**
+   * Count a held repeat
+   */
+  private hold(run: RepeatRun, record: LogRecord): void {
+    run.first ??= record.timestamp;
+    run.record = record;
+    run.count++;
+    this.startTimer();
+  }
+
+  /**
+   * Take the summaries of runs with held repeats and start counting again
+   * Consecutive mode keeps the current message, so repeats after the
+   * summary are held again; window mode starts a new window.
+   */
+  private takeSummaries(): LogRecord[] {
+    const runs = this.current ? [this.current] : [...this.runs.values()];
+    const summaries = runs.filter(run => run.count > 0).map(run => createSummary(run));
+
+    if (this.current) {
+      this.current.count = 0;
+      this.current.first = undefined;
+    }
+    this.runs.clear();
+    return summaries;
+  }
+
+  private startTimer(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      const summaries = this.takeSummaries();
+      if (summaries.length > 0) {
+        this.onFlush(summaries);
+      }
+    }, this.options.window ?? DEFAULT_WINDOW);
+    this.timer.unref?.();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
@@ -4,8 +4,9 @@
  */
 
 import { formatCompleteLog } from '@formatters/logger-formatting';
-import type { LogLevelType } from '@/types/core.types';
 import type { LoggerOptions } from '@/types/logger.types';
+import type { LogRecord } from '@/types/transport.types';
+import { isPrimitive } from '@utils/serialization';
 
 /**
  * Handles log message formatting and related concerns
@@ -14,16 +15,32 @@ export class LogFormatter {
   constructor(private options: LoggerOptions) {}
 
   /**
-   * Format a complete log message with all configured options
+   * Format a structured log record
+   * Record messages and context are expected to be redacted already
    */
-  formatLog(
-    level: LogLevelType,
-    messages: unknown[],
-    context: Record<string, unknown>,
-  ): string {
-    return formatCompleteLog(level, messages, {
+  formatRecord(record: LogRecord): string {
+    return formatCompleteLog(record.level, record.messages, {
       ...this.options,
-      context,
+      redaction: false,
+      context: record.context,
+      timestamp: record.timestamp,
+      stackTrace: record.stackTrace,
+    });
+  }
+
+  /**
+   * Format a record's text without its object arguments
+   * With consoleObjects 'args', the console transport passes the objects
+   * to console.* after this text
+   * @returns The text, or undefined when the record has no object arguments
+   */
+  formatRecordText(record: LogRecord): string | undefined {
+    if (record.messages.every(message => isPrimitive(message))) {
+      return undefined;
+    }
+    return this.formatRecord({
+      ...record,
+      messages: record.messages.filter(message => isPrimitive(message)),
     });
   }
 }
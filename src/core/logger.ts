@@ -1,18 +1,25 @@
 import { processLoggerConfiguration } from '@config/config-merger';
-import type { LogMetadata, Transport } from '@/types/transport.types';
+import type { LogRecord, Transport } from '@/types/transport.types';
 import {
   captureFilteredStackTrace,
   type FilteredStackTrace,
 } from '@utils/stack-trace';
 import { LogLevel, type LogLevelType } from '@/types/core.types';
-import type { LoggerOptions, PerCallOptions, CallableLogger } from '@/types/logger.types';
+import type { LoggerOptions, PerCallOptions, CallableLogger, LogProcessor } from '@/types/logger.types';
 import type { Plugin } from '@/types/plugin.types';
 import { LogFormatter } from './log-formatter';
-import { TransportManager } from './transport-manager';
+import { TransportManager, type TransportRecordResolver } from './transport-manager';
 import { ContextManager } from './context-manager';
 import { PluginManager } from './plugin-manager';
 import { logSeparator, logSpace } from '@utils/structured-logs';
 import { normalizeArrayPattern } from '@utils/array';
+import { resolveLazyMessages } from '@utils/lazy-messages';
+import { isNodeEnvironment } from '@environment/detection';
+import { exitAfterFatal } from './shutdown';
+import { getScopedContext } from './context-scope';
+import { createRedactionProcessor, createSerializerProcessor, redactRecord, runProcessors } from './processors';
+import { Sampler } from './sampler';
+import { Deduplicator } from './deduplicator';
 
 /**
  * Internal Logger implementation class
@@ -49,28 +56,92 @@ class LoggerImpl {
    */
   private pluginManager: PluginManager;
 
+  /**
+   * Record processors added with use() on this logger, in order
+   * The parent's processors, including ones added later, run first.
+   */
+  private processors: LogProcessor[];
+
+  /**
+   * Built-in redaction, always the last processor so anything added
+   * by other processors is redacted too
+   */
+  private redactionProcessor?: LogProcessor;
+
+  /**
+   * Key serializers, run just before redaction
+   */
+  private serializerProcessor?: LogProcessor;
+
+  /**
+   * Sampling and rate limiting rules, shared with derived loggers
+   */
+  private sampler?: Sampler;
+
+  /**
+   * Duplicate collapsing, shared with derived loggers
+   */
+  private deduplicator?: Deduplicator;
+
+  /**
+   * Logger this one was derived from, if any
+   */
+  private parent?: LoggerImpl;
+
 
   /**
    * Create a new logger implementation
+   *
+   * A derived logger takes the parent's already processed configuration
+   * with `options` applied on top, and shares its transports and plugin
+   * registry instead of building its own.
+   *
+   * @param options Logger options, or overrides of the parent's options
+   * @param parent Logger to derive from
    * @internal Use createLogger() factory instead
    */
-  constructor(options: LoggerOptions = {}) {
-    // Process complete configuration including preset handling and validation
-    this.config = processLoggerConfiguration(options);
+  constructor(options: LoggerOptions = {}, parent?: LoggerImpl) {
+    this.parent = parent;
 
-    // Handle optional properties
+    // Process complete configuration including preset handling and validation
+    this.config = parent
+      ? { ...parent.config, ...options }
+      : processLoggerConfiguration(options);
 
     // Initialize prefixes
     this.prefixes.push(...normalizeArrayPattern(this.config.prefix));
 
     // Initialize components
     this.formatter = new LogFormatter(this.config);
+    this.contextManager = new ContextManager();
+    this.pluginManager = new PluginManager(this, parent?.pluginManager);
+    this.processors = [...((parent ? options.processors : this.config.processors) ?? [])];
+
+    if (parent) {
+      this.transportManager = parent.transportManager;
+      this.redactionProcessor = parent.redactionProcessor;
+      this.serializerProcessor = parent.serializerProcessor;
+      this.sampler = parent.sampler;
+      this.deduplicator = parent.deduplicator;
+      return;
+    }
+
     // Pass undefined to TransportManager if transports array is empty to get default ConsoleTransport
     const hasTransports = this.config.transports?.length ?? 0 > 0;
     const transports = hasTransports ? this.config.transports : undefined;
     this.transportManager = new TransportManager(transports);
-    this.contextManager = new ContextManager();
-    this.pluginManager = new PluginManager(this);
+    this.redactionProcessor = this.config.redaction
+      ? createRedactionProcessor(this.config.redaction)
+      : undefined;
+    const { serializers } = this.config;
+    this.serializerProcessor = serializers && Object.keys(serializers).length > 0
+      ? createSerializerProcessor(serializers)
+      : undefined;
+    this.sampler = Sampler.isEnabled(this.config.sampling) ? new Sampler(this.config.sampling) : undefined;
+    const dedupe = Deduplicator.resolveOptions(this.config.dedupe);
+    this.deduplicator = dedupe
+      ? new Deduplicator(dedupe, summaries => this.writeRepeatSummaries(summaries))
+      : undefined;
 
     // Install plugins if provided (async, but don't wait)
     if (options.plugins) {
@@ -81,49 +152,215 @@ class LoggerImpl {
   }
 
   /**
-   * Log a message at the specified level
+   * Decide if a log call is written, before any per-call work
+   * Runs ahead of stack capture and lazy message evaluation, so calls below
+   * the level or suppressed by sampling cost next to nothing.
    * @param level The log level
-   * @param stackTrace Captured stack trace (should be captured early from public methods)
-   * @param messages The messages to log
+   * @param messages The messages of the call
+   * @returns False if the call is dropped
+   */
+  private shouldWrite(level: LogLevelType, messages: unknown[]): boolean {
+    if (!this.isLevelEnabled(level)) {
+      return false;
+    }
+
+    if (this.sampler) {
+      const template = typeof messages[0] === 'string' ? messages[0] : undefined;
+      if (!this.sampler.shouldLog(level, template, this.prefixes)) {
+        return false;
+      }
+      this.getRoot().logSamplingSummary();
+    }
+    return true;
+  }
+
+  /**
+   * Build, process, format and write a record for a log call
    */
-  private log(
+  private write(
     level: LogLevelType,
     stackTrace: FilteredStackTrace | undefined,
-    ...messages: unknown[]
+    messages: unknown[],
   ): void {
-    // Check effective minLevel
-    const effectiveMinLevel = this.config.minLevel;
-    if (effectiveMinLevel !== undefined && level < effectiveMinLevel) {
+    const processed = this.processRecord(
+      this.createRecord(level, stackTrace, resolveLazyMessages(messages, this.config.lazyMessages)),
+    );
+    if (!processed) {
       return;
     }
 
-    const formattedMessage = this.formatter.formatLog(
-      level,
-      messages,
-      this.contextManager.getContext(),
-    );
+    if (!this.deduplicator) {
+      this.deliver(processed);
+      return;
+    }
+
+    // Repeats are held back from the transports that collapse them
+    const { repeated, summaries } = this.deduplicator.push(processed);
+    this.writeRepeatSummaries(summaries);
+    const deduplicator = this.deduplicator;
+    const transports = this.transportManager.getTransports();
+    if (!repeated) {
+      this.deliver(processed);
+    } else if (!transports.every(transport => deduplicator.appliesTo(transport))) {
+      this.deliver(processed, transport => !deduplicator.appliesTo(transport));
+    }
+  }
+
+  /**
+   * Redact, format and write a processed record
+   * @param processed Record returned by processRecord()
+   * @param include Transports to write to (default all)
+   */
+  private deliver(processed: LogRecord, include?: (transport: Transport) => boolean): void {
+    // A redacting plugin redacts the shared record and may give transports their own copies
+    let record = processed;
+    let resolveForTransport: TransportRecordResolver | undefined;
+    if (this.pluginManager.hasRedaction()) {
+      const fallback = (unredacted: LogRecord) => redactRecord(unredacted, this.config.redaction || true);
+      record = this.pluginManager.runRedact(processed, fallback) ?? processed;
+      resolveForTransport = (transport) => {
+        const own = this.pluginManager.runRedact(processed, fallback, transport);
+        return own ? { formattedMessage: this.formatForTransports(own), record: own } : undefined;
+      };
+    }
+    if (include) {
+      const resolveOwn = resolveForTransport;
+      resolveForTransport = transport => (include(transport) ? resolveOwn?.(transport) : null);
+    }
+
+    const formattedMessage = this.formatForTransports(record);
 
     this.logSeparatorAndSpace();
 
     // Send to all configured transports
-    const metadata: LogMetadata = {
+    const transportPromise = this.transportManager.writeToTransports(
+      formattedMessage,
+      record,
+      (error, transport) => {
+        this.pluginManager.runOnError(error, { source: 'transport', transport: transport.name, record });
+      },
+      resolveForTransport,
+    );
+
+    if (transportPromise && typeof transportPromise.then === 'function') {
+      transportPromise
+        .then(() => this.pluginManager.runAfterWrite(record, formattedMessage))
+        .catch((error) => {
+          console.error('Transport error:', error);
+        });
+    }
+  }
+
+  /**
+   * Write the summary of calls suppressed by sampling, once it is due
+   * @param force Write it even if the summary interval hasn't passed
+   */
+  private logSamplingSummary(force = false): void {
+    const summary = this.sampler?.takeSummary(force);
+    if (summary && this.isLevelEnabled(summary.level)) {
+      this.write(
+        summary.level,
+        undefined,
+        [`Suppressed ${summary.total.toLocaleString('en-US')} similar messages`, { suppressed: summary.suppressed }],
+      );
+    }
+  }
+
+  /**
+   * Write summaries of collapsed repeats to the transports that collapse them
+   */
+  private writeRepeatSummaries(summaries: LogRecord[]): void {
+    const deduplicator = this.deduplicator;
+    if (!deduplicator) {
+      return;
+    }
+    for (const summary of summaries) {
+      this.deliver(summary, transport => deduplicator.appliesTo(transport));
+    }
+  }
+
+  /**
+   * Format a processed record and set its console text
+   * @returns The message handed to the transports
+   */
+  private formatForTransports(record: LogRecord): string {
+    const formattedMessage = this.pluginManager.runFormatRecord(
+      record,
+      this.formatter.formatRecord(record),
+    );
+    if (this.config.consoleObjects === 'args' && record.format !== 'json') {
+      record.consoleText = this.formatter.formatRecordText(record);
+    }
+    return formattedMessage;
+  }
+
+  /**
+   * Check the effective minLevel
+   * Public methods check this before capturing a stack trace, so disabled
+   * levels cost next to nothing.
+   */
+  private isLevelEnabled(level: LogLevelType): boolean {
+    const effectiveMinLevel = this.config.minLevel;
+    return effectiveMinLevel === undefined || level >= effectiveMinLevel;
+  }
+
+  /**
+   * Check if a log call at this level should capture the caller's stack trace
+   */
+  private shouldCaptureCaller(level: LogLevelType): boolean {
+    switch (this.config.captureCaller) {
+      case 'never': {
+        return false;
+      }
+      case 'errors': {
+        return level >= LogLevel.ERROR;
+      }
+      default: {
+        return true;
+      }
+    }
+  }
+
+  /**
+   * Build the structured record for a log call
+   */
+  private createRecord(
+    level: LogLevelType,
+    stackTrace: FilteredStackTrace | undefined,
+    messages: unknown[],
+  ): LogRecord {
+    return {
       level,
       timestamp: new Date(),
-      context: this.contextManager.getContext(),
+      messages,
+      context: this.getContext(),
       prefix: this.prefixes.length > 0 ? this.prefixes : undefined,
-      stackTrace: stackTrace,
+      stackTrace,
+      format: this.config.format,
     };
+  }
 
-    const transportPromise = this.transportManager.writeToTransports(
-      formattedMessage,
-      metadata,
-    );
-
-    if (transportPromise && typeof transportPromise.catch === 'function') {
-      transportPromise.catch((error) => {
-        console.error('Transport error:', error);
-      });
+  /**
+   * Run a record through plugin hooks and processors, then serializers and redaction
+   * Built-in redaction is skipped while a plugin takes over redaction.
+   * @returns The processed record, or null if a plugin or processor dropped it
+   */
+  private processRecord(record: LogRecord): LogRecord | null {
+    if (!this.pluginManager.runBeforeLog(record)) {
+      return null;
+    }
+    const transformed = this.pluginManager.runTransformMessages(record);
+
+    const redactionProcessor = this.pluginManager.hasRedaction() ? undefined : this.redactionProcessor;
+    const builtIns = [this.serializerProcessor, redactionProcessor]
+      .filter((processor): processor is LogProcessor => processor !== undefined);
+    const processors = builtIns.length > 0 ? [...this.getProcessors(), ...builtIns] : this.getProcessors();
+    if (processors.length === 0) {
+      return transformed;
     }
+    return runProcessors(processors, transformed, (error) => {
+      this.pluginManager.runOnError(error, { source: 'processor', record: transformed });
+    });
   }
 
   /**
@@ -135,11 +372,17 @@ class LoggerImpl {
    * ```typescript
    * logger.debug('Processing user data', { userId: '123', step: 'validation' })
    * logger.debug('Cache hit', { key: 'user:123', ttl: 300 })
+   *
+   * // lazy() values are only evaluated when DEBUG is enabled
+   * logger.debug('Cache state', lazy(() => cache.dump()))
    * ```
    */
   debug(...messages: unknown[]): void {
-    const stackTrace = captureFilteredStackTrace();
-    this.log(LogLevel.DEBUG, stackTrace, ...messages);
+    if (!this.shouldWrite(LogLevel.DEBUG, messages)) {
+      return;
+    }
+    const stackTrace = this.shouldCaptureCaller(LogLevel.DEBUG) ? captureFilteredStackTrace() : undefined;
+    this.write(LogLevel.DEBUG, stackTrace, messages);
   }
 
   /**
@@ -154,8 +397,11 @@ class LoggerImpl {
    * ```
    */
   info(...messages: unknown[]): void {
-    const stackTrace = captureFilteredStackTrace();
-    this.log(LogLevel.INFO, stackTrace, ...messages);
+    if (!this.shouldWrite(LogLevel.INFO, messages)) {
+      return;
+    }
+    const stackTrace = this.shouldCaptureCaller(LogLevel.INFO) ? captureFilteredStackTrace() : undefined;
+    this.write(LogLevel.INFO, stackTrace, messages);
   }
 
   /**
@@ -170,8 +416,11 @@ class LoggerImpl {
    * ```
    */
   warn(...messages: unknown[]): void {
-    const stackTrace = captureFilteredStackTrace();
-    this.log(LogLevel.WARN, stackTrace, ...messages);
+    if (!this.shouldWrite(LogLevel.WARN, messages)) {
+      return;
+    }
+    const stackTrace = this.shouldCaptureCaller(LogLevel.WARN) ? captureFilteredStackTrace() : undefined;
+    this.write(LogLevel.WARN, stackTrace, messages);
   }
 
   /**
@@ -186,8 +435,11 @@ class LoggerImpl {
    * ```
    */
   error(...messages: unknown[]): void {
-    const stackTrace = captureFilteredStackTrace();
-    this.log(LogLevel.ERROR, stackTrace, ...messages);
+    if (!this.shouldWrite(LogLevel.ERROR, messages)) {
+      return;
+    }
+    const stackTrace = this.shouldCaptureCaller(LogLevel.ERROR) ? captureFilteredStackTrace() : undefined;
+    this.write(LogLevel.ERROR, stackTrace, messages);
   }
 
   /**
@@ -202,13 +454,20 @@ class LoggerImpl {
    * ```
    */
   highlight(...messages: unknown[]): void {
-    const stackTrace = captureFilteredStackTrace();
-    this.log(LogLevel.HIGHLIGHT, stackTrace, ...messages);
+    if (!this.shouldWrite(LogLevel.HIGHLIGHT, messages)) {
+      return;
+    }
+    const stackTrace = this.shouldCaptureCaller(LogLevel.HIGHLIGHT) ? captureFilteredStackTrace() : undefined;
+    this.write(LogLevel.HIGHLIGHT, stackTrace, messages);
   }
 
   /**
    * Log fatal error messages - unrecoverable errors
    *
+   * With `fatalExitsProcess` enabled, Node.js then closes all transports,
+   * runs shutdown hooks and exits with `fatalExitCode`. Browsers call
+   * `onFatal` instead.
+   *
    * @param messages - The message string and optional data objects to log
    *
    * @example
@@ -217,8 +476,30 @@ class LoggerImpl {
    * ```
    */
   fatal(...messages: unknown[]): void {
-    const stackTrace = captureFilteredStackTrace();
-    this.log(LogLevel.FATAL, stackTrace, ...messages);
+    if (this.shouldWrite(LogLevel.FATAL, messages)) {
+      const stackTrace = this.shouldCaptureCaller(LogLevel.FATAL) ? captureFilteredStackTrace() : undefined;
+      this.write(LogLevel.FATAL, stackTrace, messages);
+    }
+
+    if (this.config.fatalExitsProcess) {
+      this.handleFatalExit();
+    }
+  }
+
+  /**
+   * Start the fatal shutdown sequence, or call onFatal where there is no process to exit
+   */
+  private handleFatalExit(): void {
+    if (!isNodeEnvironment()) {
+      this.config.onFatal?.();
+      return;
+    }
+
+    void exitAfterFatal({
+      exitCode: this.config.fatalExitCode ?? 1,
+      timeout: this.config.fatalExitTimeout ?? 5000,
+      close: () => this.getRoot().close(),
+    });
   }
 
 
@@ -227,6 +508,7 @@ class LoggerImpl {
       ...this.config,
       prefix: this.prefixes,
       transports: this.transportManager.getTransports(),
+      processors: [...this.getProcessors()],
     };
   }
 
@@ -235,10 +517,7 @@ class LoggerImpl {
    * @internal
    */
   withPrefix(prefix: string): LoggerImpl {
-    const newLogger = new LoggerImpl({
-      ...this.getOptions(),
-      prefix: [...this.prefixes, prefix],
-    });
+    const newLogger = new LoggerImpl({ prefix: [...this.prefixes, prefix] }, this);
     // Copy context to new logger
     newLogger.contextManager = this.contextManager.clone();
     return newLogger;
@@ -252,10 +531,7 @@ class LoggerImpl {
     context: string | Record<string, unknown>,
     value?: unknown,
   ): LoggerImpl {
-    const newLogger = new LoggerImpl({
-      ...this.getOptions(),
-      prefix: this.prefixes,
-    });
+    const newLogger = new LoggerImpl({}, this);
 
     // Copy existing context and add new context
     newLogger.contextManager = this.contextManager.clone();
@@ -269,10 +545,7 @@ class LoggerImpl {
    * @internal
    */
   withoutContext(): LoggerImpl {
-    const newLogger = new LoggerImpl({
-      ...this.getOptions(),
-      prefix: this.prefixes,
-    });
+    const newLogger = new LoggerImpl({}, this);
     // New logger starts with empty context (already initialized)
     return newLogger;
   }
@@ -282,10 +555,7 @@ class LoggerImpl {
    * @internal
    */
   withoutContextKey(key: string): LoggerImpl {
-    const newLogger = new LoggerImpl({
-      ...this.getOptions(),
-      prefix: this.prefixes,
-    });
+    const newLogger = new LoggerImpl({}, this);
 
     // Copy existing context except the specified key
     newLogger.contextManager = this.contextManager.clone();
@@ -293,12 +563,26 @@ class LoggerImpl {
     return newLogger;
   }
 
+  /**
+   * Create a logger with per-call option overrides
+   * @internal
+   */
+  withOptions(overrides: PerCallOptions): LoggerImpl {
+    const newLogger = new LoggerImpl(overrides, this);
+    newLogger.contextManager = this.contextManager.clone();
+    return newLogger;
+  }
+
   /**
    * Get current context as a plain object
+   * Includes context from the active runWithContext scope; the logger's own
+   * context wins for keys set in both.
    * @returns Object with current context key-value pairs
    */
   getContext(): Record<string, unknown> {
-    return this.contextManager.getContext();
+    const scopedContext = getScopedContext();
+    const context = this.contextManager.getContext();
+    return scopedContext ? { ...scopedContext, ...context } : context;
   }
 
   // Transport management methods
@@ -351,6 +635,35 @@ class LoggerImpl {
     return this.transportManager.getTransportStatus();
   }
 
+  // Record Pipeline Methods
+
+  /**
+   * Add a processor to the end of the record pipeline
+   * Loggers derived from this one run it too, including existing ones.
+   * @param processor The processor to add
+   */
+  use(processor: LogProcessor): this {
+    this.processors.push(processor);
+    return this;
+  }
+
+  /**
+   * Remove a processor from the record pipeline
+   * Processors inherited from a parent logger are removed on the parent.
+   * @param processor The processor to remove
+   */
+  removeProcessor(processor: LogProcessor): this {
+    this.processors = this.processors.filter(p => p !== processor);
+    return this;
+  }
+
+  /**
+   * Processors inherited from parent loggers, then this logger's own
+   */
+  private getProcessors(): LogProcessor[] {
+    return this.parent ? [...this.parent.getProcessors(), ...this.processors] : this.processors;
+  }
+
   // Plugin Management Methods
 
   /**
@@ -401,14 +714,32 @@ class LoggerImpl {
   }
 
   /**
-   * Close all transports and cleanup
+   * Get the logger at the top of this logger's derivation chain
+   */
+  private getRoot(): LoggerImpl {
+    return this.parent ? this.parent.getRoot() : this;
+  }
+
+  /**
+   * Close plugins and transports
+   * Closing a root logger also closes plugins installed on the loggers
+   * derived from it and writes the pending sampling and repeat summaries.
+   * Derived loggers don't own their transports, so they only flush them.
    */
   async close(): Promise<void> {
-    await this.pluginManager.uninstallAll();
-    await this.transportManager.close();
+    if (!this.parent) {
+      this.logSamplingSummary(true);
+      this.writeRepeatSummaries(this.deduplicator?.flush() ?? []);
+    }
+    await this.pluginManager.close();
+    await (this.parent ? this.transportManager.flush() : this.transportManager.close());
   }
 
   private logSeparatorAndSpace(): void {
+    // Decorations would break one-record-per-line JSON output
+    if (this.config.format === 'json') {
+      return;
+    }
     if (this.config.showSeparators) {
       logSeparator();
     }
@@ -468,7 +799,7 @@ export function createLogger(options?: LoggerOptions): CallableLogger {
 
   // Create the callable function that returns a child logger
   const callable = ((overrides: PerCallOptions): CallableLogger => {
-    return createLogger({ ...impl.getOptions(), ...overrides });
+    return createCallableFromImpl(impl.withOptions(overrides));
   }) as CallableLogger;
 
   // Bind all logging methods
@@ -524,6 +855,16 @@ export function createLogger(options?: LoggerOptions): CallableLogger {
   };
   callable.getTransportStatus = impl.getTransportStatus.bind(impl);
 
+  // Wrap record pipeline methods that return `this` for chaining
+  callable.use = (processor: LogProcessor) => {
+    impl.use(processor);
+    return callable;
+  };
+  callable.removeProcessor = (processor: LogProcessor) => {
+    impl.removeProcessor(processor);
+    return callable;
+  };
+
   // Bind plugin management methods
   callable.installPlugin = impl.installPlugin.bind(impl);
   callable.uninstallPlugin = impl.uninstallPlugin.bind(impl);
@@ -543,7 +884,7 @@ export function createLogger(options?: LoggerOptions): CallableLogger {
  */
 function createCallableFromImpl(impl: LoggerImpl): CallableLogger {
   const callable = ((overrides: PerCallOptions): CallableLogger => {
-    return createLogger({ ...impl.getOptions(), ...overrides });
+    return createCallableFromImpl(impl.withOptions(overrides));
   }) as CallableLogger;
 
   // Bind all logging methods
@@ -599,6 +940,16 @@ function createCallableFromImpl(impl: LoggerImpl): CallableLogger {
   };
   callable.getTransportStatus = impl.getTransportStatus.bind(impl);
 
+  // Wrap record pipeline methods that return `this` for chaining
+  callable.use = (processor: LogProcessor) => {
+    impl.use(processor);
+    return callable;
+  };
+  callable.removeProcessor = (processor: LogProcessor) => {
+    impl.removeProcessor(processor);
+    return callable;
+  };
+
   // Bind plugin management methods
   callable.installPlugin = impl.installPlugin.bind(impl);
   callable.uninstallPlugin = impl.uninstallPlugin.bind(impl);
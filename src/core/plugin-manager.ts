@@ -2,25 +2,50 @@
  * Plugin manager implementation for handling plugin lifecycle
  */
 
-import type { Plugin, PluginManager as IPluginManager } from '@/types/plugin.types';
+import type { Plugin, PluginErrorContext, PluginManager as IPluginManager } from '@/types/plugin.types';
+import type { LogRecord, Transport } from '@/types/transport.types';
 import type { Logger } from './logger';
 
+/**
+ * Forgets derived managers that were garbage collected without being closed
+ */
+const childRegistry = new FinalizationRegistry<() => void>(forget => forget());
+
 /**
  * Manages plugins for a Logger instance
+ *
+ * Hooks run in a fixed order: plugins inherited from the parent logger
+ * first, then this logger's own plugins, each group in install order.
  */
 export class PluginManager implements IPluginManager {
   private plugins: Map<string, Plugin> = new Map();
   private logger: Logger;
+  private parent?: PluginManager;
+  /**
+   * Derived managers with plugins of their own, closed along with this one
+   * Held weakly so a derived logger that is dropped without close() can
+   * still be garbage collected.
+   */
+  private children = new Set<WeakRef<PluginManager>>();
+  /** This manager's entry in the parent's children */
+  private childRef?: WeakRef<PluginManager>;
 
-  constructor(logger: Logger) {
+  /**
+   * @param logger Logger passed to install() and uninstall()
+   * @param parent Plugin manager of the logger this one was derived from.
+   *   Its plugins, including ones installed later, apply here too without
+   *   being installed again.
+   */
+  constructor(logger: Logger, parent?: PluginManager) {
     this.logger = logger;
+    this.parent = parent;
   }
 
   /**
    * Install a plugin
    */
   async install(plugin: Plugin): Promise<void> {
-    if (this.plugins.has(plugin.name)) {
+    if (this.hasPlugin(plugin.name)) {
       console.warn(`Plugin "${plugin.name}" is already installed`);
       return;
     }
@@ -28,6 +53,7 @@ export class PluginManager implements IPluginManager {
     try {
       await plugin.install(this.logger);
       this.plugins.set(plugin.name, plugin);
+      this.attachToParent();
     } catch (error) {
       console.error(`Failed to install plugin "${plugin.name}":`, error);
       throw error;
@@ -40,7 +66,10 @@ export class PluginManager implements IPluginManager {
   async uninstall(name: string): Promise<void> {
     const plugin = this.plugins.get(name);
     if (!plugin) {
-      console.warn(`Plugin "${name}" is not installed`);
+      const message = this.parent?.hasPlugin(name)
+        ? `Plugin "${name}" is inherited from a parent logger`
+        : `Plugin "${name}" is not installed`;
+      console.warn(message);
       return;
     }
 
@@ -59,14 +88,176 @@ export class PluginManager implements IPluginManager {
    * Get all installed plugins
    */
   getPlugins(): Plugin[] {
-    return Array.from(this.plugins.values());
+    const own = [...this.plugins.values()];
+    return this.parent ? [...this.parent.getPlugins(), ...own] : own;
   }
 
   /**
    * Check if a plugin is installed
    */
   hasPlugin(name: string): boolean {
-    return this.plugins.has(name);
+    return this.plugins.has(name) || (this.parent?.hasPlugin(name) ?? false);
+  }
+
+  /**
+   * Run beforeLog hooks
+   * @returns False if a plugin dropped the log call
+   */
+  runBeforeLog(record: LogRecord): boolean {
+    for (const plugin of this.getPlugins()) {
+      if (plugin.beforeLog && this.runHook(plugin, 'beforeLog', () => plugin.beforeLog?.(record)) === false) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Run transformMessages hooks, each one seeing the previous one's output
+   */
+  runTransformMessages(record: LogRecord): LogRecord {
+    for (const plugin of this.getPlugins()) {
+      if (plugin.transformMessages) {
+        const messages = this.runHook(plugin, 'transformMessages', () => plugin.transformMessages?.(record.messages, record));
+        if (messages) {
+          record.messages = messages;
+        }
+      }
+    }
+    return record;
+  }
+
+  /**
+   * Check if an installed plugin takes over redaction
+   */
+  hasRedaction(): boolean {
+    return this.getPlugins().some(plugin => plugin.redact);
+  }
+
+  /**
+   * Run redact hooks, each one seeing the previous one's output
+   * A throwing hook is reported and the record is redacted by `fallback` instead,
+   * so a broken plugin can't leak what it was meant to hide.
+   * @param record Unredacted record
+   * @param fallback Redaction used when a hook throws
+   * @param transport Transport to redact for, if any
+   * @returns The redacted record, or undefined if no hook returned one
+   */
+  runRedact(
+    record: LogRecord,
+    fallback: (record: LogRecord) => LogRecord,
+    transport?: Transport,
+  ): LogRecord | undefined {
+    let current: LogRecord | undefined;
+    for (const plugin of this.getPlugins()) {
+      if (plugin.redact) {
+        try {
+          current = plugin.redact(current ?? record, transport) ?? current;
+        } catch (error) {
+          console.error(`Plugin "${plugin.name}" redact hook failed:`, error);
+          return fallback(record);
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Run formatRecord hooks, each one seeing the previous one's output
+   */
+  runFormatRecord(record: LogRecord, formatted: string): string {
+    let current = formatted;
+    for (const plugin of this.getPlugins()) {
+      if (plugin.formatRecord) {
+        const result = this.runHook(plugin, 'formatRecord', () => plugin.formatRecord?.(record, current));
+        if (typeof result === 'string') {
+          current = result;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Run afterWrite hooks
+   */
+  runAfterWrite(record: LogRecord, formatted: string): void {
+    for (const plugin of this.getPlugins()) {
+      if (plugin.afterWrite) {
+        this.runHook(plugin, 'afterWrite', () => plugin.afterWrite?.(record, formatted));
+      }
+    }
+  }
+
+  /**
+   * Report a pipeline error to onError hooks
+   */
+  runOnError(error: unknown, context: PluginErrorContext): void {
+    for (const plugin of this.getPlugins()) {
+      if (plugin.onError) {
+        this.runHook(plugin, 'onError', () => plugin.onError?.(error, context));
+      }
+    }
+  }
+
+  /**
+   * Run onClose hooks of the plugins installed on this logger, one at a time
+   * Inherited plugins are closed with the logger that installed them.
+   */
+  async runOnClose(): Promise<void> {
+    for (const plugin of this.plugins.values()) {
+      try {
+        await plugin.onClose?.();
+      } catch (error) {
+        console.error(`Plugin "${plugin.name}" onClose hook failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Close derived managers, then run onClose hooks and uninstall this manager's plugins
+   */
+  async close(): Promise<void> {
+    for (const child of this.children) {
+      await child.deref()?.close();
+    }
+    await this.runOnClose();
+    await this.uninstallAll();
+    this.detachFromParent();
+  }
+
+  /**
+   * Let the parent close this manager's plugins when it closes
+   */
+  private attachToParent(): void {
+    const { parent } = this;
+    if (!parent || this.childRef) {
+      return;
+    }
+    const childRef = new WeakRef(this);
+    this.childRef = childRef;
+    parent.children.add(childRef);
+    childRegistry.register(this, () => parent.children.delete(childRef), childRef);
+  }
+
+  private detachFromParent(): void {
+    if (this.childRef) {
+      this.parent?.children.delete(this.childRef);
+      childRegistry.unregister(this.childRef);
+      this.childRef = undefined;
+    }
+  }
+
+  /**
+   * Run a single hook, reporting a throw instead of failing the log call
+   */
+  private runHook<T>(plugin: Plugin, hook: string, run: () => T): T | undefined {
+    try {
+      return run();
+    } catch (error) {
+      console.error(`Plugin "${plugin.name}" ${hook} hook failed:`, error);
+      return undefined;
+    }
   }
 
   /**
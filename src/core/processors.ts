@@ -0,0 +1,131 @@
+/**
+ * Record pipeline for Logger instances
+ * Runs processors in order between level filtering and formatting
+ */
+
+import type { LogProcessor, Serializers } from '@/types/logger.types';
+import type { RedactionOption } from '@/types/redaction.types';
+import type { LogRecord } from '@/types/transport.types';
+import { compileRedaction, redactObjectWithOptions, redactValueWithOptions } from '@utils/redaction';
+
+/**
+ * Run a record through a list of processors
+ * A throwing processor is reported and skipped, so a bug in one processor
+ * doesn't lose the log.
+ * @param processors Processors in the order they should run
+ * @param record Record to process
+ * @param onError Called with a processor's error after it has been reported
+ * @returns The processed record, or null if a processor dropped it
+ */
+export function runProcessors(
+  processors: LogProcessor[],
+  record: LogRecord,
+  onError?: (error: unknown) => void,
+): LogRecord | null {
+  let current = record;
+
+  for (const processor of processors) {
+    try {
+      const result = processor(current);
+      if (result === null) {
+        return null;
+      }
+      if (result) {
+        current = result;
+      }
+    } catch (error) {
+      console.error('Log processor error:', error);
+      onError?.(error);
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Redact the messages and context of a record
+ * @param record Record to redact
+ * @param redaction Redaction option to apply
+ * @returns Redacted copy of the record
+ */
+export function redactRecord(record: LogRecord, redaction: RedactionOption): LogRecord {
+  return {
+    ...record,
+    messages: record.messages.map(message => redactValueWithOptions(message, redaction)),
+    context: record.context
+      ? (redactObjectWithOptions(record.context, redaction) as Record<string, unknown>)
+      : record.context,
+  };
+}
+
+/**
+ * Create the processor that applies the logger's redaction option
+ * Redacts messages and context, so the formatter and every transport
+ * see the same sanitized data.
+ * @param redaction Redaction option of the logger
+ * @returns Processor that returns a redacted copy of the record
+ */
+export function createRedactionProcessor(redaction: RedactionOption): LogProcessor {
+  // Reject invalid configurations when the logger is created, not on the first log
+  compileRedaction(redaction);
+
+  return (record: LogRecord): LogRecord => redactRecord(record, redaction);
+}
+
+/**
+ * Create the processor that applies the logger's key serializers
+ * Runs before redaction, so serialized values are redacted too.
+ * @param serializers Serializers keyed by context or argument key
+ * @returns Processor that returns a copy of the record with serialized values
+ */
+export function createSerializerProcessor(serializers: Serializers): LogProcessor {
+  return (record: LogRecord): LogRecord => ({
+    ...record,
+    messages: record.messages.map((message) => {
+      if (message instanceof Error) {
+        return serializers.err ? applySerializer(serializers, 'err', message) : message;
+      }
+      return isPlainObject(message) ? serializeKeys(message, serializers) : message;
+    }),
+    context: record.context ? serializeKeys(record.context, serializers) : record.context,
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Copy an object with serializers applied to its matching keys
+ */
+function serializeKeys(
+  object: Record<string, unknown>,
+  serializers: Serializers,
+): Record<string, unknown> {
+  const keys = Object.keys(object).filter(key => Object.hasOwn(serializers, key));
+  if (keys.length === 0) {
+    return object;
+  }
+
+  const result = { ...object };
+  for (const key of keys) {
+    result[key] = applySerializer(serializers, key, object[key]);
+  }
+  return result;
+}
+
+/**
+ * Run one serializer; a failing serializer replaces the value with a
+ * marker rather than logging what it was meant to filter
+ */
+function applySerializer(serializers: Serializers, key: string, value: unknown): unknown {
+  try {
+    return serializers[key](value);
+  } catch (error) {
+    return `[Serializer "${key}" failed: ${error instanceof Error ? error.message : String(error)}]`;
+  }
+}
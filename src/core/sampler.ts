@@ -0,0 +1,199 @@
+/**
+ * Log sampling and rate limiting
+ *
+ * Decides whether a log call is written before its record is built, so
+ * calls suppressed in hot loops cost a few map lookups. A logger shares
+ * its sampler with the loggers derived from it.
+ */
+
+import { LogLevel, LogLevelNames, type LogLevelType } from '@/types/core.types';
+import type { SamplingOptions } from '@/types/logger.types';
+
+/** Default window for per-template counts */
+const DEFAULT_INTERVAL = 1000;
+
+/** Default minimum time between suppression summaries */
+const DEFAULT_SUMMARY_INTERVAL = 60_000;
+
+/** Templates, prefixes and suppression keys tracked at once */
+const MAX_TRACKED_KEYS = 1000;
+
+/** Suppression keys listed in a summary, largest counts first */
+const MAX_SUMMARY_ENTRIES = 10;
+
+/**
+ * Calls suppressed since the previous summary
+ */
+export interface SamplingSummary {
+  /** Number of suppressed calls */
+  total: number;
+  /** Highest level among them */
+  level: LogLevelType;
+  /** Counts by rule and key (`level:DEBUG`, `template:Cache miss`, `prefix:worker`) */
+  suppressed: Record<string, number>;
+}
+
+interface TemplateCount {
+  count: number;
+  windowStart: number;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Add an entry to a bounded map, forgetting the oldest entry when full
+ */
+function setBounded<T>(map: Map<string, T>, key: string, value: T): void {
+  if (!map.has(key) && map.size >= MAX_TRACKED_KEYS) {
+    const oldest = map.keys().next().value;
+    if (oldest !== undefined) {
+      map.delete(oldest);
+    }
+  }
+  map.set(key, value);
+}
+
+/**
+ * Applies a logger's sampling rules and counts what they suppress
+ */
+export class Sampler {
+  private options: SamplingOptions;
+  private templates = new Map<string, TemplateCount>();
+  private buckets = new Map<string, TokenBucket>();
+  private suppressed = new Map<string, number>();
+  private suppressedLevel: LogLevelType = LogLevel.DEBUG;
+  private lastSummary = Date.now();
+
+  constructor(options: SamplingOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Check if sampling options enable any rule
+   */
+  static isEnabled(options: SamplingOptions | undefined): options is SamplingOptions {
+    return options !== undefined && (
+      Object.keys(options.rates ?? {}).length > 0 ||
+      options.first !== undefined ||
+      options.thereafter !== undefined ||
+      options.rateLimit !== undefined
+    );
+  }
+
+  /**
+   * Decide whether a log call is written
+   * FATAL calls are always written.
+   * @param level Level of the call
+   * @param template First message argument when it's a string
+   * @param prefix Prefixes of the calling logger
+   * @returns False if the call is suppressed
+   */
+  shouldLog(level: LogLevelType, template: string | undefined, prefix: readonly string[]): boolean {
+    if (level >= LogLevel.FATAL) {
+      return true;
+    }
+
+    const now = Date.now();
+    const reason = this.checkRate(level) ?? this.checkTemplate(template, now) ?? this.checkRateLimit(prefix, now);
+    if (reason === undefined) {
+      return true;
+    }
+
+    if ((this.options.summaryInterval ?? DEFAULT_SUMMARY_INTERVAL) > 0) {
+      const key = this.suppressed.has(reason) || this.suppressed.size < MAX_TRACKED_KEYS ? reason : 'other';
+      this.suppressed.set(key, (this.suppressed.get(key) ?? 0) + 1);
+      this.suppressedLevel = Math.max(this.suppressedLevel, level) as LogLevelType;
+    }
+    return false;
+  }
+
+  /**
+   * Take the summary of suppressed calls and start counting again
+   * @param force Take it even if `summaryInterval` hasn't passed, e.g. on close
+   * @returns The summary, or undefined if nothing was suppressed or it isn't due
+   */
+  takeSummary(force = false): SamplingSummary | undefined {
+    const now = Date.now();
+    const interval = this.options.summaryInterval ?? DEFAULT_SUMMARY_INTERVAL;
+    if (this.suppressed.size === 0 || (!force && now - this.lastSummary < interval)) {
+      return undefined;
+    }
+
+    const entries = [...this.suppressed];
+    entries.sort(([, a], [, b]) => b - a);
+    const summary: SamplingSummary = {
+      total: entries.reduce((sum, [, count]) => sum + count, 0),
+      level: this.suppressedLevel,
+      suppressed: Object.fromEntries(entries.slice(0, MAX_SUMMARY_ENTRIES)),
+    };
+
+    this.suppressed.clear();
+    this.suppressedLevel = LogLevel.DEBUG;
+    this.lastSummary = now;
+    return summary;
+  }
+
+  /**
+   * Fixed sampling rate per level
+   */
+  private checkRate(level: LogLevelType): string | undefined {
+    const rate = this.options.rates?.[level];
+    if (rate === undefined || rate >= 1 || Math.random() < rate) {
+      return undefined;
+    }
+    return `level:${LogLevelNames[level] ?? level}`;
+  }
+
+  /**
+   * First N calls per template and interval, then 1 in M
+   */
+  private checkTemplate(template: string | undefined, now: number): string | undefined {
+    const { first, thereafter, interval = DEFAULT_INTERVAL } = this.options;
+    if (template === undefined || (first === undefined && thereafter === undefined)) {
+      return undefined;
+    }
+
+    let entry = this.templates.get(template);
+    if (!entry || now - entry.windowStart >= interval) {
+      entry = { count: 0, windowStart: now };
+      setBounded(this.templates, template, entry);
+    }
+    entry.count++;
+
+    const kept = first ?? 0;
+    const every = thereafter ?? 0;
+    if (entry.count <= kept || (every > 0 && (entry.count - kept) % every === 0)) {
+      return undefined;
+    }
+    return `template:${template}`;
+  }
+
+  /**
+   * Token bucket per prefix
+   */
+  private checkRateLimit(prefix: readonly string[], now: number): string | undefined {
+    const { rateLimit, burst = rateLimit } = this.options;
+    if (rateLimit === undefined || burst === undefined) {
+      return undefined;
+    }
+
+    const key = prefix.join(':');
+    let bucket = this.buckets.get(key);
+    if (bucket) {
+      bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rateLimit);
+      bucket.updatedAt = now;
+    } else {
+      bucket = { tokens: burst, updatedAt: now };
+      setBounded(this.buckets, key, bucket);
+    }
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens--;
+      return undefined;
+    }
+    return `prefix:${key || '(none)'}`;
+  }
+}
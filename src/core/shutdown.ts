@@ -0,0 +1,86 @@
+/**
+ * Graceful shutdown after fatal logs
+ * Keeps the process-wide shutdown hook registry and runs the exit sequence
+ * used when `fatalExitsProcess` is enabled (Node.js only)
+ */
+
+import type { ShutdownHook } from '@/types/logger.types';
+
+const shutdownHooks = new Set<ShutdownHook>();
+let shuttingDown = false;
+
+/**
+ * Register a hook to run before the process exits after a fatal log
+ * Hooks run in registration order, after all transports were flushed and closed.
+ * @param hook Function to run, may be async
+ * @returns Function that unregisters the hook
+ *
+ * @example
+ * ```typescript
+ * registerShutdownHook(async () => {
+ *   await db.disconnect();
+ * });
+ * ```
+ */
+export function registerShutdownHook(hook: ShutdownHook): () => void {
+  shutdownHooks.add(hook);
+  return () => {
+    shutdownHooks.delete(hook);
+  };
+}
+
+/**
+ * Run all registered shutdown hooks one after another
+ * A failing hook is reported and doesn't stop the remaining ones.
+ */
+export async function runShutdownHooks(): Promise<void> {
+  for (const hook of shutdownHooks) {
+    try {
+      await hook();
+    } catch (error) {
+      console.error('Shutdown hook failed:', error);
+    }
+  }
+}
+
+/**
+ * Options for the fatal exit sequence
+ */
+export interface FatalExitOptions {
+  /** Exit code passed to process.exit */
+  exitCode: number;
+  /** Maximum time in milliseconds to wait before exiting anyway */
+  timeout: number;
+  /** Flush and close the logger's transports */
+  close: () => Promise<void>;
+}
+
+/**
+ * Close transports, run shutdown hooks and exit the process
+ * Only the first fatal log starts the sequence; later ones just get logged.
+ * @param options Exit code, timeout and close callback
+ */
+export async function exitAfterFatal(options: FatalExitOptions): Promise<void> {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+
+  // Hanging transports or hooks must not keep a broken process alive
+  const timer = setTimeout(() => exit(), options.timeout);
+  const exit = (): void => {
+    clearTimeout(timer);
+    // eslint-disable-next-line unicorn/no-process-exit
+    process.exit(options.exitCode);
+    // Only reached when process.exit is stubbed (e.g. in tests)
+    shuttingDown = false;
+  };
+
+  try {
+    await options.close();
+  } catch (error) {
+    console.error('Error closing transports during fatal shutdown:', error);
+  }
+  await runShutdownHooks();
+  exit();
+}
@@ -3,14 +3,26 @@
  * Handles all transport-related operations including lifecycle management
  */
 
-import type { LogMetadata, Transport } from '@/types/transport.types';
+import type { LogMetadata, LogRecord, Transport } from '@/types/transport.types';
 import { ConsoleTransport } from '@transports/console-transport';
 
+/**
+ * Callback for transport write failures
+ */
+export type TransportErrorHandler = (error: unknown, transport: Transport) => void;
+
+/**
+ * Gives a transport its own formatted message and record
+ * Returns undefined to write the shared ones, or null to skip the transport.
+ */
+export type TransportRecordResolver = (transport: Transport) => { formattedMessage: string; record: LogRecord } | undefined | null;
+
 /**
  * Manages transport lifecycle and operations for Logger instances
  */
 export class TransportManager {
   private transports: Transport[] = [];
+  private pendingWrites = new Set<Promise<unknown>>();
 
   constructor(initialTransports: Transport[] = [new ConsoleTransport()]) {
     this.transports = [...initialTransports];
@@ -18,22 +30,42 @@ export class TransportManager {
 
   /**
    * Write message to all configured transports
+   * @param formattedMessage Message formatted with the logger's options
+   * @param record Structured record, passed to transports as their metadata
+   * @param onError Called for each transport that fails, after the error is reported
+   * @param resolveForTransport Per-transport message and record, e.g. for redaction profiles
    */
   async writeToTransports(
     formattedMessage: string,
-    metadata: LogMetadata,
+    record: LogRecord,
+    onError?: TransportErrorHandler,
+    resolveForTransport?: TransportRecordResolver,
   ): Promise<void> {
     const writePromises = this.transports.map(async (transport) => {
+      const handleError = (error: unknown) => onError?.(error, transport);
       try {
-        const extendedTransport = transport as Transport & { safeWrite?: (msg: string, meta: LogMetadata) => Promise<void> };
-        const writeMethod = extendedTransport.safeWrite ?? transport.write;
-        await writeMethod.call(transport, formattedMessage, metadata);
+        const own = resolveForTransport?.(transport);
+        if (own === null) {
+          return;
+        }
+        const message = own?.formattedMessage ?? formattedMessage;
+        const metadata = own?.record ?? record;
+        const extendedTransport = transport as Transport & {
+          safeWrite?: (msg: string, meta: LogMetadata, onError?: (error: unknown) => void) => Promise<void>;
+        };
+        await (extendedTransport.safeWrite
+          ? extendedTransport.safeWrite(message, metadata, handleError)
+          : transport.write(message, metadata));
       } catch (error) {
         console.error(`Transport "${transport.name}" error:`, error);
+        handleError(error);
       }
     });
 
-    await Promise.allSettled(writePromises);
+    const settled = Promise.allSettled(writePromises);
+    this.pendingWrites.add(settled);
+    await settled;
+    this.pendingWrites.delete(settled);
   }
 
   /**
@@ -98,10 +130,30 @@ export class TransportManager {
     });
   }
 
+  /**
+   * Wait for in-flight writes and flush transports that buffer output
+   */
+  async flush(): Promise<void> {
+    await Promise.allSettled(this.pendingWrites);
+
+    const flushPromises = this.transports.map(async (transport) => {
+      try {
+        await transport.flush?.();
+      } catch (error) {
+        console.warn(`Error flushing transport "${transport.name}":`, error);
+      }
+    });
+
+    await Promise.allSettled(flushPromises);
+  }
+
   /**
    * Close all transports and cleanup
+   * In-flight writes finish first, so nothing logged before close() is lost.
    */
   async close(): Promise<void> {
+    await Promise.allSettled(this.pendingWrites);
+
     const closePromises = this.transports.map(async (transport) => {
       try {
         await transport.close?.();
@@ -0,0 +1,138 @@
+/**
+ * Browser console formatting
+ *
+ * DevTools doesn't render ANSI colors, so in browsers log records are
+ * turned into console arguments instead: a format string with `%c` CSS
+ * styles for the level badge, prefix and context, and `%o` placeholders
+ * that keep objects live and inspectable.
+ */
+
+import { LogLevel, type LogLevelType } from '@/types/core.types';
+import type { LogRecord } from '@/types/transport.types';
+import { getLevelLabel } from './color-formatting';
+
+/**
+ * Badge styles for each log level
+ */
+const LEVEL_BADGE_STYLES: Record<LogLevelType, string> = {
+  [LogLevel.DEBUG]: 'background: #eceff1; color: #546e7a',
+  [LogLevel.INFO]: 'background: #2e7d32; color: #fff',
+  [LogLevel.WARN]: 'background: #f9a825; color: #000',
+  [LogLevel.ERROR]: 'background: #c62828; color: #fff',
+  [LogLevel.HIGHLIGHT]: 'background: #8e24aa; color: #fff',
+  [LogLevel.FATAL]: 'background: #7f0000; color: #fff; text-transform: uppercase',
+};
+
+const BADGE_STYLE = 'font-weight: bold; padding: 1px 4px; border-radius: 3px';
+const PREFIX_STYLE = 'color: #1565c0; font-weight: bold';
+const CONTEXT_STYLE = 'color: #00838f';
+const RESET_STYLE = '';
+
+/**
+ * Console arguments for one log record
+ */
+export interface BrowserConsoleCall {
+  /** Format string followed by its `%c` styles and `%o` objects, in order */
+  args: unknown[];
+  /** Argument lists for a collapsed group: the context and each object (only when grouping) */
+  details: unknown[][];
+}
+
+/**
+ * Build console arguments for a log record
+ *
+ * Without grouping, objects are inlined with `%o` so they stay live.
+ * With grouping, the header only carries the badge, prefix and primitive
+ * messages; the context and objects move into `details`.
+ *
+ * @param record Log record to render
+ * @param options `group` moves the context and objects into `details`
+ * @returns Arguments for the console method and group details
+ *
+ * @example
+ * ```typescript
+ * const { args } = formatBrowserConsoleCall(record);
+ * console.info(...args);
+ * // console.info('%c INFO %c %c[api]%c Request failed %o', badgeStyle, '', prefixStyle, '', error)
+ * ```
+ */
+export function formatBrowserConsoleCall(
+  record: LogRecord,
+  options: { group?: boolean } = {},
+): BrowserConsoleCall {
+  const parts: string[] = [];
+  const args: unknown[] = [];
+  const details: unknown[][] = [];
+
+  parts.push(`%c ${getLevelLabel(record.level)} %c`);
+  args.push(`${LEVEL_BADGE_STYLES[record.level] ?? ''}; ${BADGE_STYLE}`, RESET_STYLE);
+
+  if (record.prefix && record.prefix.length > 0) {
+    parts.push(`%c[${escapeFormat(record.prefix.join(':'))}]%c`);
+    args.push(PREFIX_STYLE, RESET_STYLE);
+  }
+
+  const context = record.context ?? {};
+  if (Object.keys(context).length > 0) {
+    if (options.group) {
+      details.push(['context', context]);
+    } else {
+      parts.push(`%c${escapeFormat(formatContextPairs(context))}%c`);
+      args.push(CONTEXT_STYLE, RESET_STYLE);
+    }
+  }
+
+  for (const message of record.messages) {
+    if (isInspectable(message)) {
+      if (options.group) {
+        details.push([message]);
+        parts.push(escapeFormat(summarize(message)));
+      } else {
+        parts.push('%o');
+        args.push(message);
+      }
+    } else {
+      parts.push(escapeFormat(String(message)));
+    }
+  }
+
+  return { args: [parts.join(' '), ...args], details };
+}
+
+function isInspectable(value: unknown): value is object {
+  return (typeof value === 'object' && value !== null) || typeof value === 'function';
+}
+
+/**
+ * Short stand-in for an object in a group header
+ */
+function summarize(value: object): string {
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+  if (Array.isArray(value)) {
+    return `Array(${value.length})`;
+  }
+  return '{…}';
+}
+
+function formatContextPairs(context: Record<string, unknown>): string {
+  return Object.entries(context)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : safeStringify(value)}`)
+    .join(' ');
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Keep text from being read as format specifiers
+ */
+function escapeFormat(text: string): string {
+  return text.replaceAll('%', '%%');
+}
@@ -0,0 +1,55 @@
+/**
+ * util.inspect object formatting (Node.js)
+ *
+ * Loggical's own object formatting works everywhere but only knows plain
+ * objects and arrays. In Node.js, util.inspect renders Maps, Sets, typed
+ * arrays, class instances and error causes the way developers expect.
+ */
+
+// Named imports of Node built-ins break browser bundles, which stub them with an empty module
+// eslint-disable-next-line unicorn/import-style
+import * as util from 'node:util';
+import type { ColorLevelType } from '@/types/core.types';
+import { isNodeEnvironment } from '@environment/detection';
+import { shouldApplyColors } from '@utils/colors';
+
+/**
+ * Check if util.inspect can be used in this environment
+ * Browser bundles replace node:util with a stub, so it's looked up at runtime.
+ */
+export function canInspect(): boolean {
+  return isNodeEnvironment() && typeof (util as Partial<typeof util>).inspect === 'function';
+}
+
+/**
+ * Render a value with util.inspect
+ *
+ * Colors follow the logger's color level and compact objects stay on one
+ * line, unless the inspect options say otherwise.
+ *
+ * @param value The value to render
+ * @param options Logger color and compaction settings plus inspect overrides
+ * @returns Inspected string
+ *
+ * @example
+ * ```typescript
+ * formatInspected(new Map([['id', 42]]), { inspectOptions: { depth: 1 } });
+ * // "Map(1) { 'id' => 42 }"
+ * ```
+ */
+export function formatInspected(
+  value: unknown,
+  options: {
+    colorLevel?: ColorLevelType;
+    compactObjects?: boolean;
+    inspectOptions?: util.InspectOptions;
+  } = {},
+): string {
+  const { colorLevel, compactObjects, inspectOptions } = options;
+
+  return util.inspect(value, {
+    colors: shouldApplyColors(colorLevel),
+    ...(compactObjects ? { breakLength: Infinity } : {}),
+    ...inspectOptions,
+  });
+}
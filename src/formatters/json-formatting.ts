@@ -0,0 +1,141 @@
+import type { LogLevelType } from '@/types/core.types';
+import type { LoggerOptions } from '@/types/logger.types';
+import type { FilteredStackTrace } from '@utils/stack-trace';
+import { createReplacer, isPrimitive } from '@utils/serialization';
+import {
+  redactValueWithOptions,
+  redactObjectWithOptions,
+} from '@utils/redaction';
+import { normalizeArrayPattern } from '@utils/array';
+import { getLevelLabel } from './color-formatting';
+import { processObjectForSerialization, serializeError } from './object-formatting';
+
+/**
+ * Shape of a single JSON log line
+ *
+ * Field names are stable so log shippers can rely on them.
+ */
+export interface JsonLogRecord {
+  time: string;
+  level: LogLevelType;
+  levelName: string;
+  prefix?: string[];
+  context?: Record<string, unknown>;
+  message: string;
+  args?: unknown[];
+  error?: Record<string, unknown>;
+  caller?: {
+    file?: string;
+    line?: number;
+    column?: number;
+    function?: string;
+  };
+}
+
+type JsonFormatOptions = Pick<LoggerOptions, 'prefix' | 'redaction'> & {
+  context?: Record<string, unknown>;
+  timestamp?: Date;
+  stackTrace?: FilteredStackTrace;
+};
+
+/**
+ * Build the structured record for a log call
+ * @param level Log level
+ * @param messages Messages passed to the logging method
+ * @param options Record options (prefix, context, timestamp, stack trace)
+ * @returns Record with primitives joined into `message`, the first Error in `error`
+ * and any remaining values in `args`
+ */
+export function buildJsonLogRecord(
+  level: LogLevelType,
+  messages: unknown[],
+  options: JsonFormatOptions,
+): JsonLogRecord {
+  const { prefix, context, redaction, timestamp = new Date(), stackTrace } = options;
+
+  const messageParts: string[] = [];
+  const args: unknown[] = [];
+  let error: Record<string, unknown> | undefined;
+
+  for (const message of messages) {
+    if (isPrimitive(message)) {
+      messageParts.push(String(message));
+    } else if (message instanceof Error && !error) {
+      const serialized = serializeError(message);
+      error = (
+        redaction ? redactValueWithOptions(serialized, redaction) : serialized
+      ) as Record<string, unknown>;
+    } else {
+      const processed = redaction
+        ? redactValueWithOptions(message, redaction)
+        : message;
+      args.push(processObjectForSerialization(processed));
+    }
+  }
+
+  const record: JsonLogRecord = {
+    time: timestamp.toISOString(),
+    level,
+    levelName: getLevelLabel(level),
+    message: messageParts.join(' '),
+  };
+
+  const prefixes = normalizeArrayPattern(prefix);
+  if (prefixes.length > 0) {
+    record.prefix = prefixes;
+  }
+
+  if (context && Object.keys(context).length > 0) {
+    record.context = (
+      redaction ? redactObjectWithOptions(context, redaction) : context
+    ) as Record<string, unknown>;
+  }
+
+  if (args.length > 0) {
+    record.args = args;
+  }
+
+  if (error) {
+    record.error = error;
+  }
+
+  const callerFrame = stackTrace?.frames[0];
+  if (callerFrame) {
+    record.caller = {
+      file: callerFrame.file,
+      line: callerFrame.line,
+      column: callerFrame.column,
+      function: callerFrame.function,
+    };
+  }
+
+  return record;
+}
+
+/**
+ * Format a log call as a single-line JSON string
+ * @param level Log level
+ * @param messages Messages passed to the logging method
+ * @param options Record options (prefix, context, timestamp, stack trace)
+ * @returns JSON string without a trailing newline
+ */
+export function formatJsonLog(
+  level: LogLevelType,
+  messages: unknown[],
+  options: JsonFormatOptions,
+): string {
+  const record = buildJsonLogRecord(level, messages, options);
+
+  try {
+    return JSON.stringify(record, createReplacer(new WeakSet()));
+  } catch (error) {
+    // Fall back to the fields that are always serializable
+    return JSON.stringify({
+      time: record.time,
+      level: record.level,
+      levelName: record.levelName,
+      message: record.message,
+      serializationError: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -4,6 +4,7 @@ import {
   type LogLevelType,
 } from '@/types/core.types';
 import type { LoggerOptions } from '@/types/logger.types';
+import type { FilteredStackTrace } from '@utils/stack-trace';
 import {
   formatLogLevel,
 } from './color-formatting';
@@ -19,11 +20,13 @@ import {
   redactObjectWithOptions,
 } from '@utils/redaction';
 import { joinNonEmpty, truncateValue } from '@utils/string';
-import { processObjectForSerialization, serializeError } from './object-formatting';
+import { processObjectForSerialization } from './object-formatting';
+import { formatJsonLog } from './json-formatting';
+import { canInspect, formatInspected } from './inspect-formatting';
 
 type FormatMessageOptions = Pick<
   LoggerOptions,
-  'maxValueLength' | 'colorLevel' | 'compactObjects' | 'redaction'
+  'maxValueLength' | 'colorLevel' | 'compactObjects' | 'redaction' | 'consoleObjects' | 'inspectOptions'
 > & {
   indent?: number;
 };
@@ -59,6 +62,8 @@ export function formatMessage(
     colorLevel,
     compactObjects,
     redaction,
+    consoleObjects,
+    inspectOptions,
   } = options;
   const indentStr = ' '.repeat(indent);
 
@@ -78,6 +83,8 @@ export function formatMessage(
       compactObjects,
       maxValueLength,
       colorLevel,
+      consoleObjects,
+      inspectOptions,
     })}`;
   }
 
@@ -89,7 +96,7 @@ export function formatMessage(
 
 type FormatObjectOptions = Pick<
   LoggerOptions,
-  'compactObjects' | 'maxValueLength' | 'colorLevel'
+  'compactObjects' | 'maxValueLength' | 'colorLevel' | 'consoleObjects' | 'inspectOptions'
 >;
 
 /**
@@ -104,13 +111,13 @@ export function formatObject(
   obj: object,
   options: FormatObjectOptions,
 ): string {
-  const { compactObjects, maxValueLength, colorLevel } = options;
+  const { compactObjects, maxValueLength, colorLevel, consoleObjects, inspectOptions } = options;
 
-  // Handle Error objects specially to include all properties
-  if (obj instanceof Error) {
-    obj = serializeError(obj);
+  if (consoleObjects === 'inspect' && canInspect()) {
+    return formatInspected(obj, { colorLevel, compactObjects, inspectOptions });
   }
 
+  // Errors go on one line with their cause chain
   if (compactObjects) {
     return formatCompact(
       obj,
@@ -120,11 +127,22 @@ export function formatObject(
     );
   }
 
-  // Pre-process the object to handle Error objects, then use safe stringify
+  // Pre-process the object to serialize Error objects with all their properties, then use safe stringify
   const processedObj = processObjectForSerialization(obj);
   return stringify(processedObj as object, 2);
 }
 
+/**
+ * Format a context value as text
+ * Strings stay as they are; other values use the same serialization as objects
+ */
+function formatContextValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return value === undefined ? 'undefined' : stringify(value as object, 0);
+}
+
 /**
  * Format context data for display
  * @param context The context object to format
@@ -146,7 +164,7 @@ function formatContext(
     // Compact format: key=value key2=value2
     return entries
       .map(([key, value]) => {
-        const valueStr = typeof value === 'string' ? value : JSON.stringify(value);
+        const valueStr = formatContextValue(value);
         const keyDisplay = colors.dim.cyan(key, colorLevel);
         const valueDisplay = colors.dim.white(valueStr, colorLevel);
         return `${keyDisplay}=${valueDisplay}`;
@@ -156,7 +174,7 @@ function formatContext(
     // Expanded format: [key:value key2:value2]
     const contextStr = entries
       .map(([key, value]) => {
-        const valueStr = typeof value === 'string' ? value : JSON.stringify(value);
+        const valueStr = formatContextValue(value);
         const keyDisplay = colors.cyan(key, colorLevel);
         return `${keyDisplay}:${valueStr}`;
       })
@@ -219,19 +237,12 @@ export function formatLogMessages(
     colorLevel?: ColorLevel;
     compactObjects?: boolean;
     redaction?: LoggerOptions['redaction'];
+    consoleObjects?: LoggerOptions['consoleObjects'];
+    inspectOptions?: LoggerOptions['inspectOptions'];
   },
 ): string {
-  const { maxValueLength, colorLevel, compactObjects, redaction } = options;
-
   return messages
-    .map(msg =>
-      formatMessage(level, msg, {
-        maxValueLength,
-        colorLevel,
-        compactObjects,
-        redaction,
-      }),
-    )
+    .map(msg => formatMessage(level, msg, options))
     .join(' ');
 }
 
@@ -239,16 +250,22 @@ export function formatLogMessages(
  * Format the complete log message
  * @param level Log level
  * @param messages Messages to format
- * @param options Logger options including optional pre-calculated relative time
- * @returns Formatted log message string
+ * @param options Logger options plus per-call context, timestamp and stack trace
+ * @returns Formatted log message string (a single JSON line when `format` is 'json')
  */
 export function formatCompleteLog(
   level: LogLevelType,
   messages: unknown[],
   options: LoggerOptions & {
     context?: Record<string, unknown>;
+    timestamp?: Date;
+    stackTrace?: FilteredStackTrace;
   },
 ): string {
+  if (options.format === 'json') {
+    return formatJsonLog(level, messages, options);
+  }
+
   const {
     prefix,
     timestamped,
@@ -284,6 +301,8 @@ export function formatCompleteLog(
     colorLevel,
     compactObjects,
     redaction: options.redaction,
+    consoleObjects: options.consoleObjects,
+    inspectOptions: options.inspectOptions,
   });
 
   const contextPart = formatLogContext(context, {
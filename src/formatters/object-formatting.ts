@@ -6,6 +6,8 @@ import {
   stringify,
 } from '@utils/serialization';
 import { truncateValue } from '@utils/string';
+import { serializeType } from '@utils/type-serializers';
+import { filterStackTrace } from '@utils/stack-trace';
 
 
 /**
@@ -31,9 +33,12 @@ export function formatCompact(
   }
 
   if (obj instanceof Error) {
-    const message = obj.message || 'Unknown error';
-    const formatted = `Error: ${message}`;
-    return colors.red(formatted, colorLevel);
+    return colors.red(formatCompactError(obj), colorLevel);
+  }
+
+  const serialized = serializeType(obj);
+  if (serialized !== obj) {
+    return formatCompact(serialized, maxLength, level, colorLevel);
   }
 
   if (Array.isArray(obj)) {
@@ -78,7 +83,7 @@ function formatCompactValue(value: unknown, maxLength: number): string {
     return `"${value}"`;
   }
 
-  if (typeof value === 'number' || typeof value === 'boolean') {
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
     return String(value);
   }
 
@@ -87,7 +92,12 @@ function formatCompactValue(value: unknown, maxLength: number): string {
   }
 
   if (value instanceof Error) {
-    return `Error: ${value.message}`;
+    return `${value.name}: ${value.message}`;
+  }
+
+  const serialized = serializeType(value);
+  if (serialized !== value) {
+    return formatCompactValue(serialized, maxLength);
   }
 
   if (typeof value === 'object' && value !== null) {
@@ -122,15 +132,7 @@ export function prettyFormat(obj: unknown): string {
  */
 function formatObject(obj: object): string {
   if (obj instanceof Error) {
-    // Get all enumerable properties
-    const errorProps: Record<string, unknown> = {};
-    const keys = Object.getOwnPropertyNames(obj);
-
-    for (const key of keys) {
-      errorProps[key] = (obj as unknown as Record<string, unknown>)[key];
-    }
-
-    return stringify(errorProps);
+    return stringify(serializeError(obj));
   }
 
   return stringify(obj);
@@ -150,21 +152,24 @@ export function processObjectForSerialization(
     return serializeError(obj);
   }
 
-  if (Array.isArray(obj)) {
+  if (obj && typeof obj === 'object') {
     if (seen.has(obj)) {
       return '[Circular Reference]';
-    } else {
-      seen.add(obj);
     }
+    seen.add(obj);
+  }
+
+  // Maps, Sets, Buffers, class instances, ... become plain data first
+  const serialized = serializeType(obj);
+  if (serialized !== obj) {
+    return processObjectForSerialization(serialized, seen);
+  }
+
+  if (Array.isArray(obj)) {
     return obj.map(item => processObjectForSerialization(item, seen));
   }
 
   if (obj && typeof obj === 'object') {
-    if (seen.has(obj)) {
-      return '[Circular Reference]';
-    } else {
-      seen.add(obj);
-    }
     const processed: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj)) {
       processed[key] = processObjectForSerialization(value, seen);
@@ -175,34 +180,195 @@ export function processObjectForSerialization(
   return obj;
 }
 
+/** Cause levels followed before a chain is cut short */
+const DEFAULT_MAX_CAUSE_DEPTH = 5;
+
+/** Properties handled separately from an error's custom properties */
+const ERROR_BASE_KEYS = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+/** Node.js system error fields, which may live on the prototype */
+const SYSTEM_ERROR_KEYS = ['code', 'errno', 'syscall', 'path', 'address', 'port'];
+
+/**
+ * Options for serializing errors
+ */
+export interface ErrorSerializationOptions {
+  /** Cause levels to follow before the chain is cut short (default 5) */
+  maxCauseDepth?: number;
+}
+
+/**
+ * Stack with logging library frames filtered out
+ * Falls back to the original stack when every frame would be removed
+ */
+function filterErrorStack(stack: string | undefined): string | undefined {
+  if (!stack) {
+    return stack;
+  }
+  const filtered = filterStackTrace(stack);
+  return filtered.frames.length > 0 ? filtered.filteredStack : stack;
+}
+
+/**
+ * System error fields and custom properties of an error
+ */
+function getErrorProperties(error: Error): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  const source = error as unknown as Record<string, unknown>;
+
+  for (const key of SYSTEM_ERROR_KEYS) {
+    if (key in error && source[key] !== undefined) {
+      properties[key] = source[key];
+    }
+  }
+
+  for (const key of Object.getOwnPropertyNames(error)) {
+    if (!ERROR_BASE_KEYS.has(key)) {
+      try {
+        properties[key] = source[key];
+      } catch {
+        // Ignore properties that can't be accessed
+      }
+    }
+  }
+
+  return properties;
+}
+
+function getAggregatedErrors(error: Error): unknown[] | undefined {
+  const { errors } = error as Error & { errors?: unknown };
+  return Array.isArray(errors) ? errors : undefined;
+}
+
 /**
  * Serialize Error objects to include all relevant properties
+ *
+ * Follows `cause` chains up to `maxCauseDepth` levels, includes the
+ * sub-errors of an AggregateError, Node.js system error fields (`code`,
+ * `errno`, `syscall`, ...) and custom properties. Stacks have logging
+ * library frames filtered out, and errors that reference each other are
+ * marked as circular.
+ *
  * @param error The Error object to serialize
+ * @param options Serialization options
  * @returns Serializable object with error properties
  */
-export function serializeError(error: Error): Record<string, unknown> {
+export function serializeError(
+  error: Error,
+  options: ErrorSerializationOptions = {},
+): Record<string, unknown> {
+  const { maxCauseDepth = DEFAULT_MAX_CAUSE_DEPTH } = options;
+  return serializeErrorAt(error, 0, maxCauseDepth, new WeakSet());
+}
+
+function serializeErrorAt(
+  error: Error,
+  depth: number,
+  maxDepth: number,
+  seen: WeakSet<object>,
+): Record<string, unknown> {
+  seen.add(error);
+
+  // Nested errors (causes, sub-errors, properties) share the depth limit
+  const serializeNested = (value: unknown): unknown => {
+    if (!(value instanceof Error)) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular Reference]';
+    }
+    if (depth >= maxDepth) {
+      return `[${value.name}: ${value.message} (max cause depth reached)]`;
+    }
+    return serializeErrorAt(value, depth + 1, maxDepth, seen);
+  };
+
   const result: Record<string, unknown> = {
     name: error.name,
     message: error.message,
-    stack: error.stack,
+    stack: filterErrorStack(error.stack),
   };
 
+  for (const [key, value] of Object.entries(getErrorProperties(error))) {
+    result[key] = serializeNested(value);
+  }
+
+  const errors = getAggregatedErrors(error);
+  if (errors) {
+    result.errors = errors.map(value => serializeNested(value));
+  }
+
   // Add cause if present, handling both Error and non-Error causes
   if (error.cause !== undefined) {
-    result.cause = error.cause instanceof Error ? serializeError(error.cause) : error.cause;
+    result.cause = serializeNested(error.cause);
   }
 
-  // Include any additional enumerable properties
-  Object.getOwnPropertyNames(error).forEach((key) => {
-    if (!['name', 'message', 'stack', 'cause'].includes(key)) {
-      try {
-        const value = (error as unknown as Record<string, unknown>)[key];
-        result[key] = value;
-      } catch {
-        // Ignore properties that can't be accessed
-      }
+  return result;
+}
+
+/**
+ * Format an error on a single line
+ *
+ * Includes system error fields and primitive custom properties, the first
+ * stack frame outside the logging library, aggregated sub-errors and the
+ * cause chain (up to `maxCauseDepth` levels).
+ *
+ * @param error The error to format
+ * @param options Serialization options
+ * @returns Compact error string, e.g.
+ * `Error: Query failed [code=ECONNREFUSED] at query (db.ts:12:9) ← caused by: Error: connect ECONNREFUSED`
+ */
+export function formatCompactError(
+  error: Error,
+  options: ErrorSerializationOptions = {},
+): string {
+  const { maxCauseDepth = DEFAULT_MAX_CAUSE_DEPTH } = options;
+  return formatCompactErrorAt(error, 0, maxCauseDepth, new WeakSet());
+}
+
+function formatCompactErrorAt(
+  error: Error,
+  depth: number,
+  maxDepth: number,
+  seen: WeakSet<object>,
+): string {
+  seen.add(error);
+
+  const formatNested = (value: unknown): string => {
+    if (!(value instanceof Error)) {
+      return formatCompactValue(value, 40);
+    }
+    if (seen.has(value)) {
+      return '[Circular Reference]';
     }
-  });
+    if (depth >= maxDepth) {
+      return `${value.name}: ${value.message} (max cause depth reached)`;
+    }
+    return formatCompactErrorAt(value, depth + 1, maxDepth, seen);
+  };
 
-  return result;
+  const parts = [`${error.name || 'Error'}: ${error.message || 'Unknown error'}`];
+
+  const fields = Object.entries(getErrorProperties(error))
+    .filter(([, value]) => isPrimitive(value))
+    .map(([key, value]) => `${key}=${String(value)}`);
+  if (fields.length > 0) {
+    parts.push(`[${fields.join(' ')}]`);
+  }
+
+  const [frame] = error.stack ? filterStackTrace(error.stack).frames : [];
+  if (frame) {
+    parts.push(frame.raw);
+  }
+
+  const errors = getAggregatedErrors(error);
+  if (errors && errors.length > 0) {
+    parts.push(`{ ${errors.map(value => formatNested(value)).join('; ')} }`);
+  }
+
+  if (error.cause !== undefined) {
+    parts.push(`← caused by: ${formatNested(error.cause)}`);
+  }
+
+  return parts.join(' ');
 }
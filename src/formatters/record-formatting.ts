@@ -0,0 +1,60 @@
+/**
+ * Record formatters for transports
+ *
+ * Transports can render the structured LogRecord themselves instead of
+ * reusing the logger's formatted message, so one log call can be pretty
+ * on the console and JSON in a file at the same time.
+ */
+
+import type { LoggerOptions } from '@/types/logger.types';
+import type { LogRecord, RecordFormatter } from '@/types/transport.types';
+import { formatCompleteLog } from './logger-formatting';
+import { formatJsonLog } from './json-formatting';
+
+/**
+ * Render a record as a single JSON line
+ *
+ * Record messages are already redacted by the logger, so no redaction is applied here.
+ *
+ * @example
+ * ```typescript
+ * new FileTransport({ filename: 'app.log', formatter: jsonFormatter })
+ * ```
+ */
+export const jsonFormatter: RecordFormatter = (record: LogRecord): string => {
+  return formatJsonLog(record.level, record.messages, {
+    prefix: record.prefix,
+    context: record.context,
+    timestamp: record.timestamp,
+    stackTrace: record.stackTrace,
+  });
+};
+
+/**
+ * Create a formatter that renders records with the human-readable format
+ * @param options Formatting options (colors, timestamps, compact objects, ...)
+ * @returns Record formatter producing the same output as a logger with these options
+ *
+ * @example
+ * ```typescript
+ * new FileTransport({
+ *   filename: 'app.log',
+ *   formatter: createPrettyFormatter({ colorLevel: ColorLevel.NONE }),
+ * })
+ * ```
+ */
+export function createPrettyFormatter(
+  options: Omit<LoggerOptions, 'format' | 'prefix' | 'redaction'> = {},
+): RecordFormatter {
+  return (record: LogRecord): string => {
+    return formatCompleteLog(record.level, record.messages, {
+      ...options,
+      format: 'pretty',
+      redaction: false,
+      prefix: record.prefix,
+      context: record.context,
+      timestamp: record.timestamp,
+      stackTrace: record.stackTrace,
+    });
+  };
+}
@@ -45,20 +45,60 @@
 
 // Core exports
 export { createLogger } from '@core/logger';
+export { registerShutdownHook } from '@core/shutdown';
+export { runWithContext, getScopedContext } from '@core/context-scope';
+export { registerTypeSerializer, unregisterTypeSerializer } from '@utils/type-serializers';
+export { lazy, type LazyMessage } from '@utils/lazy-messages';
 export { LogLevel, LogLevelNames, ColorLevel } from '@/types';
 export type {
   LoggerOptions,
   PerCallOptions,
   CallableLogger,
+  ShutdownHook,
+  LogProcessor,
+  Serializers,
+  SamplingOptions,
+  ObjectInspectOptions,
+  DedupeOptions,
+  TypeSerializer,
   LogLevelType,
   ColorLevelType,
+  LogFormat,
+  ConsoleObjects,
+  CallerCapture,
   Transport,
   LogMetadata,
+  LogRecord,
+  RepeatInfo,
+  RecordFormatter,
   TransportOptions,
   ConsoleTransportOptions,
   FileTransportOptions,
+  RotationInterval,
+  StreamTransportOptions,
+  WritableLogStream,
+  MemoryTransportOptions,
+  MemoryLogEntry,
+  MemoryLogQuery,
+  IndexedDBTransportOptions,
+  IndexedDBTransportState,
+  IndexedDBExportOptions,
+  BeaconTransportOptions,
+  BeaconTransportMode,
+  HttpTransportOptions,
+  HttpBodyFormat,
+  HttpOverflowStrategy,
+  SyslogTransportOptions,
+  SyslogFormat,
+  SyslogProtocol,
+  SyslogUnixSocketType,
+  SyslogFacility,
+  SyslogConnectionState,
+  CensorStrategy,
+  KeyMatchMode,
   RedactionConfig,
   RedactionOption,
+  ValuePatternName,
 } from '@/types';
 
 // Pre-configured instances - the primary API for most users
@@ -73,9 +113,31 @@ export {
 export {
   BaseTransport,
 } from '@transports/transport.interface';
+export {
+  jsonFormatter,
+  createPrettyFormatter,
+} from '@formatters/record-formatting';
 export {
   ConsoleTransport,
 } from '@transports/console-transport';
 export {
   FileTransport,
 } from '@transports/file-transport';
+export {
+  StreamTransport,
+} from '@transports/stream-transport';
+export {
+  MemoryTransport,
+} from '@transports/memory-transport';
+export {
+  IndexedDBTransport,
+} from '@transports/indexeddb-transport';
+export {
+  BeaconTransport,
+} from '@transports/beacon-transport';
+export {
+  HttpTransport,
+} from '@transports/http-transport';
+export {
+  SyslogTransport,
+} from '@transports/syslog-transport';
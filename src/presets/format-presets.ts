@@ -6,6 +6,7 @@
  * - **compact**: Space-efficient formatting with symbols and compact objects
  * - **readable**: Enhanced readability with spacing and full object formatting
  * - **server**: Production server formatting without colors, optimized for parsing
+ * - **json**: One JSON object per line for log shippers and aggregators
  *
  * @example
  * ```typescript
@@ -23,6 +24,7 @@
  *
  * // Environment variable usage:
  * // LOGGER_FORMAT=compact node app.js
+ * // LOGGER_FORMAT=json node app.js
  * ```
  */
 
@@ -54,6 +56,10 @@ export const FORMAT_PRESETS: Record<string, LoggerOptions> = {
     useSymbols: false,
     spaceMessages: false,
   },
+  json: {
+    format: 'json',
+    colorLevel: ColorLevel.NONE,
+  },
 } as const;
 
 export type FormatPreset = keyof typeof FORMAT_PRESETS;
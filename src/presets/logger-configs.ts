@@ -5,8 +5,11 @@ import { LogLevel, ColorLevel } from '@/types/core.types';
  * Default logger configuration options
  */
 export const DEFAULT_LOGGER_OPTIONS: Required<
-  Omit<LoggerOptions, 'prefix' | 'preset' | 'plugins'>
+  Omit<LoggerOptions, 'prefix' | 'preset' | 'plugins' | 'onFatal'>
 > & { plugins?: any[] } = {
+  format: 'pretty',
+  captureCaller: 'always',
+  lazyMessages: false,
   colorLevel: ColorLevel.ENHANCED,
   timestamped: true,
   compactObjects: false,
@@ -15,11 +18,19 @@ export const DEFAULT_LOGGER_OPTIONS: Required<
   useSymbols: true,
   showSeparators: false,
   spaceMessages: false,
+  consoleObjects: 'format',
+  inspectOptions: {},
+  serializers: {},
   minLevel: LogLevel.INFO,
   redaction: true,
+  sampling: {},
+  dedupe: false,
   fatalExitsProcess: false,
+  fatalExitCode: 1,
+  fatalExitTimeout: 5000,
   transports: [],
   plugins: [],
+  processors: [],
 };
 
 export const PRESET_CONFIGS = {
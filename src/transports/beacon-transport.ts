@@ -0,0 +1,370 @@
+/**
+ * Beacon transport for shipping browser logs, including while the page unloads
+ * Batches entries over keepalive fetch and switches to navigator.sendBeacon once the page is hidden
+ */
+
+import { BaseTransport, isLogRecord } from './transport.interface';
+import type {
+  BeaconTransportMode,
+  BeaconTransportOptions,
+  HttpBodyFormat,
+  LogMetadata,
+} from '@/types/transport.types';
+import { jsonFormatter } from '@formatters/record-formatting';
+import { formatJsonLog } from '@formatters/json-formatting';
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Transport that sends browser logs to an endpoint in batches
+ *
+ * While the page is visible, batches are sent with keepalive `fetch` once
+ * `batchSize` entries are queued and at least every `flushInterval` ms.
+ * When the page is hidden (`visibilitychange`) or unloading (`pagehide`),
+ * timers may never fire again, so whatever is queued, and everything
+ * logged afterwards, goes out right away with `navigator.sendBeacon`.
+ * Browsers refuse beacons over 64 KiB, so bodies are split to stay within
+ * `maxPayloadBytes` and larger entries are dropped. Keepalive requests
+ * share a similar in-flight quota, so they are sent one at a time.
+ *
+ * Beacons can't carry custom headers and use the body's content type, so
+ * cross-origin endpoints need CORS for `application/x-ndjson` (or
+ * `application/json`) POSTs.
+ *
+ * @example
+ * ```typescript
+ * const logger = createLogger({
+ *   transports: [
+ *     new ConsoleTransport(),
+ *     new BeaconTransport({ url: '/api/client-logs', minLevel: LogLevel.WARN }),
+ *   ],
+ * });
+ * ```
+ */
+export class BeaconTransport extends BaseTransport {
+  readonly name = 'beacon';
+
+  private url: string;
+  private headers: Record<string, string>;
+  private bodyFormat: HttpBodyFormat;
+  private batchSize: number;
+  private flushInterval: number;
+  private maxPayloadBytes: number;
+  private maxQueueSize: number;
+
+  // Queue and request state
+  private queue: string[] = [];
+  private queuedBytes = 0;
+  private inFlight = new Set<Promise<void>>();
+  private sending = false;
+  private flushTimer?: ReturnType<typeof setInterval>;
+  private mode: BeaconTransportMode = 'fetch';
+  private closed = false;
+
+  // Counters for getStatus()
+  private sentEntries = 0;
+  private sentBatches = 0;
+  private beaconBatches = 0;
+  private failedRequests = 0;
+  private droppedEntries = 0;
+  private oversizedEntries = 0;
+  private lastError?: string;
+
+  constructor(options: BeaconTransportOptions) {
+    super({ ...options, formatter: options.formatter ?? jsonFormatter });
+
+    if (typeof fetch !== 'function') {
+      throw new TypeError('BeaconTransport requires a global fetch implementation');
+    }
+
+    this.url = options.url;
+    this.headers = options.headers ?? {};
+    this.bodyFormat = options.bodyFormat ?? 'ndjson';
+    this.batchSize = options.batchSize ?? 50;
+    this.flushInterval = options.flushInterval ?? 5000;
+    this.maxPayloadBytes = options.maxPayloadBytes ?? 60_000;
+    this.maxQueueSize = options.maxQueueSize ?? 1000;
+
+    this.startFlushTimer();
+    if (typeof document !== 'undefined' && typeof document.addEventListener === 'function') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    if (typeof globalThis.addEventListener === 'function') {
+      globalThis.addEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.enterBeaconMode();
+    } else {
+      this.mode = 'fetch';
+    }
+  };
+
+  private handlePageHide = (): void => {
+    this.enterBeaconMode();
+  };
+
+  private enterBeaconMode(): void {
+    this.mode = 'beacon';
+    this.sendBeacons();
+  }
+
+  private startFlushTimer(): void {
+    this.stopFlushTimer();
+    this.flushTimer = setInterval(() => {
+      this.sendRequests();
+    }, this.flushInterval);
+    this.flushTimer.unref?.();
+  }
+
+  private stopFlushTimer(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  write(formattedMessage: string, metadata: LogMetadata): void {
+    if (this.closed) {
+      return;
+    }
+
+    const entry = isLogRecord(metadata)
+      ? formattedMessage
+      : formatJsonLog(metadata.level, [formattedMessage], {
+          context: metadata.context,
+          timestamp: metadata.timestamp,
+        });
+    const bytes = textEncoder.encode(entry).length;
+
+    if (this.payloadSize(bytes, 1) > this.maxPayloadBytes) {
+      this.oversizedEntries++;
+      this.drop(1, 'BeaconTransport entry exceeds maxPayloadBytes');
+      return;
+    }
+    if (this.queue.length >= this.maxQueueSize) {
+      this.drop(1, 'BeaconTransport buffer full');
+      return;
+    }
+
+    this.queue.push(entry);
+    this.queuedBytes += bytes;
+
+    if (this.mode === 'beacon') {
+      this.sendBeacons();
+    } else if (this.queue.length >= this.batchSize) {
+      this.sendRequests();
+    }
+  }
+
+  /**
+   * Body size of a batch: entries plus separators (and brackets for JSON)
+   */
+  private payloadSize(entryBytes: number, entries: number): number {
+    return entryBytes + entries + (this.bodyFormat === 'json' ? 1 : 0);
+  }
+
+  /**
+   * Remove the next batch from the queue, limited by batchSize and maxPayloadBytes
+   */
+  private takeBatch(): string[] {
+    let count = 0;
+    let bytes = 0;
+    while (count < this.queue.length && count < this.batchSize) {
+      const entryBytes = textEncoder.encode(this.queue[count]).length;
+      if (this.payloadSize(bytes + entryBytes, count + 1) > this.maxPayloadBytes) {
+        break;
+      }
+      bytes += entryBytes;
+      count++;
+    }
+
+    this.queuedBytes -= bytes;
+    return this.queue.splice(0, count);
+  }
+
+  private buildBody(entries: string[]): string {
+    return this.bodyFormat === 'ndjson'
+      ? `${entries.join('\n')}\n`
+      : `[${entries.join(',')}]`;
+  }
+
+  private get contentType(): string {
+    return this.bodyFormat === 'ndjson' ? 'application/x-ndjson' : 'application/json';
+  }
+
+  /**
+   * Put a batch that couldn't be sent back at the front of the queue
+   */
+  private requeue(entries: string[]): void {
+    this.queue.unshift(...entries);
+    this.queuedBytes += entries.reduce((sum, entry) => sum + textEncoder.encode(entry).length, 0);
+  }
+
+  /**
+   * Send every queued entry with keepalive fetch requests, one batch at a time
+   * Browsers reject keepalive requests once ~64 KiB are in flight, so
+   * batches go out one after another. Entries queued meanwhile are picked
+   * up by the running loop.
+   */
+  private sendRequests(): void {
+    if (this.sending || this.queue.length === 0) {
+      return;
+    }
+
+    this.sending = true;
+    const request = (async () => {
+      while (this.queue.length > 0) {
+        await this.post(this.takeBatch());
+      }
+    })().finally(() => {
+      this.sending = false;
+      this.inFlight.delete(request);
+    });
+    this.inFlight.add(request);
+  }
+
+  /**
+   * Send one beacon
+   * @returns False if the browser refused or threw (no support, over its quota)
+   */
+  private trySendBeacon(entries: string[]): boolean {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+    try {
+      return navigator.sendBeacon(this.url, new Blob([this.buildBody(entries)], { type: this.contentType }));
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      return false;
+    }
+  }
+
+  /**
+   * Send every queued entry with sendBeacon, falling back to keepalive fetch
+   * once the browser refuses a beacon; the refused batch stays queued for it
+   */
+  private sendBeacons(): void {
+    while (this.queue.length > 0) {
+      const entries = this.takeBatch();
+      if (!this.trySendBeacon(entries)) {
+        this.requeue(entries);
+        this.sendRequests();
+        return;
+      }
+      this.sentEntries += entries.length;
+      this.sentBatches++;
+      this.beaconBatches++;
+    }
+  }
+
+  /**
+   * Send one batch with a keepalive fetch; never rejects
+   */
+  private async post(entries: string[]): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': this.contentType, ...this.headers },
+        body: this.buildBody(entries),
+        // Lets the request outlive the page
+        keepalive: true,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.sentEntries += entries.length;
+      this.sentBatches++;
+    } catch (error) {
+      this.failedRequests++;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.drop(entries.length, 'BeaconTransport send error', error);
+    }
+  }
+
+  private drop(entries: number, reason: string, error?: unknown): void {
+    const firstDrop = this.droppedEntries === 0;
+    this.droppedEntries += entries;
+    // Dropped entries are reported once; delivery failures every time
+    if (!this.options.silent && (error !== undefined || firstDrop)) {
+      if (error === undefined) {
+        console.error(`${reason}, dropping log entries`);
+      } else {
+        console.error(`${reason}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Send every queued entry and wait for all requests to finish
+   */
+  async flush(): Promise<void> {
+    this.sendRequests();
+    await Promise.allSettled(this.inFlight);
+  }
+
+  async close(): Promise<void> {
+    this.stopFlushTimer();
+    if (typeof document !== 'undefined' && typeof document.removeEventListener === 'function') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    if (typeof globalThis.removeEventListener === 'function') {
+      globalThis.removeEventListener('pagehide', this.handlePageHide);
+    }
+
+    await this.flush();
+    this.closed = true;
+  }
+
+  configure(options: Record<string, unknown>): void {
+    super.configure(options);
+
+    if (typeof options.url === 'string') {
+      this.url = options.url;
+    }
+    if (typeof options.headers === 'object' && options.headers !== null) {
+      this.headers = options.headers as Record<string, string>;
+    }
+    if (options.bodyFormat === 'json' || options.bodyFormat === 'ndjson') {
+      this.bodyFormat = options.bodyFormat;
+    }
+    if (typeof options.batchSize === 'number') {
+      this.batchSize = options.batchSize;
+    }
+    if (typeof options.maxPayloadBytes === 'number') {
+      this.maxPayloadBytes = options.maxPayloadBytes;
+    }
+    if (typeof options.maxQueueSize === 'number') {
+      this.maxQueueSize = options.maxQueueSize;
+    }
+    if (typeof options.flushInterval === 'number') {
+      this.flushInterval = options.flushInterval;
+      if (!this.closed) {
+        this.startFlushTimer();
+      }
+    }
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      ...super.getStatus(),
+      url: this.url,
+      bodyFormat: this.bodyFormat,
+      mode: this.mode,
+      queueDepth: this.queue.length,
+      queuedBytes: this.queuedBytes,
+      maxPayloadBytes: this.maxPayloadBytes,
+      inFlight: this.inFlight.size,
+      sentEntries: this.sentEntries,
+      sentBatches: this.sentBatches,
+      beaconBatches: this.beaconBatches,
+      failedRequests: this.failedRequests,
+      droppedEntries: this.droppedEntries,
+      oversizedEntries: this.oversizedEntries,
+      lastError: this.lastError,
+      closed: this.closed,
+    };
+  }
+}
@@ -3,52 +3,132 @@
  * This refactors the existing console logging behavior into a pluggable transport
  */
 
-import { BaseTransport } from './transport.interface';
-import type { LogMetadata, ConsoleTransportOptions } from '@/types/transport.types';
+import { BaseTransport, isLogRecord } from './transport.interface';
+import type { LogMetadata, LogRecord, ConsoleTransportOptions } from '@/types/transport.types';
 import { getLevelMethod } from '@core/config';
 import { parseConfig, validators } from '@utils/config-parsing';
+import { isBrowserEnvironment } from '@environment/detection';
+import { formatBrowserConsoleCall } from '@formatters/browser-console-formatting';
+import { isPrimitive } from '@utils/serialization';
+
+type ConsoleMethod = (...args: unknown[]) => void;
 
 /**
  * Transport that outputs logs to the console
  * This is the default transport that maintains existing behavior
+ *
+ * In browsers, records are rendered with `%c` styles and objects are passed
+ * as live arguments instead of ANSI-colored text (see `browserStyles`).
+ * With the logger's `consoleObjects: 'args'`, objects are passed after the
+ * formatted text so Node.js renders them with util.inspect.
  */
 export class ConsoleTransport extends BaseTransport {
   readonly name = 'console';
 
   private useGroups: boolean;
   private includeStackTrace: boolean;
+  private useStderr: boolean;
+  private browserStyles: boolean;
 
   constructor(options: ConsoleTransportOptions = {}) {
     super(options);
     this.useGroups = options.useGroups ?? false;
     this.includeStackTrace = options.includeStackTrace ?? true;
+    this.useStderr = options.useStderr ?? false;
+    this.browserStyles = options.browserStyles ?? isBrowserEnvironment();
   }
 
   write(formattedMessage: string, metadata: LogMetadata): void {
-    const method = getLevelMethod(metadata.level);
-
-    // Use the appropriate console method
-    if (typeof console[method] === 'function') {
-      (console[method] as (...args: unknown[]) => void)(formattedMessage);
-    } else {
-      // Fallback to console.log if method doesn't exist
-      console.log(formattedMessage);
+    const method = this.getMethod(metadata);
+    const stackTrace = this.getStackTrace(metadata);
+
+    // Styled output needs the raw messages; JSON and custom-formatted output is written as is
+    if (this.browserStyles && isLogRecord(metadata) && metadata.format !== 'json' && !this.options.formatter) {
+      this.writeStyled(metadata, method, stackTrace);
+      return;
     }
 
-    // Add stack trace for errors if enabled
-    if (this.includeStackTrace && metadata.level >= 3) { // ERROR level and above
-      // Use the filtered stack trace from metadata if available
-      if (metadata.stackTrace?.filteredStack) {
-        console.log(`Stack trace:\n${metadata.stackTrace.filteredStack}`);
-      } else {
-        // Fallback to generating stack trace (though this should rarely happen now)
-        const stack = new Error('Stack trace generation').stack;
-        if (stack) {
-          const cleanStack = stack.split('\n').slice(2).join('\n');
-          console.log(`Stack trace:\n${cleanStack}`);
-        }
+    const args = this.getArgs(formattedMessage, metadata);
+
+    if (this.useGroups && stackTrace && typeof console.groupCollapsed === 'function') {
+      console.groupCollapsed(...args);
+      console.log(stackTrace);
+      console.groupEnd();
+      return;
+    }
+
+    method(...args);
+    if (stackTrace) {
+      (this.useStderr ? console.error : console.log)(stackTrace);
+    }
+  }
+
+  /**
+   * Write a record with %c styles, objects as live arguments
+   */
+  private writeStyled(record: LogRecord, method: ConsoleMethod, stackTrace: string | undefined): void {
+    const grouped = this.useGroups && typeof console.groupCollapsed === 'function';
+    const { args, details } = formatBrowserConsoleCall(record, { group: grouped });
+
+    if (!grouped || (details.length === 0 && !stackTrace)) {
+      method(...args);
+      if (stackTrace) {
+        console.log(stackTrace);
       }
+      return;
+    }
+
+    console.groupCollapsed(...args);
+    for (const detail of details) {
+      console.log(...detail);
+    }
+    if (stackTrace) {
+      console.log(stackTrace);
+    }
+    console.groupEnd();
+  }
+
+  /**
+   * The formatted message, or the record's text followed by its objects
+   * when the logger renders objects as console arguments
+   */
+  private getArgs(formattedMessage: string, metadata: LogMetadata): unknown[] {
+    if (metadata.consoleText === undefined || !isLogRecord(metadata) || this.options.formatter) {
+      return [formattedMessage];
     }
+    // Keep % in the text from being read as a format specifier
+    const text = metadata.consoleText.replaceAll('%', '%%');
+    return [text, ...metadata.messages.filter(message => !isPrimitive(message))];
+  }
+
+  private getMethod(metadata: LogMetadata): ConsoleMethod {
+    const method = this.useStderr ? 'error' : getLevelMethod(metadata.level);
+    // Fallback to console.log if method doesn't exist
+    return typeof console[method] === 'function'
+      ? (console[method] as ConsoleMethod)
+      : console.log;
+  }
+
+  /**
+   * Stack trace text for errors, if enabled (JSON records already carry the caller)
+   */
+  private getStackTrace(metadata: LogMetadata): string | undefined {
+    if (!this.includeStackTrace || metadata.level < 3 || metadata.format === 'json') { // ERROR level and above
+      return undefined;
+    }
+
+    // Use the filtered stack trace from metadata if available
+    if (metadata.stackTrace?.filteredStack) {
+      return `Stack trace:\n${metadata.stackTrace.filteredStack}`;
+    }
+
+    // Fallback to generating stack trace (though this should rarely happen now)
+    const stack = new Error('Stack trace generation').stack;
+    if (stack) {
+      const cleanStack = stack.split('\n').slice(2).join('\n');
+      return `Stack trace:\n${cleanStack}`;
+    }
+    return undefined;
   }
 
   configure(options: Record<string, unknown>): void {
@@ -56,6 +136,8 @@ export class ConsoleTransport extends BaseTransport {
     const consoleOptions = parseConfig(options, {
       useGroups: validators.boolean,
       includeStackTrace: validators.boolean,
+      useStderr: validators.boolean,
+      browserStyles: validators.boolean,
     });
     super.configure(options);
 
@@ -65,6 +147,12 @@ export class ConsoleTransport extends BaseTransport {
     if (consoleOptions.includeStackTrace !== undefined) {
       this.includeStackTrace = consoleOptions.includeStackTrace;
     }
+    if (consoleOptions.useStderr !== undefined) {
+      this.useStderr = consoleOptions.useStderr;
+    }
+    if (consoleOptions.browserStyles !== undefined) {
+      this.browserStyles = consoleOptions.browserStyles;
+    }
   }
 
   getStatus(): Record<string, unknown> {
@@ -72,6 +160,8 @@ export class ConsoleTransport extends BaseTransport {
       ...super.getStatus(),
       useGroups: this.useGroups,
       includeStackTrace: this.includeStackTrace,
+      useStderr: this.useStderr,
+      browserStyles: this.browserStyles,
       available: typeof console !== 'undefined',
     };
   }
@@ -0,0 +1,382 @@
+/**
+ * Log rotation helpers for FileTransport (Node.js only)
+ *
+ * Filenames may contain date tokens that are resolved against the start
+ * of the current rotation period:
+ * - %Y: four digit year
+ * - %m: two digit month
+ * - %d: two digit day of month
+ * - %H: two digit hour
+ *
+ * Tokens may also be used in the directory part (`logs/%Y-%m/app.log`).
+ * Rotated files are named `<active file>.<n>` (optionally `.gz`), where a
+ * higher sequence number means a newer file.
+ *
+ * Every helper that touches the disk has an `...Async` variant using
+ * fs.promises and streaming gzip, for buffered writing that must not
+ * block the event loop.
+ */
+
+import * as fs from 'node:fs';
+import path from 'node:path';
+import * as streamPromises from 'node:stream/promises';
+import * as zlib from 'node:zlib';
+import { padNumber } from '@utils/string';
+import type { RotationInterval } from '@/types/transport.types';
+
+const DATE_TOKEN_PATTERN = /%[YmdH]/g;
+
+/**
+ * Maximum number of rotated files and total bytes to keep
+ */
+export interface RetentionLimits {
+  maxFiles?: number;
+  maxTotalSize?: number;
+}
+
+/**
+ * A rotated log file on disk
+ */
+export interface RotatedFile {
+  path: string;
+  size: number;
+  modifiedAt: number;
+}
+
+/**
+ * Check if a filename pattern contains date tokens
+ */
+export function hasDateTokens(pattern: string): boolean {
+  return /%[YmdH]/.test(pattern);
+}
+
+/**
+ * Get the rotation interval implied by the date tokens of a filename pattern
+ * @returns 'hourly' when the pattern contains %H, 'daily' for other tokens
+ */
+export function getPatternInterval(pattern: string): RotationInterval | undefined {
+  if (pattern.includes('%H')) {
+    return 'hourly';
+  }
+  return hasDateTokens(pattern) ? 'daily' : undefined;
+}
+
+/**
+ * Resolve date tokens in a filename pattern
+ * @param pattern Filename pattern such as `logs/app-%Y-%m-%d.log`
+ * @param date Date to resolve the tokens with (local time)
+ * @returns Concrete filename
+ */
+export function resolveFilenamePattern(pattern: string, date: Date): string {
+  return pattern.replaceAll(DATE_TOKEN_PATTERN, (token) => {
+    switch (token) {
+      case '%Y': {
+        return String(date.getFullYear());
+      }
+      case '%m': {
+        return padNumber(date.getMonth() + 1, 2);
+      }
+      case '%d': {
+        return padNumber(date.getDate(), 2);
+      }
+      default: {
+        return padNumber(date.getHours(), 2);
+      }
+    }
+  });
+}
+
+/**
+ * Get a key identifying the rotation period a date falls into
+ * @param date The date to check
+ * @param interval Rotation interval
+ * @returns Period key (changes exactly when a new period starts)
+ */
+export function getPeriodKey(date: Date, interval: RotationInterval): string {
+  const day = `${date.getFullYear()}-${padNumber(date.getMonth() + 1, 2)}-${padNumber(date.getDate(), 2)}`;
+  return interval === 'hourly' ? `${day}T${padNumber(date.getHours(), 2)}` : day;
+}
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`);
+}
+
+/**
+ * Build a regular expression source matching a path segment with resolved date tokens
+ */
+function createSegmentSource(segment: string): string {
+  return segment
+    .split(DATE_TOKEN_PATTERN)
+    .map(part => escapeRegExp(part))
+    .join(String.raw`\d+`);
+}
+
+/**
+ * Build a matcher for files that belong to a filename pattern
+ * Matches resolved date tokens plus rotation sequence and `.gz` suffixes.
+ */
+function createArchiveMatcher(pattern: string): RegExp {
+  return new RegExp(String.raw`^${createSegmentSource(path.basename(pattern))}(?:\.\d+)?(?:\.gz)?$`);
+}
+
+/**
+ * Find the existing directories a directory pattern resolves to
+ * Segments with date tokens are matched against the directories on disk.
+ */
+function findPatternDirectories(dirPattern: string): string[] {
+  if (!hasDateTokens(dirPattern)) {
+    return fs.existsSync(dirPattern) ? [dirPattern] : [];
+  }
+
+  const matcher = new RegExp(`^${createSegmentSource(path.basename(dirPattern))}$`);
+  return findPatternDirectories(path.dirname(dirPattern)).flatMap((parent) => {
+    try {
+      return fs.readdirSync(parent, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && matcher.test(entry.name))
+        .map(entry => path.join(parent, entry.name));
+    } catch {
+      // Directory removed concurrently - ignore
+      return [];
+    }
+  });
+}
+
+async function findPatternDirectoriesAsync(dirPattern: string): Promise<string[]> {
+  if (!hasDateTokens(dirPattern)) {
+    return await pathExists(dirPattern) ? [dirPattern] : [];
+  }
+
+  const matcher = new RegExp(`^${createSegmentSource(path.basename(dirPattern))}$`);
+  const directories: string[] = [];
+  for (const parent of await findPatternDirectoriesAsync(path.dirname(dirPattern))) {
+    try {
+      for (const entry of await fs.promises.readdir(parent, { withFileTypes: true })) {
+        if (entry.isDirectory() && matcher.test(entry.name)) {
+          directories.push(path.join(parent, entry.name));
+        }
+      }
+    } catch {
+      // Directory removed concurrently - ignore
+    }
+  }
+  return directories;
+}
+
+/**
+ * Check if a path exists without blocking
+ */
+export async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Order rotated files oldest first
+ */
+function sortRotatedFiles(files: RotatedFile[]): RotatedFile[] {
+  files.sort((a, b) =>
+    a.modifiedAt - b.modifiedAt || a.path.localeCompare(b.path, undefined, { numeric: true }));
+  return files;
+}
+
+/**
+ * List rotated files for a filename pattern, oldest first
+ * @param pattern Configured filename (may contain date tokens)
+ * @param activeFile Currently active file, excluded from the result
+ */
+export function listRotatedFiles(pattern: string, activeFile: string): RotatedFile[] {
+  const matcher = createArchiveMatcher(pattern);
+  const activePath = path.resolve(activeFile);
+  const files: RotatedFile[] = [];
+
+  for (const dir of findPatternDirectories(path.dirname(pattern))) {
+    for (const name of fs.readdirSync(dir)) {
+      const filePath = path.join(dir, name);
+      if (!matcher.test(name) || path.resolve(filePath) === activePath) {
+        continue;
+      }
+      try {
+        const stats = fs.statSync(filePath);
+        files.push({ path: filePath, size: stats.size, modifiedAt: stats.mtimeMs });
+      } catch {
+        // File removed concurrently - ignore
+      }
+    }
+  }
+
+  return sortRotatedFiles(files);
+}
+
+/**
+ * List rotated files for a filename pattern without blocking, oldest first
+ * @param pattern Configured filename (may contain date tokens)
+ * @param activeFile Currently active file, excluded from the result
+ */
+export async function listRotatedFilesAsync(pattern: string, activeFile: string): Promise<RotatedFile[]> {
+  const matcher = createArchiveMatcher(pattern);
+  const activePath = path.resolve(activeFile);
+  const files: RotatedFile[] = [];
+
+  for (const dir of await findPatternDirectoriesAsync(path.dirname(pattern))) {
+    for (const name of await fs.promises.readdir(dir)) {
+      const filePath = path.join(dir, name);
+      if (!matcher.test(name) || path.resolve(filePath) === activePath) {
+        continue;
+      }
+      try {
+        const stats = await fs.promises.stat(filePath);
+        files.push({ path: filePath, size: stats.size, modifiedAt: stats.mtimeMs });
+      } catch {
+        // File removed concurrently - ignore
+      }
+    }
+  }
+
+  return sortRotatedFiles(files);
+}
+
+/**
+ * Find the next free rotation sequence number among a directory's file names
+ */
+function getNextSequence(activeFile: string, names: string[]): number {
+  const prefix = `${path.basename(activeFile)}.`;
+  let max = 0;
+
+  for (const name of names) {
+    if (!name.startsWith(prefix)) {
+      continue;
+    }
+    const sequence = Number.parseInt(name.slice(prefix.length), 10);
+    if (!Number.isNaN(sequence) && sequence > max) {
+      max = sequence;
+    }
+  }
+
+  return max + 1;
+}
+
+/**
+ * Replace a file with a gzipped copy
+ * @param filePath File to compress
+ * @returns Path of the compressed file
+ */
+export function compressFile(filePath: string): string {
+  const compressedPath = `${filePath}.gz`;
+  fs.writeFileSync(compressedPath, zlib.gzipSync(fs.readFileSync(filePath)));
+  fs.unlinkSync(filePath);
+  return compressedPath;
+}
+
+/**
+ * Replace a file with a gzipped copy, streaming it without blocking
+ * @param filePath File to compress
+ * @returns Path of the compressed file
+ */
+export async function compressFileAsync(filePath: string): Promise<string> {
+  const compressedPath = `${filePath}.gz`;
+  await streamPromises.pipeline(fs.createReadStream(filePath), zlib.createGzip(), fs.createWriteStream(compressedPath));
+  await fs.promises.unlink(filePath);
+  return compressedPath;
+}
+
+/**
+ * Move the active file out of the way and optionally gzip it
+ * @param activeFile File to rotate
+ * @param compress Whether to gzip the rotated file
+ * @returns Path of the rotated file, or undefined if there was nothing to rotate
+ */
+export function rotateFile(activeFile: string, compress: boolean): string | undefined {
+  if (!fs.existsSync(activeFile)) {
+    return undefined;
+  }
+
+  const rotatedPath = `${activeFile}.${getNextSequence(activeFile, fs.readdirSync(path.dirname(activeFile)))}`;
+  fs.renameSync(activeFile, rotatedPath);
+
+  return compress ? compressFile(rotatedPath) : rotatedPath;
+}
+
+/**
+ * Move the active file out of the way and optionally gzip it, without blocking
+ * @param activeFile File to rotate
+ * @param compress Whether to gzip the rotated file
+ * @returns Path of the rotated file, or undefined if there was nothing to rotate
+ */
+export async function rotateFileAsync(activeFile: string, compress: boolean): Promise<string | undefined> {
+  if (!await pathExists(activeFile)) {
+    return undefined;
+  }
+
+  const names = await fs.promises.readdir(path.dirname(activeFile));
+  const rotatedPath = `${activeFile}.${getNextSequence(activeFile, names)}`;
+  await fs.promises.rename(activeFile, rotatedPath);
+
+  return compress ? compressFileAsync(rotatedPath) : rotatedPath;
+}
+
+/**
+ * Delete the oldest rotated files until the retention limits are met
+ * @param files Rotated files, oldest first
+ * @param limits Maximum number of files and total bytes to keep
+ * @returns Files that were kept
+ */
+export function pruneRotatedFiles(files: RotatedFile[], limits: RetentionLimits): RotatedFile[] {
+  const { kept, removed } = selectExpiredFiles(files, limits);
+  for (const file of removed) {
+    try {
+      fs.unlinkSync(file.path);
+    } catch {
+      // Already gone - nothing to reclaim
+    }
+  }
+  return kept;
+}
+
+/**
+ * Delete the oldest rotated files until the retention limits are met, without blocking
+ * @param files Rotated files, oldest first
+ * @param limits Maximum number of files and total bytes to keep
+ * @returns Files that were kept
+ */
+export async function pruneRotatedFilesAsync(files: RotatedFile[], limits: RetentionLimits): Promise<RotatedFile[]> {
+  const { kept, removed } = selectExpiredFiles(files, limits);
+  for (const file of removed) {
+    try {
+      await fs.promises.unlink(file.path);
+    } catch {
+      // Already gone - nothing to reclaim
+    }
+  }
+  return kept;
+}
+
+/**
+ * Split rotated files into the ones to keep and the oldest ones over the limits
+ */
+function selectExpiredFiles(
+  files: RotatedFile[],
+  limits: RetentionLimits,
+): { kept: RotatedFile[]; removed: RotatedFile[] } {
+  const kept = [...files];
+  const removed: RotatedFile[] = [];
+  let totalSize = kept.reduce((sum, file) => sum + file.size, 0);
+
+  const exceedsLimits = (): boolean =>
+    (limits.maxFiles !== undefined && kept.length > limits.maxFiles) ||
+    (limits.maxTotalSize !== undefined && totalSize > limits.maxTotalSize);
+
+  let oldest: RotatedFile | undefined;
+  while (exceedsLimits() && (oldest = kept.shift())) {
+    totalSize -= oldest.size;
+    removed.push(oldest);
+  }
+
+  return { kept, removed };
+}
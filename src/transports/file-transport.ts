@@ -1,27 +1,88 @@
 /**
- * Simplified file transport for writing logs to files in Node.js environments
- * Basic file writing with append mode and simple error handling
+ * File transport for writing logs to files in Node.js environments
+ * Synchronous or buffered file writing with append mode, optional rotation and simple error handling
  */
 
 import { BaseTransport } from './transport.interface';
-import type { LogMetadata, FileTransportOptions } from '@/types/transport.types';
+import type { LogMetadata, FileTransportOptions, RotationInterval } from '@/types/transport.types';
 import { isNodeEnvironment } from '@environment/detection';
+import {
+  compressFile,
+  compressFileAsync,
+  getPatternInterval,
+  getPeriodKey,
+  listRotatedFiles,
+  listRotatedFilesAsync,
+  pathExists,
+  pruneRotatedFiles,
+  pruneRotatedFilesAsync,
+  resolveFilenamePattern,
+  rotateFile,
+  rotateFileAsync,
+} from './file-rotation';
 import * as fs from 'node:fs';
 import path from 'node:path';
 import * as os from 'node:os';
 
 /**
- * Simple transport that writes logs to files (Node.js only)
- * Simplified version without log rotation or write queues
+ * Transport that writes logs to files (Node.js only)
+ *
+ * Rotation is opt-in: by size (`maxSize`), by time (`interval`, or date
+ * tokens in `filename`), with retention limits (`maxFiles`, `maxTotalSize`)
+ * and optional gzip compression of rotated files.
+ *
+ * By default every line is written with `appendFileSync`. With `buffered`
+ * enabled lines are queued and written asynchronously in batches, once
+ * `bufferSize` bytes are queued or every `flushInterval` ms; rotation then
+ * uses fs.promises and streaming gzip too. Call `close()` (or `flush()`)
+ * before exiting so queued lines reach the disk.
+ *
+ * @example
+ * ```typescript
+ * new FileTransport({
+ *   filename: 'logs/app-%Y-%m-%d.log',
+ *   maxSize: 10 * 1024 * 1024,
+ *   maxFiles: 14,
+ *   compress: true,
+ * })
+ * ```
  */
 export class FileTransport extends BaseTransport {
   readonly name = 'file';
 
   private filename: string;
+  private activeFile: string;
   private append: boolean;
   private eol: string;
   private includeTimestamp: boolean;
 
+  // Rotation settings
+  private maxSize?: number;
+  private interval?: RotationInterval;
+  private maxFiles?: number;
+  private maxTotalSize?: number;
+  private compress: boolean;
+
+  // Rotation state
+  private currentSize = 0;
+  private periodKey?: string;
+  private rotationCount = 0;
+  private lastRotation?: Date;
+
+  // Buffered write settings and state
+  private buffered: boolean;
+  private bufferSize: number;
+  private flushInterval: number;
+  private maxQueueSize: number;
+  private queue: string[] = [];
+  private queuedBytes = 0;
+  private droppedLines = 0;
+  private flushScheduled = false;
+  private flushTimer?: ReturnType<typeof setInterval>;
+  private pendingFlush: Promise<void> = Promise.resolve();
+  /** Truncate the active file with its next write (`append: false` after date tokens switched files) */
+  private truncateOnWrite = false;
+
   constructor(options: FileTransportOptions) {
     super(options);
 
@@ -32,26 +93,56 @@ export class FileTransport extends BaseTransport {
     }
 
     this.filename = options.filename;
+    this.activeFile = options.filename;
     this.append = options.append ?? true;
     this.eol = options.eol ?? os.EOL;
     this.includeTimestamp = options.includeTimestamp ?? true;
+    this.maxSize = options.maxSize;
+    this.interval = options.interval ?? getPatternInterval(options.filename);
+    this.maxFiles = options.maxFiles;
+    this.maxTotalSize = options.maxTotalSize;
+    this.compress = options.compress ?? false;
+    this.buffered = options.buffered ?? false;
+    this.bufferSize = options.bufferSize ?? 64 * 1024;
+    this.flushInterval = options.flushInterval ?? 1000;
+    this.maxQueueSize = options.maxQueueSize ?? 16 * 1024 * 1024;
 
     // Initialize the file
     this.initializeFile();
+
+    if (this.buffered) {
+      this.startFlushTimer();
+    }
+  }
+
+  private startFlushTimer(): void {
+    this.stopFlushTimer();
+    this.flushTimer = setInterval(() => {
+      void this.flush();
+    }, this.flushInterval);
+    // Don't keep the process alive just to flush logs
+    this.flushTimer.unref?.();
+  }
+
+  private stopFlushTimer(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
   }
 
   private initializeFile(): void {
     try {
-      // Ensure directory exists
-      const dir = path.dirname(this.filename);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
+      this.activeFile = resolveFilenamePattern(this.filename, new Date());
+      this.ensureDirectory();
 
-      // Create file if it doesn't exist and we're not appending
-      if (!this.append && fs.existsSync(this.filename)) {
-        fs.writeFileSync(this.filename, ''); // Clear file
+      // Without append the file starts empty, in both modes, then lines are appended
+      this.truncateOnWrite = false;
+      if (!this.append && fs.existsSync(this.activeFile)) {
+        fs.writeFileSync(this.activeFile, ''); // Clear file
       }
+
+      this.resetRotationState();
     } catch (error) {
       if (!this.options.silent) {
         console.error(`FileTransport initialization error:`, error);
@@ -59,19 +150,255 @@ export class FileTransport extends BaseTransport {
     }
   }
 
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.activeFile);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private isRotationEnabled(): boolean {
+    return this.maxSize !== undefined || this.interval !== undefined;
+  }
+
+  /**
+   * Pick up size and period of the active file
+   * An existing file from an earlier period is rotated on the next write.
+   */
+  private resetRotationState(): void {
+    if (!this.isRotationEnabled()) {
+      return;
+    }
+
+    const stats = fs.existsSync(this.activeFile) ? fs.statSync(this.activeFile) : undefined;
+    this.currentSize = stats?.size ?? 0;
+    this.periodKey = this.interval
+      ? getPeriodKey(stats?.mtime ?? new Date(), this.interval)
+      : undefined;
+  }
+
+  private exceedsMaxSize(bytes: number): boolean {
+    return this.maxSize !== undefined &&
+      this.currentSize > 0 &&
+      this.currentSize + bytes > this.maxSize;
+  }
+
+  private shouldRotate(bytes: number, now: Date): boolean {
+    const periodKey = this.interval ? getPeriodKey(now, this.interval) : undefined;
+    return periodKey !== this.periodKey || this.exceedsMaxSize(bytes);
+  }
+
+  /**
+   * Move on to the period a due rotation starts
+   * @returns The previous file when date tokens changed the active file
+   */
+  private startPeriod(now: Date): string | undefined {
+    this.periodKey = this.interval ? getPeriodKey(now, this.interval) : undefined;
+    const nextFile = resolveFilenamePattern(this.filename, now);
+    if (nextFile === this.activeFile) {
+      return undefined;
+    }
+
+    const previousFile = this.activeFile;
+    this.activeFile = nextFile;
+    this.truncateOnWrite = !this.append;
+    return previousFile;
+  }
+
+  private hasRetentionLimits(): boolean {
+    return this.maxFiles !== undefined || this.maxTotalSize !== undefined;
+  }
+
+  /**
+   * Rotate the active file if the period changed or the next line would exceed maxSize
+   * @param bytes Size of the line about to be written
+   */
+  private rotateIfNeeded(bytes: number): void {
+    const now = new Date();
+    if (!this.shouldRotate(bytes, now)) {
+      return;
+    }
+
+    const previousFile = this.startPeriod(now);
+    if (previousFile === undefined) {
+      if (this.currentSize === 0) {
+        return; // Nothing written in the previous period
+      }
+      rotateFile(this.activeFile, this.compress);
+      this.currentSize = 0;
+    } else {
+      // Date tokens changed: the previous file already carries its own date
+      this.ensureDirectory();
+      this.currentSize = !this.truncateOnWrite && fs.existsSync(this.activeFile)
+        ? fs.statSync(this.activeFile).size
+        : 0;
+
+      if (this.compress && fs.existsSync(previousFile)) {
+        compressFile(previousFile);
+      }
+      if (this.exceedsMaxSize(bytes)) {
+        rotateFile(this.activeFile, this.compress);
+        this.currentSize = 0;
+      }
+    }
+
+    this.rotationCount++;
+    this.lastRotation = now;
+
+    if (this.hasRetentionLimits()) {
+      pruneRotatedFiles(listRotatedFiles(this.filename, this.activeFile), {
+        maxFiles: this.maxFiles,
+        maxTotalSize: this.maxTotalSize,
+      });
+    }
+  }
+
+  /**
+   * rotateIfNeeded() for buffered writing, without blocking the event loop
+   * @param bytes Size of the line about to be written
+   */
+  private async rotateIfNeededAsync(bytes: number): Promise<void> {
+    const now = new Date();
+    if (!this.shouldRotate(bytes, now)) {
+      return;
+    }
+
+    const previousFile = this.startPeriod(now);
+    if (previousFile === undefined) {
+      if (this.currentSize === 0) {
+        return; // Nothing written in the previous period
+      }
+      await rotateFileAsync(this.activeFile, this.compress);
+      this.currentSize = 0;
+    } else {
+      // Date tokens changed: the previous file already carries its own date
+      await fs.promises.mkdir(path.dirname(this.activeFile), { recursive: true });
+      const stats = !this.truncateOnWrite && await pathExists(this.activeFile)
+        ? await fs.promises.stat(this.activeFile)
+        : undefined;
+      this.currentSize = stats?.size ?? 0;
+
+      if (this.compress && await pathExists(previousFile)) {
+        await compressFileAsync(previousFile);
+      }
+      if (this.exceedsMaxSize(bytes)) {
+        await rotateFileAsync(this.activeFile, this.compress);
+        this.currentSize = 0;
+      }
+    }
+
+    this.rotationCount++;
+    this.lastRotation = now;
+
+    if (this.hasRetentionLimits()) {
+      await pruneRotatedFilesAsync(await listRotatedFilesAsync(this.filename, this.activeFile), {
+        maxFiles: this.maxFiles,
+        maxTotalSize: this.maxTotalSize,
+      });
+    }
+  }
+
   write(formattedMessage: string, metadata: LogMetadata): void {
     if (!isNodeEnvironment()) {
       return;
     }
 
+    const logLine = `${formattedMessage}${this.eol}`;
+
+    if (this.buffered) {
+      this.enqueue(logLine);
+      return;
+    }
+
     try {
       // Simple synchronous write
-      const logLine = `${formattedMessage}${this.eol}`;
-      
-      if (this.append) {
-        fs.appendFileSync(this.filename, logLine);
+      if (this.isRotationEnabled()) {
+        const bytes = Buffer.byteLength(logLine);
+        this.rotateIfNeeded(bytes);
+        this.currentSize += bytes;
+      }
+
+      if (this.truncateOnWrite) {
+        this.truncateOnWrite = false;
+        fs.writeFileSync(this.activeFile, logLine);
       } else {
-        fs.writeFileSync(this.filename, logLine);
+        fs.appendFileSync(this.activeFile, logLine);
+      }
+    } catch (error) {
+      if (!this.options.silent) {
+        console.error(`FileTransport write error:`, error);
+      }
+    }
+  }
+
+  /**
+   * Queue a line for the next batched write
+   * Lines are dropped (and counted) while the queue is at maxQueueSize,
+   * so a slow disk can't grow memory without bound.
+   */
+  private enqueue(logLine: string): void {
+    const bytes = Buffer.byteLength(logLine);
+
+    if (this.queuedBytes + bytes > this.maxQueueSize) {
+      this.droppedLines++;
+      if (this.droppedLines === 1 && !this.options.silent) {
+        console.error('FileTransport buffer full, dropping log lines');
+      }
+      return;
+    }
+
+    this.queue.push(logLine);
+    this.queuedBytes += bytes;
+
+    // One scheduled flush at a time picks up everything queued meanwhile
+    if (this.queuedBytes >= this.bufferSize && !this.flushScheduled) {
+      this.flushScheduled = true;
+      void this.flush();
+    }
+  }
+
+  /**
+   * Write all queued lines to disk
+   * Batches are written one after another, so lines keep their order.
+   * @returns Promise that resolves once every line queued so far is written
+   */
+  async flush(): Promise<void> {
+    this.pendingFlush = this.pendingFlush.then(() => this.writeQueue());
+    return this.pendingFlush;
+  }
+
+  private async writeQueue(): Promise<void> {
+    this.flushScheduled = false;
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const lines = this.queue;
+    this.queue = [];
+    this.queuedBytes = 0;
+
+    try {
+      if (!this.isRotationEnabled()) {
+        await this.writeChunk(lines.join(''));
+        return;
+      }
+
+      // Split the batch wherever a rotation is due
+      let chunk = '';
+      for (const line of lines) {
+        const bytes = Buffer.byteLength(line);
+        if (this.shouldRotate(bytes, new Date())) {
+          if (chunk) {
+            await this.writeChunk(chunk);
+            chunk = '';
+          }
+          await this.rotateIfNeededAsync(bytes);
+        }
+        chunk += line;
+        this.currentSize += bytes;
+      }
+      if (chunk) {
+        await this.writeChunk(chunk);
       }
     } catch (error) {
       if (!this.options.silent) {
@@ -80,12 +407,22 @@ export class FileTransport extends BaseTransport {
     }
   }
 
+  /**
+   * Append a batch to the active file, truncating it first when it was just switched to
+   */
+  private async writeChunk(chunk: string): Promise<void> {
+    const flag = this.truncateOnWrite ? 'w' : 'a';
+    this.truncateOnWrite = false;
+    await fs.promises.writeFile(this.activeFile, chunk, { flag });
+  }
+
   configure(options: Record<string, unknown>): void {
     super.configure(options);
 
     // Simple configuration updates
     if (typeof options.filename === 'string') {
       this.filename = options.filename;
+      this.interval ??= getPatternInterval(options.filename);
       this.initializeFile();
     }
     if (typeof options.append === 'boolean') {
@@ -97,6 +434,40 @@ export class FileTransport extends BaseTransport {
     if (typeof options.includeTimestamp === 'boolean') {
       this.includeTimestamp = options.includeTimestamp;
     }
+    if (typeof options.maxSize === 'number') {
+      this.maxSize = options.maxSize;
+    }
+    if (options.interval === 'hourly' || options.interval === 'daily') {
+      this.interval = options.interval;
+    }
+    if (typeof options.maxFiles === 'number') {
+      this.maxFiles = options.maxFiles;
+    }
+    if (typeof options.maxTotalSize === 'number') {
+      this.maxTotalSize = options.maxTotalSize;
+    }
+    if (typeof options.compress === 'boolean') {
+      this.compress = options.compress;
+    }
+    if (typeof options.bufferSize === 'number') {
+      this.bufferSize = options.bufferSize;
+    }
+    if (typeof options.maxQueueSize === 'number') {
+      this.maxQueueSize = options.maxQueueSize;
+    }
+    if (typeof options.flushInterval === 'number') {
+      this.flushInterval = options.flushInterval;
+      if (this.buffered) {
+        this.startFlushTimer();
+      }
+    }
+    if (typeof options.maxSize === 'number' || options.interval !== undefined) {
+      try {
+        this.resetRotationState();
+      } catch {
+        // Picked up again on the next rotation
+      }
+    }
   }
 
   getStatus(): Record<string, unknown> {
@@ -104,8 +475,8 @@ export class FileTransport extends BaseTransport {
     let exists = false;
 
     try {
-      if (fs.existsSync(this.filename)) {
-        const stats = fs.statSync(this.filename);
+      if (fs.existsSync(this.activeFile)) {
+        const stats = fs.statSync(this.activeFile);
         fileSize = stats.size;
         exists = true;
       }
@@ -121,12 +492,65 @@ export class FileTransport extends BaseTransport {
       includeTimestamp: this.includeTimestamp,
       fileExists: exists,
       fileSize,
+      rotation: this.getRotationStatus(),
+      buffer: this.getBufferStatus(),
       environment: 'node',
       nodeEnvironment: isNodeEnvironment(),
     };
   }
 
+  private getBufferStatus(): Record<string, unknown> {
+    if (!this.buffered) {
+      return { enabled: false };
+    }
+
+    return {
+      enabled: true,
+      bufferSize: this.bufferSize,
+      flushInterval: this.flushInterval,
+      maxQueueSize: this.maxQueueSize,
+      queuedLines: this.queue.length,
+      queuedBytes: this.queuedBytes,
+      droppedLines: this.droppedLines,
+    };
+  }
+
+  private getRotationStatus(): Record<string, unknown> {
+    if (!this.isRotationEnabled()) {
+      return { enabled: false };
+    }
+
+    let rotatedFiles = 0;
+    let rotatedSize = 0;
+    try {
+      const files = listRotatedFiles(this.filename, this.activeFile);
+      rotatedFiles = files.length;
+      rotatedSize = files.reduce((sum, file) => sum + file.size, 0);
+    } catch {
+      // Ignore errors for status check
+    }
+
+    return {
+      enabled: true,
+      activeFile: this.activeFile,
+      maxSize: this.maxSize,
+      interval: this.interval,
+      maxFiles: this.maxFiles,
+      maxTotalSize: this.maxTotalSize,
+      compress: this.compress,
+      currentSize: this.currentSize,
+      rotations: this.rotationCount,
+      lastRotation: this.lastRotation?.toISOString(),
+      rotatedFiles,
+      rotatedSize,
+    };
+  }
+
+  /**
+   * Stop the flush timer and wait until every queued line is written
+   */
   async close(): Promise<void> {
-    // No cleanup needed for simple file transport
+    this.stopFlushTimer();
+    await this.flush();
   }
 }
\ No newline at end of file
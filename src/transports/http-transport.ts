@@ -0,0 +1,400 @@
+/**
+ * HTTP transport for shipping logs to an ingest endpoint
+ * Batches entries by count, bytes or interval and retries failed requests with backoff
+ */
+
+import { BaseTransport, isLogRecord } from './transport.interface';
+import type {
+  LogMetadata,
+  HttpBodyFormat,
+  HttpOverflowStrategy,
+  HttpTransportOptions,
+} from '@/types/transport.types';
+import { isNodeEnvironment } from '@environment/detection';
+import { jsonFormatter } from '@formatters/record-formatting';
+import { formatJsonLog } from '@formatters/json-formatting';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import path from 'node:path';
+
+/**
+ * Error for a request that reached the server but wasn't accepted
+ */
+class HttpStatusError extends Error {
+  constructor(readonly status: number) {
+    super(`HTTP ${status}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * Transport that POSTs log entries to an HTTP endpoint in batches
+ *
+ * Entries are queued and sent once `batchSize` entries or `batchBytes`
+ * bytes are queued, and at least every `flushInterval` ms. Every entry is
+ * one JSON log line (`jsonFormatter` unless a `formatter` is set, which
+ * must then produce JSON too). Failed requests are retried with
+ * exponential backoff and jitter, with at most `maxInFlight` requests
+ * running at once. Entries that don't fit the queue or still fail after
+ * `maxRetries` are dropped, or appended to `spillFile` with
+ * `overflow: 'spill'`. Call `close()` (or `flush()`) before exiting so
+ * queued entries are sent.
+ *
+ * @example
+ * ```typescript
+ * new HttpTransport({
+ *   url: 'https://logs.example.com/ingest',
+ *   headers: { Authorization: `Bearer ${process.env.LOG_TOKEN}` },
+ *   bodyFormat: 'ndjson',
+ *   batchSize: 500,
+ * })
+ * ```
+ */
+export class HttpTransport extends BaseTransport {
+  readonly name = 'http';
+
+  private url: string;
+  private headers: Record<string, string>;
+  private bodyFormat: HttpBodyFormat;
+  private batchSize: number;
+  private batchBytes: number;
+  private flushInterval: number;
+  private maxRetries: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private timeout: number;
+  private maxInFlight: number;
+  private maxQueueSize: number;
+  private overflow: HttpOverflowStrategy;
+  private spillFile: string;
+
+  // Queue and request state
+  private queue: string[] = [];
+  private queuedBytes = 0;
+  private inFlight = new Set<Promise<void>>();
+  private flushTimer?: ReturnType<typeof setInterval>;
+  private closed = false;
+
+  // Counters for getStatus()
+  private sentEntries = 0;
+  private sentBatches = 0;
+  private failedRequests = 0;
+  private failedBatches = 0;
+  private retries = 0;
+  private droppedEntries = 0;
+  private spilledEntries = 0;
+  private lastError?: string;
+
+  constructor(options: HttpTransportOptions) {
+    super({ ...options, formatter: options.formatter ?? jsonFormatter });
+
+    if (typeof fetch !== 'function') {
+      throw new TypeError('HttpTransport requires a global fetch implementation');
+    }
+    if (options.overflow === 'spill' && !isNodeEnvironment()) {
+      throw new Error('HttpTransport spill to disk is only available in Node.js environments');
+    }
+
+    this.url = options.url;
+    this.headers = options.headers ?? {};
+    this.bodyFormat = options.bodyFormat ?? 'json';
+    this.batchSize = options.batchSize ?? 100;
+    this.batchBytes = options.batchBytes ?? 1024 * 1024;
+    this.flushInterval = options.flushInterval ?? 5000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelay = options.retryDelay ?? 500;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30_000;
+    this.timeout = options.timeout ?? 10_000;
+    this.maxInFlight = Math.max(1, options.maxInFlight ?? 2);
+    this.maxQueueSize = options.maxQueueSize ?? 10_000;
+    this.overflow = options.overflow ?? 'drop';
+    this.spillFile = options.spillFile ?? path.join(os.tmpdir(), 'loggical-http-spill.ndjson');
+
+    this.startFlushTimer();
+  }
+
+  private startFlushTimer(): void {
+    this.stopFlushTimer();
+    this.flushTimer = setInterval(() => {
+      this.sendBatches(true);
+    }, this.flushInterval);
+    // Don't keep the process alive just to ship logs
+    this.flushTimer.unref?.();
+  }
+
+  private stopFlushTimer(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  write(formattedMessage: string, metadata: LogMetadata): void {
+    if (this.closed) {
+      return;
+    }
+
+    const entry = isLogRecord(metadata)
+      ? formattedMessage
+      : formatJsonLog(metadata.level, [formattedMessage], {
+          context: metadata.context,
+          timestamp: metadata.timestamp,
+        });
+
+    if (this.queue.length >= this.maxQueueSize) {
+      this.handleOverflow([entry], 'HttpTransport buffer full');
+      return;
+    }
+
+    this.queue.push(entry);
+    this.queuedBytes += byteLength(entry);
+    this.sendBatches(false);
+  }
+
+  private isBatchReady(): boolean {
+    return this.queue.length >= this.batchSize || this.queuedBytes >= this.batchBytes;
+  }
+
+  /**
+   * Start requests for queued entries while below maxInFlight
+   * @param partial Whether to send batches that aren't full yet
+   */
+  private sendBatches(partial: boolean): void {
+    while (
+      this.queue.length > 0 &&
+      this.inFlight.size < this.maxInFlight &&
+      (partial || this.isBatchReady())
+    ) {
+      const request = this.sendBatch(this.takeBatch()).finally(() => {
+        this.inFlight.delete(request);
+        // A slot is free again: pick up what queued up meanwhile
+        this.sendBatches(false);
+      });
+      this.inFlight.add(request);
+    }
+  }
+
+  /**
+   * Remove the next batch from the queue, limited by batchSize and batchBytes
+   */
+  private takeBatch(): string[] {
+    let count = 0;
+    let bytes = 0;
+    while (count < this.queue.length && count < this.batchSize) {
+      const entryBytes = byteLength(this.queue[count]);
+      // Always take at least one entry, even if it is bigger than batchBytes
+      if (count > 0 && bytes + entryBytes > this.batchBytes) {
+        break;
+      }
+      bytes += entryBytes;
+      count++;
+    }
+
+    this.queuedBytes -= bytes;
+    return this.queue.splice(0, count);
+  }
+
+  /**
+   * Send one batch, retrying with backoff; never rejects
+   */
+  private async sendBatch(entries: string[]): Promise<void> {
+    const body = this.bodyFormat === 'ndjson'
+      ? `${entries.join('\n')}\n`
+      : `[${entries.join(',')}]`;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.post(body);
+        this.sentEntries += entries.length;
+        this.sentBatches++;
+        return;
+      } catch (error) {
+        this.failedRequests++;
+        this.lastError = error instanceof Error ? error.message : String(error);
+
+        if (attempt >= this.maxRetries || !isRetryable(error)) {
+          this.failedBatches++;
+          this.handleOverflow(entries, 'HttpTransport send error', error);
+          return;
+        }
+
+        this.retries++;
+        await delay(this.getRetryDelay(attempt));
+      }
+    }
+  }
+
+  private async post(body: string): Promise<void> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': this.bodyFormat === 'ndjson' ? 'application/x-ndjson' : 'application/json',
+          ...this.headers,
+        },
+        body,
+        signal: controller.signal,
+      });
+      // Release the connection
+      await response.arrayBuffer().catch(() => {});
+      if (!response.ok) {
+        throw new HttpStatusError(response.status);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter: a random delay between half and all
+   * of retryDelay * 2^attempt, capped at maxRetryDelay
+   */
+  private getRetryDelay(attempt: number): number {
+    const backoff = Math.min(this.maxRetryDelay, this.retryDelay * 2 ** attempt);
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  /**
+   * Drop or spill entries that can't be queued or delivered
+   */
+  private handleOverflow(entries: string[], reason: string, error?: unknown): void {
+    if (this.overflow === 'spill') {
+      try {
+        fs.mkdirSync(path.dirname(this.spillFile), { recursive: true });
+        fs.appendFileSync(this.spillFile, `${entries.join('\n')}\n`);
+        this.spilledEntries += entries.length;
+        return;
+      } catch (spillError) {
+        error = spillError;
+        reason = 'HttpTransport spill error';
+      }
+    }
+
+    const firstDrop = this.droppedEntries === 0;
+    this.droppedEntries += entries.length;
+    // A full buffer is reported once; delivery failures every time
+    if (!this.options.silent && (error !== undefined || firstDrop)) {
+      if (error === undefined) {
+        console.error(`${reason}, dropping log entries`);
+      } else {
+        console.error(`${reason}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Send every queued entry and wait for all requests to finish
+   */
+  async flush(): Promise<void> {
+    while (this.queue.length > 0 || this.inFlight.size > 0) {
+      this.sendBatches(true);
+      await Promise.allSettled(this.inFlight);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.stopFlushTimer();
+    await this.flush();
+    this.closed = true;
+  }
+
+  configure(options: Record<string, unknown>): void {
+    super.configure(options);
+
+    if (typeof options.url === 'string') {
+      this.url = options.url;
+    }
+    if (typeof options.headers === 'object' && options.headers !== null) {
+      this.headers = options.headers as Record<string, string>;
+    }
+    if (options.bodyFormat === 'json' || options.bodyFormat === 'ndjson') {
+      this.bodyFormat = options.bodyFormat;
+    }
+    if (typeof options.batchSize === 'number') {
+      this.batchSize = options.batchSize;
+    }
+    if (typeof options.batchBytes === 'number') {
+      this.batchBytes = options.batchBytes;
+    }
+    if (typeof options.maxRetries === 'number') {
+      this.maxRetries = options.maxRetries;
+    }
+    if (typeof options.retryDelay === 'number') {
+      this.retryDelay = options.retryDelay;
+    }
+    if (typeof options.maxRetryDelay === 'number') {
+      this.maxRetryDelay = options.maxRetryDelay;
+    }
+    if (typeof options.timeout === 'number') {
+      this.timeout = options.timeout;
+    }
+    if (typeof options.maxInFlight === 'number') {
+      this.maxInFlight = Math.max(1, options.maxInFlight);
+    }
+    if (typeof options.maxQueueSize === 'number') {
+      this.maxQueueSize = options.maxQueueSize;
+    }
+    if (options.overflow === 'drop' || (options.overflow === 'spill' && isNodeEnvironment())) {
+      this.overflow = options.overflow;
+    }
+    if (typeof options.spillFile === 'string') {
+      this.spillFile = options.spillFile;
+    }
+    if (typeof options.flushInterval === 'number') {
+      this.flushInterval = options.flushInterval;
+      if (!this.closed) {
+        this.startFlushTimer();
+      }
+    }
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      ...super.getStatus(),
+      url: this.url,
+      bodyFormat: this.bodyFormat,
+      queueDepth: this.queue.length,
+      queuedBytes: this.queuedBytes,
+      maxQueueSize: this.maxQueueSize,
+      inFlight: this.inFlight.size,
+      maxInFlight: this.maxInFlight,
+      sentEntries: this.sentEntries,
+      sentBatches: this.sentBatches,
+      failedRequests: this.failedRequests,
+      failedBatches: this.failedBatches,
+      retries: this.retries,
+      droppedEntries: this.droppedEntries,
+      spilledEntries: this.spilledEntries,
+      overflow: this.overflow,
+      spillFile: this.overflow === 'spill' ? this.spillFile : undefined,
+      lastError: this.lastError,
+      closed: this.closed,
+    };
+  }
+}
+
+function byteLength(entry: string): number {
+  return typeof Buffer === 'undefined' ? new TextEncoder().encode(entry).length : Buffer.byteLength(entry);
+}
+
+/**
+ * Network errors, timeouts, 408, 429 and 5xx responses are worth retrying
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpStatusError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Wait between retries without keeping the process alive for a failing endpoint
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms).unref?.();
+  });
+}
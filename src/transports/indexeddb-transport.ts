@@ -0,0 +1,483 @@
+/**
+ * IndexedDB transport for keeping logs across page reloads in browsers
+ * Stores JSON lines with retention by age, count and size, and exports them as NDJSON
+ */
+
+import { BaseTransport } from './transport.interface';
+import type { LogLevelType } from '@/types/core.types';
+import type {
+  IndexedDBExportOptions,
+  IndexedDBTransportOptions,
+  IndexedDBTransportState,
+  LogMetadata,
+} from '@/types/transport.types';
+import { jsonFormatter } from '@formatters/record-formatting';
+
+/**
+ * Entry as stored in the object store
+ */
+interface StoredEntry {
+  id?: number;
+  timestamp: number;
+  level: LogLevelType;
+  line: string;
+  bytes: number;
+}
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Transport that persists logs in IndexedDB (browser)
+ *
+ * Entries are queued and written in batches. After every batch the oldest
+ * entries are deleted until none is older than `maxAge` and the store is
+ * within `maxEntries` and `maxBytes`. When the browser's quota is exceeded
+ * the oldest half is evicted and the batch is retried once.
+ *
+ * If IndexedDB is missing or blocked (private browsing, sandboxed iframes,
+ * disabled storage), the transport reports it once and drops entries
+ * instead of throwing.
+ *
+ * @example
+ * ```typescript
+ * const storage = new IndexedDBTransport({ maxAge: 3 * 24 * 60 * 60 * 1000 });
+ * const logger = createLogger({ transports: [new ConsoleTransport(), storage] });
+ *
+ * // "Attach logs to bug report"
+ * const blob = await storage.export({ format: 'blob', minLevel: LogLevel.INFO });
+ * formData.append('logs', blob, 'logs.ndjson');
+ * ```
+ */
+export class IndexedDBTransport extends BaseTransport {
+  readonly name = 'indexeddb';
+
+  private factory?: IDBFactory;
+  private dbName: string;
+  private storeName: string;
+  private maxAge: number;
+  private maxEntries: number;
+  private maxBytes: number;
+  private batchSize: number;
+  private flushInterval: number;
+  private maxQueueSize: number;
+
+  private state: IndexedDBTransportState = 'opening';
+  private ready: Promise<IDBDatabase | undefined>;
+  private db?: IDBDatabase;
+  private queue: StoredEntry[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private flushing: Promise<void> = Promise.resolve();
+  private storedEntries = 0;
+  private storedBytes = 0;
+  private writtenEntries = 0;
+  private droppedEntries = 0;
+  private evictedEntries = 0;
+  private lastError?: string;
+
+  constructor(options: IndexedDBTransportOptions = {}) {
+    super({ ...options, formatter: options.formatter ?? jsonFormatter });
+
+    this.factory = options.indexedDB;
+    this.dbName = options.dbName ?? 'loggical';
+    this.storeName = options.storeName ?? 'logs';
+    this.maxAge = options.maxAge ?? 7 * 24 * 60 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.maxBytes = options.maxBytes ?? 5 * 1024 * 1024;
+    this.batchSize = options.batchSize ?? 50;
+    this.flushInterval = options.flushInterval ?? 1000;
+    this.maxQueueSize = options.maxQueueSize ?? 1000;
+
+    this.ready = this.open();
+
+    // The flush timer may never fire once the page is being unloaded
+    if (typeof globalThis.addEventListener === 'function') {
+      globalThis.addEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  private handlePageHide = (): void => {
+    void this.flush();
+  };
+
+  /**
+   * Open the database, creating the object store if needed
+   * Never rejects: failures leave the transport unavailable.
+   */
+  private async open(): Promise<IDBDatabase | undefined> {
+    try {
+      // Merely reading globalThis.indexedDB throws in some sandboxed contexts
+      const factory = this.factory ?? globalThis.indexedDB;
+      if (!factory) {
+        throw new Error('IndexedDB is not available');
+      }
+
+      let db = await this.openDatabase(factory);
+      if (!db.objectStoreNames.contains(this.storeName)) {
+        // The database exists without our store; a version bump creates it
+        const version = db.version + 1;
+        db.close();
+        db = await this.openDatabase(factory, version);
+      }
+
+      // Let other tabs upgrade the database instead of blocking them
+      db.addEventListener('versionchange', () => {
+        db.close();
+        this.db = undefined;
+        this.markUnavailable(new Error('IndexedDB database was upgraded in another tab'));
+      });
+
+      this.db = db;
+      await this.loadTotals(db);
+      await this.writeEntries(db, []);
+      this.state = 'ready';
+      return db;
+    } catch (error) {
+      this.markUnavailable(error);
+      return undefined;
+    }
+  }
+
+  private openDatabase(factory: IDBFactory, version?: number): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = version === undefined
+        ? factory.open(this.dbName)
+        : factory.open(this.dbName, version);
+
+      request.addEventListener('upgradeneeded', () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          db.createObjectStore(this.storeName, { keyPath: 'id', autoIncrement: true });
+        }
+      });
+      request.addEventListener('success', () => resolve(request.result));
+      request.addEventListener('error', () => reject(request.error ?? new Error('Failed to open IndexedDB database')));
+    });
+  }
+
+  private markUnavailable(error: unknown): void {
+    if (this.state === 'closed' || this.state === 'unavailable') {
+      return;
+    }
+
+    this.state = 'unavailable';
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.droppedEntries += this.queue.length;
+    this.queue = [];
+    if (!this.options.silent) {
+      console.warn('IndexedDBTransport: storage unavailable, logs will not be persisted:', error);
+    }
+  }
+
+  write(formattedMessage: string, metadata: LogMetadata): void {
+    if (this.state === 'unavailable' || this.state === 'closed') {
+      this.droppedEntries++;
+      return;
+    }
+
+    if (this.queue.length >= this.maxQueueSize) {
+      this.droppedEntries++;
+      if (this.droppedEntries === 1 && !this.options.silent) {
+        console.error('IndexedDBTransport queue full, dropping log entries');
+      }
+      return;
+    }
+
+    this.queue.push({
+      timestamp: metadata.timestamp.getTime(),
+      level: metadata.level,
+      line: formattedMessage,
+      bytes: textEncoder.encode(formattedMessage).length,
+    });
+
+    if (this.queue.length >= this.batchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      void this.flush();
+    }, this.flushInterval);
+    this.flushTimer.unref?.();
+  }
+
+  /**
+   * Write every queued entry to the database
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    // Batches are written one after another so retention sees them in order
+    this.flushing = this.flushing.then(() => this.writeQueue());
+    await this.flushing;
+  }
+
+  private async writeQueue(): Promise<void> {
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const db = await this.ready;
+    const batch = this.queue;
+    this.queue = [];
+
+    if (!db || !this.db) {
+      this.droppedEntries += batch.length;
+      return;
+    }
+
+    try {
+      await this.writeEntries(db, batch);
+    } catch (error) {
+      if (!isQuotaExceeded(error)) {
+        this.handleWriteError(error, batch.length);
+        return;
+      }
+
+      // Make room by evicting the oldest half, then try once more
+      try {
+        await this.writeEntries(db, [], Math.floor(this.storedEntries / 2));
+        await this.writeEntries(db, batch);
+      } catch (retryError) {
+        this.handleWriteError(retryError, batch.length);
+      }
+    }
+  }
+
+  private handleWriteError(error: unknown, lostEntries: number): void {
+    this.droppedEntries += lostEntries;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    if (!this.options.silent) {
+      console.error('IndexedDBTransport error:', error);
+    }
+  }
+
+  /**
+   * Add entries and apply retention in one transaction
+   * The oldest entries are deleted while any limit is exceeded.
+   */
+  private async writeEntries(
+    db: IDBDatabase,
+    entries: StoredEntry[],
+    maxEntries = this.maxEntries,
+  ): Promise<void> {
+    let count = this.storedEntries;
+    let bytes = this.storedBytes;
+    let evicted = 0;
+    const expiry = Date.now() - this.maxAge;
+
+    await this.runTransaction(db, 'readwrite', (store) => {
+      for (const entry of entries) {
+        store.add(entry);
+        count++;
+        bytes += entry.bytes;
+      }
+
+      const request = store.openCursor();
+      request.addEventListener('success', () => {
+        const cursor = request.result;
+        if (!cursor) {
+          return;
+        }
+        const entry = cursor.value as StoredEntry;
+        if (entry.timestamp < expiry || count > maxEntries || bytes > this.maxBytes) {
+          cursor.delete();
+          count--;
+          bytes -= entry.bytes;
+          evicted++;
+          cursor.continue();
+        }
+      });
+    });
+
+    this.storedEntries = count;
+    this.storedBytes = bytes;
+    this.evictedEntries += evicted;
+    this.writtenEntries += entries.length;
+  }
+
+  /**
+   * Count stored entries and bytes left by earlier page loads
+   */
+  private async loadTotals(db: IDBDatabase): Promise<void> {
+    let count = 0;
+    let bytes = 0;
+
+    await this.runTransaction(db, 'readonly', (store) => {
+      const request = store.openCursor();
+      request.addEventListener('success', () => {
+        const cursor = request.result;
+        if (cursor) {
+          count++;
+          bytes += (cursor.value as StoredEntry).bytes ?? 0;
+          cursor.continue();
+        }
+      });
+    });
+
+    this.storedEntries = count;
+    this.storedBytes = bytes;
+  }
+
+  private async readEntries(db: IDBDatabase): Promise<StoredEntry[]> {
+    let entries: StoredEntry[] = [];
+
+    await this.runTransaction(db, 'readonly', (store) => {
+      const request = store.getAll();
+      request.addEventListener('success', () => {
+        entries = request.result as StoredEntry[];
+      });
+    });
+
+    return entries;
+  }
+
+  /**
+   * Run a transaction, resolving once it commits
+   */
+  private runTransaction(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => void,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      transaction.addEventListener('complete', () => resolve());
+      transaction.addEventListener('error', () => reject(transaction.error ?? new Error('IndexedDB transaction failed')));
+      transaction.addEventListener('abort', () => reject(transaction.error ?? new Error('IndexedDB transaction aborted')));
+      work(transaction.objectStore(this.storeName));
+    });
+  }
+
+  /**
+   * Export stored entries, oldest first, as NDJSON
+   * Queued entries are written first, so the export includes everything logged so far.
+   * Resolves to an empty export when storage is unavailable.
+   *
+   * @example
+   * ```typescript
+   * const ndjson = await storage.export({ since: Date.now() - 60 * 60 * 1000 });
+   * const blob = await storage.export({ format: 'blob' });
+   * ```
+   */
+  async export(options: IndexedDBExportOptions & { format: 'blob' }): Promise<Blob>;
+  async export(options?: IndexedDBExportOptions & { format?: 'ndjson' }): Promise<string>;
+  async export(options: IndexedDBExportOptions = {}): Promise<string | Blob> {
+    await this.flush();
+
+    let entries: StoredEntry[] = [];
+    const db = await this.ready;
+    if (db && this.db) {
+      try {
+        entries = await this.readEntries(db);
+      } catch (error) {
+        this.handleWriteError(error, 0);
+      }
+    }
+
+    const since = options.since === undefined ? undefined : new Date(options.since).getTime();
+    const ndjson = entries
+      .filter(entry => since === undefined || entry.timestamp >= since)
+      .filter(entry => options.minLevel === undefined || entry.level >= options.minLevel)
+      .map(entry => `${entry.line}\n`)
+      .join('');
+
+    return options.format === 'blob'
+      ? new Blob([ndjson], { type: 'application/x-ndjson' })
+      : ndjson;
+  }
+
+  /**
+   * Delete every stored and queued entry
+   */
+  async clear(): Promise<void> {
+    this.queue = [];
+    await this.flushing;
+
+    const db = await this.ready;
+    if (!db || !this.db) {
+      return;
+    }
+
+    try {
+      await this.runTransaction(db, 'readwrite', (store) => {
+        store.clear();
+      });
+      this.storedEntries = 0;
+      this.storedBytes = 0;
+    } catch (error) {
+      this.handleWriteError(error, 0);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    // Don't let a pending open finish after close
+    await this.ready;
+
+    if (typeof globalThis.removeEventListener === 'function') {
+      globalThis.removeEventListener('pagehide', this.handlePageHide);
+    }
+
+    this.db?.close();
+    this.db = undefined;
+    this.state = 'closed';
+  }
+
+  configure(options: Record<string, unknown>): void {
+    super.configure(options);
+
+    if (typeof options.maxAge === 'number') {
+      this.maxAge = options.maxAge;
+    }
+    if (typeof options.maxEntries === 'number') {
+      this.maxEntries = options.maxEntries;
+    }
+    if (typeof options.maxBytes === 'number') {
+      this.maxBytes = options.maxBytes;
+    }
+    if (typeof options.batchSize === 'number') {
+      this.batchSize = options.batchSize;
+    }
+    if (typeof options.flushInterval === 'number') {
+      this.flushInterval = options.flushInterval;
+    }
+    if (typeof options.maxQueueSize === 'number') {
+      this.maxQueueSize = options.maxQueueSize;
+    }
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      ...super.getStatus(),
+      state: this.state,
+      dbName: this.dbName,
+      storeName: this.storeName,
+      storedEntries: this.storedEntries,
+      storedBytes: this.storedBytes,
+      queuedEntries: this.queue.length,
+      maxAge: this.maxAge,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+      writtenEntries: this.writtenEntries,
+      droppedEntries: this.droppedEntries,
+      evictedEntries: this.evictedEntries,
+      lastError: this.lastError,
+    };
+  }
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+  return typeof error === 'object' && error !== null &&
+    (error as { name?: unknown }).name === 'QuotaExceededError';
+}
@@ -0,0 +1,210 @@
+/**
+ * Memory transport for keeping recent logs in a ring buffer
+ * Useful for debug endpoints, crash reports and tests
+ */
+
+import { BaseTransport } from './transport.interface';
+import { LogLevel, ColorLevel } from '@/types/core.types';
+import type {
+  LogMetadata,
+  MemoryLogEntry,
+  MemoryLogQuery,
+  MemoryTransportOptions,
+  Transport,
+} from '@/types/transport.types';
+import { createPrettyFormatter } from '@formatters/record-formatting';
+
+/**
+ * Transport that keeps the last `capacity` log entries in memory
+ *
+ * Entries keep the raw metadata (the full LogRecord when written by a
+ * logger) next to the message, so they can be queried or replayed into
+ * another transport. Messages are rendered without colors by default.
+ *
+ * With `dumpOnFatal`, logging a FATAL drains the buffer into that transport
+ * and flushes it, so the lead-up to a crash ends up somewhere persistent.
+ *
+ * @example
+ * ```typescript
+ * const memory = new MemoryTransport({
+ *   capacity: 500,
+ *   dumpOnFatal: new FileTransport({ filename: 'crash.log', formatter: jsonFormatter }),
+ * });
+ * const logger = createLogger({ transports: [new ConsoleTransport(), memory] });
+ *
+ * app.get('/debug/logs', (req, res) => {
+ *   res.json(memory.query({ minLevel: LogLevel.WARN, since: Date.now() - 60_000 }));
+ * });
+ * ```
+ */
+export class MemoryTransport extends BaseTransport {
+  readonly name = 'memory';
+
+  private capacity: number;
+  private dumpTarget?: Transport;
+
+  private entries: Array<MemoryLogEntry | undefined>;
+  private start = 0;
+  private size = 0;
+  private overwrittenEntries = 0;
+  private dumps = 0;
+
+  constructor(options: MemoryTransportOptions = {}) {
+    super({ formatter: createPrettyFormatter({ colorLevel: ColorLevel.NONE }), ...options });
+
+    this.capacity = normalizeCapacity(options.capacity ?? 1000);
+    this.dumpTarget = options.dumpOnFatal;
+    this.entries = Array.from({ length: this.capacity });
+  }
+
+  write(formattedMessage: string, metadata: LogMetadata): Promise<void> | void {
+    this.push({ message: formattedMessage, metadata });
+
+    if (metadata.level === LogLevel.FATAL && this.dumpTarget) {
+      return this.dump(this.dumpTarget);
+    }
+  }
+
+  private push(entry: MemoryLogEntry): void {
+    if (this.size < this.capacity) {
+      this.entries[(this.start + this.size) % this.capacity] = entry;
+      this.size++;
+      return;
+    }
+
+    // Full: overwrite the oldest entry
+    this.entries[this.start] = entry;
+    this.start = (this.start + 1) % this.capacity;
+    this.overwrittenEntries++;
+  }
+
+  /**
+   * Get all buffered entries, oldest first, without removing them
+   */
+  snapshot(): MemoryLogEntry[] {
+    const result: MemoryLogEntry[] = [];
+    for (let i = 0; i < this.size; i++) {
+      result.push(this.entries[(this.start + i) % this.capacity] as MemoryLogEntry);
+    }
+    return result;
+  }
+
+  /**
+   * Get all buffered entries, oldest first, and empty the buffer
+   */
+  drain(): MemoryLogEntry[] {
+    const result = this.snapshot();
+    this.clear();
+    return result;
+  }
+
+  /**
+   * Remove all buffered entries
+   */
+  clear(): void {
+    this.entries = Array.from({ length: this.capacity });
+    this.start = 0;
+    this.size = 0;
+  }
+
+  /**
+   * Get buffered entries matching every given criterion, oldest first
+   *
+   * @example
+   * ```typescript
+   * memory.query({ prefix: 'db', contextMatch: { requestId: 'r-42' } })
+   * memory.query({ text: /timeout/i, minLevel: LogLevel.ERROR })
+   * ```
+   */
+  query(filter: MemoryLogQuery = {}): MemoryLogEntry[] {
+    return this.snapshot().filter(entry => matchesQuery(entry, filter));
+  }
+
+  /**
+   * Drain the buffer into another transport and flush it
+   */
+  private async dump(target: Transport): Promise<void> {
+    const entries = this.drain();
+    this.dumps++;
+
+    const extendedTarget = target as Transport & {
+      safeWrite?: (msg: string, meta: LogMetadata) => Promise<void>;
+    };
+    try {
+      for (const { message, metadata } of entries) {
+        await (extendedTarget.safeWrite
+          ? extendedTarget.safeWrite(message, metadata)
+          : target.write(message, metadata));
+      }
+      await target.flush?.();
+    } catch (error) {
+      if (!this.options.silent) {
+        console.error('MemoryTransport dump error:', error);
+      }
+    }
+  }
+
+  configure(options: Record<string, unknown>): void {
+    super.configure(options);
+
+    if (typeof options.capacity === 'number') {
+      const entries = this.snapshot();
+      this.capacity = normalizeCapacity(options.capacity);
+      this.clear();
+      // Keep the newest entries that still fit
+      for (const entry of entries.slice(-this.capacity)) {
+        this.push(entry);
+      }
+    }
+    if (options.dumpOnFatal && typeof (options.dumpOnFatal as Transport).write === 'function') {
+      this.dumpTarget = options.dumpOnFatal as Transport;
+    }
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      ...super.getStatus(),
+      capacity: this.capacity,
+      size: this.size,
+      overwrittenEntries: this.overwrittenEntries,
+      dumpOnFatal: this.dumpTarget?.name,
+      dumps: this.dumps,
+    };
+  }
+}
+
+function normalizeCapacity(capacity: number): number {
+  return Math.max(1, Math.floor(capacity));
+}
+
+function matchesQuery(entry: MemoryLogEntry, filter: MemoryLogQuery): boolean {
+  const { metadata, message } = entry;
+
+  if (filter.minLevel !== undefined && metadata.level < filter.minLevel) {
+    return false;
+  }
+  if (filter.since !== undefined && metadata.timestamp.getTime() < new Date(filter.since).getTime()) {
+    return false;
+  }
+  if (filter.prefix !== undefined && !metadata.prefix?.includes(filter.prefix)) {
+    return false;
+  }
+  if (filter.contextMatch) {
+    const context = metadata.context ?? {};
+    for (const [key, value] of Object.entries(filter.contextMatch)) {
+      if (context[key] !== value) {
+        return false;
+      }
+    }
+  }
+  if (filter.text !== undefined) {
+    if (typeof filter.text === 'string') {
+      return message.includes(filter.text);
+    }
+    // Reset lastIndex so global patterns match every entry
+    filter.text.lastIndex = 0;
+    return filter.text.test(message);
+  }
+
+  return true;
+}
@@ -0,0 +1,203 @@
+/**
+ * Stream transport for writing logs to any Node.js Writable
+ * Respects backpressure: lines wait in memory until the stream drains
+ */
+
+import { BaseTransport } from './transport.interface';
+import type { LogMetadata, StreamTransportOptions, WritableLogStream } from '@/types/transport.types';
+
+/**
+ * Transport that writes log lines to a Writable stream
+ *
+ * Once `stream.write()` returns false, new lines are queued until the
+ * stream emits `'drain'` (dropped and counted beyond `maxQueueSize`
+ * bytes). `close()` writes whatever is queued, ends the stream and waits
+ * for `'finish'`.
+ *
+ * @example
+ * ```typescript
+ * // Keep stdout clean for a CLI's actual output
+ * new StreamTransport({ stream: process.stderr })
+ *
+ * // Compressed log file
+ * const gzip = zlib.createGzip();
+ * gzip.pipe(fs.createWriteStream('app.log.gz'));
+ * new StreamTransport({ stream: gzip, formatter: jsonFormatter })
+ * ```
+ */
+export class StreamTransport extends BaseTransport {
+  readonly name = 'stream';
+
+  private stream: WritableLogStream;
+  private eol: string;
+  private end: boolean;
+  private maxQueueSize: number;
+
+  private queue: string[] = [];
+  private queuedBytes = 0;
+  private waitingForDrain = false;
+  private drainEvents = 0;
+  private droppedLines = 0;
+  private flushWaiters: Array<() => void> = [];
+
+  constructor(options: StreamTransportOptions) {
+    super(options);
+
+    this.stream = options.stream;
+    this.eol = options.eol ?? '\n';
+    this.end = options.end ?? !isStandardStream(options.stream);
+    this.maxQueueSize = options.maxQueueSize ?? 16 * 1024 * 1024;
+
+    // Without a listener a stream error would crash the process
+    this.stream.on('error', (error: Error) => {
+      if (!this.options.silent) {
+        console.error('StreamTransport error:', error);
+      }
+    });
+    // Nothing will drain a closed stream, so don't keep flush() waiting
+    this.stream.on('close', () => {
+      this.queue = [];
+      this.queuedBytes = 0;
+      this.waitingForDrain = false;
+      this.resolveFlushWaiters();
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  write(formattedMessage: string, _metadata: LogMetadata): void {
+    if (!this.stream.writable) {
+      return;
+    }
+
+    const line = `${formattedMessage}${this.eol}`;
+
+    if (this.waitingForDrain) {
+      this.enqueue(line);
+      return;
+    }
+
+    if (!this.stream.write(line)) {
+      this.waitForDrain();
+    }
+  }
+
+  /**
+   * Queue a line until the stream drains
+   */
+  private enqueue(line: string): void {
+    const bytes = Buffer.byteLength(line);
+
+    if (this.queuedBytes + bytes > this.maxQueueSize) {
+      this.droppedLines++;
+      if (this.droppedLines === 1 && !this.options.silent) {
+        console.error('StreamTransport buffer full, dropping log lines');
+      }
+      return;
+    }
+
+    this.queue.push(line);
+    this.queuedBytes += bytes;
+  }
+
+  private waitForDrain(): void {
+    this.waitingForDrain = true;
+    this.stream.once('drain', () => {
+      this.waitingForDrain = false;
+      this.drainEvents++;
+      this.writeQueue();
+    });
+  }
+
+  /**
+   * Write queued lines until the stream pushes back again
+   */
+  private writeQueue(): void {
+    while (this.queue.length > 0 && !this.waitingForDrain) {
+      const line = this.queue.shift() as string;
+      this.queuedBytes -= Buffer.byteLength(line);
+      if (!this.stream.write(line)) {
+        this.waitForDrain();
+      }
+    }
+
+    if (!this.waitingForDrain) {
+      this.resolveFlushWaiters();
+    }
+  }
+
+  private resolveFlushWaiters(): void {
+    const waiters = this.flushWaiters;
+    this.flushWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  /**
+   * Wait until every queued line has been handed to the stream
+   */
+  async flush(): Promise<void> {
+    if (!this.waitingForDrain) {
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      this.flushWaiters.push(resolve);
+    });
+  }
+
+  /**
+   * Write queued lines, then end the stream and wait for 'finish'
+   * Streams that shouldn't be ended (see the `end` option) are only flushed.
+   */
+  async close(): Promise<void> {
+    await this.flush();
+
+    if (!this.end || this.stream.writableFinished || this.stream.destroyed) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      this.stream.once('finish', resolve);
+      // An error while finishing is reported by the error listener
+      this.stream.once('error', () => resolve());
+      this.stream.end();
+    });
+  }
+
+  configure(options: Record<string, unknown>): void {
+    super.configure(options);
+
+    if (typeof options.eol === 'string') {
+      this.eol = options.eol;
+    }
+    if (typeof options.end === 'boolean') {
+      this.end = options.end;
+    }
+    if (typeof options.maxQueueSize === 'number') {
+      this.maxQueueSize = options.maxQueueSize;
+    }
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      ...super.getStatus(),
+      eol: this.eol.replaceAll('\r', String.raw`\r`).replaceAll('\n', String.raw`\n`),
+      end: this.end,
+      writable: this.stream.writable,
+      waitingForDrain: this.waitingForDrain,
+      drainEvents: this.drainEvents,
+      queuedLines: this.queue.length,
+      queuedBytes: this.queuedBytes,
+      maxQueueSize: this.maxQueueSize,
+      droppedLines: this.droppedLines,
+    };
+  }
+}
+
+/**
+ * process.stdout and process.stderr can't be ended
+ */
+function isStandardStream(stream: WritableLogStream): boolean {
+  return typeof process !== 'undefined' &&
+    ((stream as unknown) === process.stdout || (stream as unknown) === process.stderr);
+}
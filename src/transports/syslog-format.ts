@@ -0,0 +1,167 @@
+/**
+ * Syslog message formatting for SyslogTransport
+ * Builds RFC 5424 and RFC 3164 messages from log levels, context and text
+ */
+
+import { LogLevel, ColorLevel, type LogLevelType } from '@/types/core.types';
+import type { LogRecord, RecordFormatter, SyslogFacility } from '@/types/transport.types';
+import { formatCompleteLog } from '@formatters/logger-formatting';
+
+const FACILITY_CODES: Record<SyslogFacility, number> = {
+  'kern': 0,
+  'user': 1,
+  'mail': 2,
+  'daemon': 3,
+  'auth': 4,
+  'syslog': 5,
+  'lpr': 6,
+  'news': 7,
+  'uucp': 8,
+  'cron': 9,
+  'authpriv': 10,
+  'ftp': 11,
+  'ntp': 12,
+  'security': 13,
+  'console': 14,
+  'solaris-cron': 15,
+  'local0': 16,
+  'local1': 17,
+  'local2': 18,
+  'local3': 19,
+  'local4': 20,
+  'local5': 21,
+  'local6': 22,
+  'local7': 23,
+};
+
+/**
+ * Syslog severity for each log level
+ * HIGHLIGHT is worth noticing but not a problem, so it maps to notice.
+ */
+const SEVERITIES: Record<LogLevelType, number> = {
+  [LogLevel.DEBUG]: 7, // debug
+  [LogLevel.INFO]: 6, // info
+  [LogLevel.WARN]: 4, // warning
+  [LogLevel.ERROR]: 3, // err
+  [LogLevel.HIGHLIGHT]: 5, // notice
+  [LogLevel.FATAL]: 2, // crit
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Fields shared by both syslog formats
+ */
+export interface SyslogMessageFields {
+  level: LogLevelType;
+  timestamp: Date;
+  facility: SyslogFacility | number;
+  hostname: string;
+  appName: string;
+  procId: number | string;
+  message: string;
+}
+
+/**
+ * Default message text: the log call without timestamp, colors or context,
+ * since syslog carries those itself
+ */
+export const syslogMessageFormatter: RecordFormatter = (record: LogRecord): string => {
+  return formatCompleteLog(record.level, record.messages, {
+    colorLevel: ColorLevel.NONE,
+    timestamped: false,
+    compactObjects: true,
+    redaction: false,
+    prefix: record.prefix,
+  });
+};
+
+/**
+ * Get the syslog severity code for a log level
+ */
+export function getSyslogSeverity(level: LogLevelType): number {
+  return SEVERITIES[level] ?? 6;
+}
+
+/**
+ * Get the facility code for a facility name or code
+ */
+export function getFacilityCode(facility: SyslogFacility | number): number {
+  return typeof facility === 'number' ? facility : FACILITY_CODES[facility];
+}
+
+/**
+ * Get the PRI part value (facility * 8 + severity)
+ */
+export function getPriority(facility: SyslogFacility | number, level: LogLevelType): number {
+  return getFacilityCode(facility) * 8 + getSyslogSeverity(level);
+}
+
+/**
+ * Keep printable US-ASCII for header fields, '-' when empty (NILVALUE)
+ */
+function headerField(value: string, maxLength: number): string {
+  const printable = value.replaceAll(/[^!-~]/g, '').slice(0, maxLength);
+  return printable || '-';
+}
+
+/**
+ * Build RFC 5424 structured data from context
+ * Non-string values are JSON encoded; names are reduced to allowed characters.
+ * @returns SD element, or '-' without context
+ */
+export function formatStructuredData(
+  sdId: string,
+  context: Record<string, unknown> | undefined,
+): string {
+  const params = Object.entries(context ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const name = key.replaceAll(/[^!-~]|[=\]"]/g, '_').slice(0, 32);
+      const text = typeof value === 'string' ? value : safeStringify(value);
+      return `${name}="${text.replaceAll(/["\\\]]/g, String.raw`\$&`)}"`;
+    });
+
+  return params.length > 0 ? `[${sdId} ${params.join(' ')}]` : '-';
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Build an RFC 5424 message
+ * `<PRI>1 TIMESTAMP HOSTNAME APP-NAME PROCID MSGID STRUCTURED-DATA MSG`
+ */
+export function formatRfc5424(fields: SyslogMessageFields, structuredData = '-'): string {
+  const header = [
+    `<${getPriority(fields.facility, fields.level)}>1`,
+    fields.timestamp.toISOString(),
+    headerField(fields.hostname, 255),
+    headerField(fields.appName, 48),
+    headerField(String(fields.procId), 128),
+    '-',
+    structuredData,
+  ].join(' ');
+
+  return fields.message ? `${header} ${fields.message}` : header;
+}
+
+/**
+ * Build an RFC 3164 message
+ * `<PRI>Mmm dd hh:mm:ss HOSTNAME TAG[PID]: MSG`, with local time
+ */
+export function formatRfc3164(fields: SyslogMessageFields): string {
+  const time = fields.timestamp;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const timestamp = `${MONTHS[time.getMonth()]} ${String(time.getDate()).padStart(2, ' ')} ` +
+    `${pad(time.getHours())}:${pad(time.getMinutes())}:${pad(time.getSeconds())}`;
+  const tag = headerField(fields.appName, 32);
+
+  return `<${getPriority(fields.facility, fields.level)}>${timestamp} ${headerField(fields.hostname, 255)} ` +
+    `${tag}[${fields.procId}]: ${fields.message}`;
+}
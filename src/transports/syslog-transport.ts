@@ -0,0 +1,500 @@
+/**
+ * Syslog transport for sending logs to a syslog daemon in Node.js environments
+ * RFC 5424 or RFC 3164 messages over UDP, TCP or a Unix domain socket
+ * (datagram sockets such as `/dev/log` through the optional `unix-dgram` package)
+ */
+
+import { BaseTransport } from './transport.interface';
+import type {
+  LogMetadata,
+  SyslogConnectionState,
+  SyslogFacility,
+  SyslogFormat,
+  SyslogProtocol,
+  SyslogTransportOptions,
+  SyslogUnixSocketType,
+} from '@/types/transport.types';
+import { isNodeEnvironment } from '@environment/detection';
+import {
+  formatRfc3164,
+  formatRfc5424,
+  formatStructuredData,
+  syslogMessageFormatter,
+} from './syslog-format';
+import * as dgram from 'node:dgram';
+import * as net from 'node:net';
+import * as os from 'node:os';
+
+/** Longest close() waits for a last connection attempt to deliver buffered messages */
+const CLOSE_DELIVERY_TIMEOUT = 1000;
+
+/**
+ * The parts of a `unix-dgram` socket the transport uses
+ */
+interface UnixDgramSocket {
+  on(event: 'error', listener: (error: Error) => void): void;
+  on(event: 'connect' | 'writable', listener: () => void): void;
+  connect(path: string): void;
+  send(buffer: Buffer, callback: (error?: Error & { code?: unknown }) => void): void;
+  close(): void;
+}
+
+interface UnixDgramModule {
+  createSocket(type: 'unix_dgram'): UnixDgramSocket;
+}
+
+let unixDgramModule: Promise<UnixDgramModule> | undefined;
+
+/**
+ * Load the optional `unix-dgram` package, which Node.js needs for datagram Unix sockets
+ * The specifier is hidden from bundlers, since the package is a native addon.
+ */
+function loadUnixDgram(): Promise<UnixDgramModule> {
+  const specifier = 'unix-dgram';
+  unixDgramModule ??= import(/* @vite-ignore */ specifier).then(
+    (loaded: UnixDgramModule & { default?: UnixDgramModule }) => (
+      typeof loaded.createSocket === 'function' ? loaded : loaded.default as UnixDgramModule
+    ),
+  );
+  return unixDgramModule;
+}
+
+/**
+ * Transport that sends logs to syslog (Node.js only)
+ *
+ * Levels map to syslog severities (HIGHLIGHT is notice, FATAL is crit) and
+ * context becomes RFC 5424 structured data. TCP uses octet-counting
+ * framing. The Unix protocol sends one datagram per message to `/dev/log`
+ * by default, through the optional `unix-dgram` package (Node.js has no
+ * datagram Unix sockets of its own); `unixSocketType: 'stream'` connects a
+ * newline-framed stream socket instead, such as a syslog-ng `unix-stream()`
+ * source.
+ *
+ * TCP and Unix sockets reconnect after they close, buffering up to
+ * `maxBufferSize` messages meanwhile. close() gives buffered messages one
+ * last connection attempt before dropping them.
+ *
+ * @example
+ * ```typescript
+ * new SyslogTransport({
+ *   protocol: 'tcp',
+ *   host: 'logs.internal',
+ *   port: 601,
+ *   facility: 'local0',
+ *   appName: 'billing-api',
+ * })
+ * ```
+ */
+export class SyslogTransport extends BaseTransport {
+  readonly name = 'syslog';
+
+  private protocol: SyslogProtocol;
+  private host: string;
+  private port: number;
+  private path: string;
+  private unixSocketType: SyslogUnixSocketType;
+  private format: SyslogFormat;
+  private facility: SyslogFacility | number;
+  private appName: string;
+  private hostname: string;
+  private structuredDataId: string;
+  private reconnect: boolean;
+  private reconnectDelay: number;
+  private maxReconnectAttempts: number;
+  private maxBufferSize: number;
+
+  private udpSocket?: dgram.Socket;
+  private socket?: net.Socket;
+  private datagramSocket?: UnixDgramSocket;
+  /** The datagram socket's receive buffer is full; messages wait for 'writable' */
+  private congested = false;
+  /** Settles when the current connection attempt succeeds or fails */
+  private connecting?: Promise<void>;
+  private state: SyslogConnectionState = 'disconnected';
+  private reconnectAttempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private messageBuffer: string[] = [];
+  private sentMessages = 0;
+  private droppedMessages = 0;
+
+  constructor(options: SyslogTransportOptions = {}) {
+    super({ ...options, formatter: options.formatter ?? syslogMessageFormatter });
+
+    if (!isNodeEnvironment()) {
+      throw new Error(
+        'SyslogTransport is only available in Node.js environments',
+      );
+    }
+
+    this.protocol = options.protocol ?? 'udp';
+    this.host = options.host ?? 'localhost';
+    this.port = options.port ?? 514;
+    this.path = options.path ?? '/dev/log';
+    this.unixSocketType = options.unixSocketType ?? 'dgram';
+    this.format = options.format ?? 'rfc5424';
+    this.facility = options.facility ?? 'user';
+    this.appName = options.appName ?? process.title;
+    this.hostname = options.hostname ?? os.hostname();
+    this.structuredDataId = options.structuredDataId ?? 'context@32473';
+    this.reconnect = options.reconnect ?? true;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 10;
+    this.maxBufferSize = options.maxBufferSize ?? 1000;
+
+    this.connect();
+  }
+
+  private connect(): void {
+    if (this.protocol === 'udp') {
+      this.connectUdp();
+      return;
+    }
+    if (this.state === 'connecting' || this.state === 'connected') {
+      return;
+    }
+
+    this.state = 'connecting';
+    if (this.protocol === 'unix' && this.unixSocketType === 'dgram') {
+      this.connecting = this.connectDatagram();
+      return;
+    }
+
+    const socket = this.protocol === 'tcp'
+      ? net.createConnection({ host: this.host, port: this.port })
+      : net.createConnection({ path: this.path });
+    this.socket = socket;
+    this.connecting = new Promise((resolve) => {
+      socket.once('connect', resolve);
+      socket.once('close', () => resolve());
+    });
+
+    socket.on('connect', () => {
+      this.onConnected();
+    });
+
+    socket.on('error', (error: Error) => {
+      this.reportError(error);
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = undefined;
+      this.onDisconnected();
+    });
+  }
+
+  /**
+   * Open a datagram Unix socket, e.g. `/dev/log`
+   */
+  private async connectDatagram(): Promise<void> {
+    let unixDgram: UnixDgramModule;
+    try {
+      unixDgram = await loadUnixDgram();
+    } catch {
+      this.state = 'error';
+      this.reportError(new Error(
+        'SyslogTransport: datagram Unix sockets need the optional "unix-dgram" package; install it or set unixSocketType: \'stream\'',
+      ));
+      return;
+    }
+    // close() ran while the package loaded
+    if (this.state !== 'connecting') {
+      return;
+    }
+
+    const socket = unixDgram.createSocket('unix_dgram');
+    this.datagramSocket = socket;
+    socket.on('connect', () => {
+      this.onConnected();
+    });
+    socket.on('writable', () => {
+      this.congested = false;
+      this.flushBuffer();
+    });
+    socket.on('error', (error: Error) => {
+      this.reportError(error);
+      this.closeDatagramSocket(socket);
+    });
+    socket.connect(this.path);
+  }
+
+  /**
+   * Close a datagram socket after an error and reconnect
+   */
+  private closeDatagramSocket(socket: UnixDgramSocket): void {
+    if (this.datagramSocket !== socket) {
+      return;
+    }
+    this.datagramSocket = undefined;
+    this.congested = false;
+    socket.close();
+    this.onDisconnected();
+  }
+
+  private onConnected(): void {
+    this.state = 'connected';
+    this.reconnectAttempts = 0;
+    this.flushBuffer();
+  }
+
+  private onDisconnected(): void {
+    this.state = 'disconnected';
+
+    if (this.reconnect && this.reconnectAttempts < this.maxReconnectAttempts) {
+      this.scheduleReconnect();
+    } else if (this.reconnect) {
+      this.state = 'error';
+      if (!this.options.silent) {
+        console.error('SyslogTransport: Max reconnection attempts reached');
+      }
+    }
+  }
+
+  private reportError(error: Error): void {
+    if (!this.options.silent) {
+      console.error('SyslogTransport error:', error);
+    }
+  }
+
+  private connectUdp(): void {
+    const family = net.isIPv6(this.host) ? 'udp6' : 'udp4';
+    this.udpSocket = dgram.createSocket(family);
+    this.udpSocket.on('error', (error: Error) => {
+      if (!this.options.silent) {
+        console.error('SyslogTransport error:', error);
+      }
+    });
+    // Don't keep the process alive just for the socket
+    this.udpSocket.unref();
+    this.state = 'connected';
+  }
+
+  private scheduleReconnect(): void {
+    this.state = 'reconnecting';
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, this.reconnectDelay * this.reconnectAttempts);
+    this.reconnectTimer.unref?.();
+  }
+
+  write(formattedMessage: string, metadata: LogMetadata): void {
+    if (!isNodeEnvironment()) {
+      return;
+    }
+
+    const fields = {
+      level: metadata.level,
+      timestamp: metadata.timestamp,
+      facility: this.facility,
+      hostname: this.hostname,
+      appName: this.appName,
+      procId: process.pid,
+      message: formattedMessage,
+    };
+    const message = this.format === 'rfc3164'
+      ? formatRfc3164(fields)
+      : formatRfc5424(fields, formatStructuredData(this.structuredDataId, metadata.context));
+
+    this.send(message);
+  }
+
+  private send(message: string): void {
+    if (this.state !== 'connected' || this.congested) {
+      this.bufferMessage(message);
+      return;
+    }
+
+    if (this.udpSocket) {
+      this.udpSocket.send(message, this.port, this.host);
+    } else if (this.socket) {
+      this.socket.write(this.frame(message));
+    } else if (this.datagramSocket) {
+      this.sendDatagram(this.datagramSocket, message);
+      return;
+    }
+    this.sentMessages++;
+  }
+
+  /**
+   * Send one message as one datagram
+   * A full receive buffer keeps the message until the socket is writable
+   * again; other failures (the daemon went away) reconnect.
+   */
+  private sendDatagram(socket: UnixDgramSocket, message: string): void {
+    let failure: (Error & { code?: unknown }) | undefined;
+    // unix-dgram calls back synchronously
+    socket.send(Buffer.from(message), (error) => {
+      failure = error;
+    });
+
+    if (!failure) {
+      this.sentMessages++;
+      return;
+    }
+
+    this.bufferMessage(message);
+    if (failure.code === 1) {
+      this.congested = true;
+      return;
+    }
+    this.reportError(failure);
+    this.closeDatagramSocket(socket);
+  }
+
+  /**
+   * Octet counting for TCP (RFC 6587), a trailing newline for Unix stream sockets
+   */
+  private frame(message: string): string {
+    return this.protocol === 'tcp'
+      ? `${Buffer.byteLength(message)} ${message}`
+      : `${message}\n`;
+  }
+
+  private bufferMessage(message: string): void {
+    if (this.messageBuffer.length < this.maxBufferSize) {
+      this.messageBuffer.push(message);
+      return;
+    }
+
+    this.droppedMessages++;
+    if (!this.options.silent) {
+      console.warn('SyslogTransport: Buffer overflow, dropping message');
+    }
+  }
+
+  private flushBuffer(): void {
+    const buffered = this.messageBuffer;
+    this.messageBuffer = [];
+    for (const message of buffered) {
+      this.send(message);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.reconnect = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    if (this.messageBuffer.length > 0) {
+      await this.deliverBuffered();
+    }
+    if (this.messageBuffer.length > 0) {
+      this.droppedMessages += this.messageBuffer.length;
+      if (!this.options.silent) {
+        console.warn(`SyslogTransport: Dropping ${this.messageBuffer.length} undelivered messages on close`);
+      }
+    }
+
+    const { socket, udpSocket, datagramSocket } = this;
+    const connected = this.state === 'connected';
+    this.socket = undefined;
+    this.udpSocket = undefined;
+    this.datagramSocket = undefined;
+    this.congested = false;
+    this.state = 'disconnected';
+    this.messageBuffer = [];
+
+    datagramSocket?.close();
+
+    if (socket && !socket.destroyed) {
+      await new Promise<void>((resolve) => {
+        socket.once('close', () => resolve());
+        // Let written messages go out first, unless the socket never connected
+        if (connected) {
+          socket.end(() => socket.destroy());
+        } else {
+          socket.destroy();
+        }
+      });
+    }
+    if (udpSocket) {
+      await new Promise<void>((resolve) => {
+        udpSocket.close(() => resolve());
+      });
+    }
+  }
+
+  /**
+   * Give buffered messages one last connection attempt, bounded by CLOSE_DELIVERY_TIMEOUT
+   */
+  private async deliverBuffered(): Promise<void> {
+    this.connect();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, CLOSE_DELIVERY_TIMEOUT);
+    });
+    const writable = new Promise<void>((resolve) => {
+      this.datagramSocket?.on('writable', resolve);
+    });
+
+    await Promise.race([this.connecting, timeout]);
+    if (this.congested) {
+      await Promise.race([writable, timeout]);
+    }
+    clearTimeout(timer);
+  }
+
+  configure(options: Record<string, unknown>): void {
+    super.configure(options);
+
+    if (options.format === 'rfc5424' || options.format === 'rfc3164') {
+      this.format = options.format;
+    }
+    if (typeof options.facility === 'string' || typeof options.facility === 'number') {
+      this.facility = options.facility as SyslogFacility | number;
+    }
+    if (typeof options.appName === 'string') {
+      this.appName = options.appName;
+    }
+    if (typeof options.hostname === 'string') {
+      this.hostname = options.hostname;
+    }
+    if (typeof options.structuredDataId === 'string') {
+      this.structuredDataId = options.structuredDataId;
+    }
+    if (typeof options.reconnect === 'boolean') {
+      this.reconnect = options.reconnect;
+    }
+    if (typeof options.reconnectDelay === 'number') {
+      this.reconnectDelay = options.reconnectDelay;
+    }
+    if (typeof options.maxReconnectAttempts === 'number') {
+      this.maxReconnectAttempts = options.maxReconnectAttempts;
+    }
+    if (typeof options.maxBufferSize === 'number') {
+      this.maxBufferSize = options.maxBufferSize;
+    }
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {
+      ...super.getStatus(),
+      protocol: this.protocol,
+      target: this.protocol === 'unix' ? this.path : `${this.host}:${this.port}`,
+      ...(this.protocol === 'unix' && { unixSocketType: this.unixSocketType }),
+      format: this.format,
+      facility: this.facility,
+      appName: this.appName,
+      hostname: this.hostname,
+      state: this.state,
+      reconnectAttempts: this.reconnectAttempts,
+      maxReconnectAttempts: this.maxReconnectAttempts,
+      bufferSize: this.messageBuffer.length,
+      maxBufferSize: this.maxBufferSize,
+      reconnect: this.reconnect,
+      sentMessages: this.sentMessages,
+      droppedMessages: this.droppedMessages,
+      environment: 'node',
+      nodeEnvironment: isNodeEnvironment(),
+    };
+  }
+}
@@ -9,7 +9,14 @@
  */
 
 import type { LogLevelType } from '@/types/core.types';
-import type { LogMetadata, TransportOptions, Transport } from '@/types/transport.types';
+import type { LogMetadata, LogRecord, TransportOptions, Transport } from '@/types/transport.types';
+
+/**
+ * Check whether transport metadata carries the full log record
+ */
+export function isLogRecord(metadata: LogMetadata): metadata is LogRecord {
+  return Array.isArray((metadata as Partial<LogRecord>).messages);
+}
 
 /**
  * Base transport class with common functionality
@@ -47,19 +54,33 @@ export abstract class BaseTransport implements Transport {
   }
 
   /**
-   * Write with filtering and error handling
+   * Render the message with this transport's formatter when a full record is available
+   */
+  protected formatMessage(formattedMessage: string, metadata: LogMetadata): string {
+    const { formatter } = this.options;
+    return formatter && isLogRecord(metadata) ? formatter(metadata) : formattedMessage;
+  }
+
+  /**
+   * Write with filtering, per-transport formatting and error handling
+   * @param onError Called with a write error after it has been handled
    */
-  async safeWrite(formattedMessage: string, metadata: LogMetadata): Promise<void> {
+  async safeWrite(
+    formattedMessage: string,
+    metadata: LogMetadata,
+    onError?: (error: unknown) => void,
+  ): Promise<void> {
     if (!this.shouldWrite(metadata.level, formattedMessage, metadata)) {
       return;
     }
 
     try {
-      await this.write(formattedMessage, metadata);
+      await this.write(this.formatMessage(formattedMessage, metadata), metadata);
     } catch (error) {
       if (!this.options.silent) {
         console.error(`Transport "${this.name}" error:`, error);
       }
+      onError?.(error);
     }
   }
 
@@ -12,6 +12,9 @@ export {
   ColorLevel,
   type LogLevelType,
   type ColorLevelType,
+  type LogFormat,
+  type ConsoleObjects,
+  type CallerCapture,
 } from './types/core.types';
 
 // Logger configuration types
@@ -19,21 +22,54 @@ export type {
   LoggerOptions,
   PerCallOptions,
   CallableLogger,
+  ShutdownHook,
+  LogProcessor,
+  Serializers,
+  SamplingOptions,
+  ObjectInspectOptions,
+  DedupeOptions,
+  TypeSerializer,
 } from './types/logger.types';
 
 // Transport system types
 export type {
   Transport,
   LogMetadata,
+  LogRecord,
+  RepeatInfo,
+  RecordFormatter,
   TransportOptions,
   ConsoleTransportOptions,
   FileTransportOptions,
+  RotationInterval,
+  StreamTransportOptions,
+  WritableLogStream,
+  MemoryTransportOptions,
+  MemoryLogEntry,
+  MemoryLogQuery,
+  IndexedDBTransportOptions,
+  IndexedDBTransportState,
+  IndexedDBExportOptions,
+  BeaconTransportOptions,
+  BeaconTransportMode,
+  HttpTransportOptions,
+  HttpBodyFormat,
+  HttpOverflowStrategy,
+  SyslogTransportOptions,
+  SyslogFormat,
+  SyslogProtocol,
+  SyslogUnixSocketType,
+  SyslogFacility,
+  SyslogConnectionState,
 } from './types/transport.types';
 
 // Security/redaction types
 export type {
+  CensorStrategy,
+  KeyMatchMode,
   RedactionConfig,
   RedactionOption,
+  ValuePatternName,
 } from './types/redaction.types';
 
 // Plugin system types
@@ -43,6 +43,34 @@ export enum ColorLevel {
 
 export type ColorLevelType = (typeof ColorLevel)[keyof typeof ColorLevel];
 
+/**
+ * Output format for complete log lines
+ *
+ * - pretty: Human-readable output with colors, symbols and compact objects
+ * - json: One machine-readable JSON object per line for log shippers
+ */
+export type LogFormat = 'pretty' | 'json';
+
+/**
+ * How object arguments are rendered in pretty output
+ *
+ * - format: Loggical's own object formatting (compact or expanded)
+ * - args: The console transport passes objects to console.* as separate
+ *   arguments, so Node.js renders them itself
+ * - inspect: Objects are rendered with util.inspect and the logger's
+ *   inspectOptions (Node.js only, other environments use 'format')
+ */
+export type ConsoleObjects = 'format' | 'args' | 'inspect';
+
+/**
+ * When to capture the caller's stack trace for a log call
+ *
+ * - always: Every enabled log call (default)
+ * - errors: Only ERROR and above
+ * - never: Never, the cheapest option for hot paths
+ */
+export type CallerCapture = 'always' | 'errors' | 'never';
+
 /**
  * Mapping from log level numeric values to their string names
  *
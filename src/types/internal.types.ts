@@ -13,9 +13,10 @@ import type { LoggerOptions } from './logger.types';
  * This type represents the result of merging with default configuration
  */
 export type NormalizedLoggerOptions = Required<
-  Omit<LoggerOptions, 'prefix' | 'transports' | 'preset'>
+  Omit<LoggerOptions, 'prefix' | 'transports' | 'preset' | 'onFatal'>
 > & {
   prefix?: string | string[];
   transports?: Transport[];
   preset?: 'standard' | 'compact' | 'readable' | 'server';
+  onFatal?: () => void;
 };
@@ -4,8 +4,14 @@
  * These types define the configuration options for Logger instances.
  */
 
-import type { LogLevelType, ColorLevelType } from './core.types';
-import type { Transport } from './transport.types';
+import type {
+  LogLevelType,
+  ColorLevelType,
+  LogFormat,
+  CallerCapture,
+  ConsoleObjects,
+} from './core.types';
+import type { LogRecord, Transport } from './transport.types';
 import type { RedactionOption } from './redaction.types';
 import type { Plugin } from './plugin.types';
 
@@ -23,6 +29,16 @@ export interface LoggerOptions {
   prefix?: string | string[];
   minLevel?: LogLevelType;
 
+  // Output format - 'json' emits one machine-readable record per line
+  format?: LogFormat;
+
+  // Stack trace capture for caller info - skipping it makes logging cheaper
+  captureCaller?: CallerCapture;
+  // Lazy messages - functions without parameters passed as messages are
+  // called only when the call is written: logger.debug(() => dump()).
+  // Off by default so logged callbacks aren't run; lazy() works either way.
+  lazyMessages?: boolean;
+
   // Advanced formatting options
   colorLevel?: ColorLevelType;
   timestamped?: boolean;
@@ -32,12 +48,196 @@ export interface LoggerOptions {
   useSymbols?: boolean;
   showSeparators?: boolean;
   spaceMessages?: boolean;
+  // Object rendering - 'args' hands objects to console.* (Node.js renders
+  // Maps, Sets, class instances...), 'inspect' uses util.inspect with inspectOptions
+  consoleObjects?: ConsoleObjects;
+  inspectOptions?: ObjectInspectOptions;
+  // Serializers for named values - context keys and top-level keys of object
+  // arguments (and Error arguments for 'err'), like pino's { req, res, err }
+  serializers?: Serializers;
   redaction?: RedactionOption;
+  // Sampling and rate limiting for hot paths - suppressed calls are
+  // dropped before any formatting and reported in periodic summaries
+  sampling?: SamplingOptions;
+  // Duplicate collapsing - repeats of the same line are held back and
+  // written as one line with a repeat count
+  dedupe?: boolean | DedupeOptions;
+  // Fatal shutdown - with fatalExitsProcess, fatal() closes transports, runs
+  // shutdown hooks and exits with fatalExitCode (Node.js). Browsers can't exit,
+  // so they call onFatal instead (a no-op when not set).
   fatalExitsProcess?: boolean;
+  fatalExitCode?: number;
+  fatalExitTimeout?: number;
+  onFatal?: () => void;
   transports?: Transport[];
   plugins?: Plugin[];
+
+  // Record pipeline - processors run in order between level filtering and formatting
+  processors?: LogProcessor[];
+}
+
+/**
+ * Serializers for named values, keyed by context or argument key
+ *
+ * A serializer replaces the value under its key with what it returns.
+ * It applies to context keys and to the top-level keys of object
+ * arguments; `err` also applies to Error arguments.
+ *
+ * @example
+ * ```typescript
+ * const logger = createLogger({
+ *   serializers: {
+ *     req: (req: IncomingMessage) => ({ method: req.method, url: req.url }),
+ *     user: (user: User) => ({ id: user.id }),
+ *   },
+ * });
+ * logger.info('Request', { req, user });
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Serializers = Record<string, (value: any) => unknown>;
+
+/**
+ * Options passed to Node.js util.inspect when consoleObjects is 'inspect'
+ *
+ * A subset of util.InspectOptions, declared here so the public types
+ * don't depend on @types/node.
+ */
+export interface ObjectInspectOptions {
+  /** Levels of nesting to expand (null for unlimited) */
+  depth?: number | null;
+  /** Include non-enumerable properties and symbols */
+  showHidden?: boolean;
+  /** Style output with ANSI colors (set from colorLevel by default) */
+  colors?: boolean;
+  /** Call [util.inspect.custom] methods */
+  customInspect?: boolean;
+  /** Show Proxy targets and handlers */
+  showProxy?: boolean;
+  /** Array, Set and Map entries shown before "... more items" (null for all) */
+  maxArrayLength?: number | null;
+  /** Characters shown before "... more characters" (null for all) */
+  maxStringLength?: number | null;
+  /** Line length at which entries are split over lines */
+  breakLength?: number;
+  /** Inner levels combined on one line (false puts every property on its own line) */
+  compact?: boolean | number;
+  /** Sort object keys, Set and Map entries */
+  sorted?: boolean | ((a: string, b: string) => number);
+  /** Run getters ('get' or 'set' for only those with or without a setter) */
+  getters?: boolean | 'get' | 'set';
+  /** Group digits of numbers and bigints with underscores */
+  numericSeparator?: boolean;
+}
+
+/**
+ * Sampling and rate limiting options
+ *
+ * Each enabled rule must let a log call through for it to be written.
+ * FATAL calls are never sampled. Suppressed calls are counted and reported
+ * in a summary ("Suppressed 1,234 similar messages") at most once per
+ * `summaryInterval`.
+ *
+ * @example
+ * ```typescript
+ * const logger = createLogger({
+ *   sampling: {
+ *     rates: { [LogLevel.DEBUG]: 0.1 },  // Keep 10% of DEBUG calls
+ *     first: 100,                        // Per message template and second:
+ *     thereafter: 50,                    // the first 100 calls, then 1 in 50
+ *     rateLimit: 200,                    // At most 200 calls per second per prefix
+ *   },
+ * });
+ * ```
+ */
+export interface SamplingOptions {
+  /** Fraction of calls kept per level, from 0 to 1 */
+  rates?: Partial<Record<LogLevelType, number>>;
+  /** Calls with the same message template kept per interval before `thereafter` applies */
+  first?: number;
+  /** After the first calls, keep 1 in this many per message template (0 drops the rest) */
+  thereafter?: number;
+  /** Window for the per-template counts in milliseconds (default 1000) */
+  interval?: number;
+  /** Sustained calls per second allowed per prefix (token bucket) */
+  rateLimit?: number;
+  /** Calls allowed in a burst per prefix (default `rateLimit`) */
+  burst?: number;
+  /** Minimum milliseconds between suppression summaries, 0 for none (default 60000) */
+  summaryInterval?: number;
+}
+
+/**
+ * Duplicate collapsing options
+ *
+ * Log calls with the same level, prefix and messages are repeats. The
+ * first one is written; repeats are held back and written as one line
+ * ("Repeated 1,234 times from ... to ...") with the first and last
+ * timestamps once the run ends or the window timer fires.
+ *
+ * @example
+ * ```typescript
+ * const logger = createLogger({
+ *   transports: [new ConsoleTransport(), new FileTransport({ filename: 'app.log' })],
+ *   dedupe: { mode: 'window', window: 10000, transports: ['console'] }, // the file keeps every line
+ * });
+ * ```
+ */
+export interface DedupeOptions {
+  /**
+   * - consecutive: Repeats immediately following each other (default)
+   * - window: Repeats anywhere within `window` of the first occurrence
+   */
+  mode?: 'consecutive' | 'window';
+  /** Longest time repeats are held before their summary is written, in milliseconds (default 5000) */
+  window?: number;
+  /** Names of the transports that get collapsed output; the others get every line (default all) */
+  transports?: string[];
+}
+
+/**
+ * Rule that turns values of one type into plain, JSON-friendly data
+ *
+ * @example
+ * ```typescript
+ * registerTypeSerializer({
+ *   name: 'money',
+ *   test: value => value instanceof Money,
+ *   serialize: (value: Money) => `${value.amount} ${value.currency}`,
+ * });
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface TypeSerializer<T = any> {
+  /** Unique name, used to replace or unregister the serializer */
+  name: string;
+  /** Check if this serializer handles the value */
+  test: (value: unknown) => boolean;
+  /** Plain data to log instead of the value */
+  serialize: (value: T) => unknown;
 }
 
+/**
+ * Processor in a logger's record pipeline
+ *
+ * Runs after level filtering and before formatting. Mutate the record or
+ * return nothing to continue with it, return a new record to replace it,
+ * or return null to drop the log call.
+ *
+ * @example
+ * ```typescript
+ * logger.use((record) => {
+ *   record.context = { ...record.context, hostname: os.hostname() };
+ * });
+ * ```
+ */
+export type LogProcessor = (record: LogRecord) => LogRecord | null | void;
+
+/**
+ * Hook run before the process exits after a fatal log
+ */
+export type ShutdownHook = () => Promise<void> | void;
+
 /**
  * Options that can be overridden on a per-call basis
  *
@@ -128,6 +328,12 @@ export interface CallableLogger {
   /** Get status of all transports */
   getTransportStatus(): Record<string, unknown>[];
 
+  // Record pipeline
+  /** Add a processor to the end of the record pipeline */
+  use(processor: LogProcessor): this;
+  /** Remove a previously added processor */
+  removeProcessor(processor: LogProcessor): this;
+
   // Plugin management
   /** Install a plugin */
   installPlugin(plugin: Plugin): Promise<void>;
@@ -6,6 +6,19 @@
  */
 
 import type { CallableLogger } from './logger.types';
+import type { LogRecord, Transport } from './transport.types';
+
+/**
+ * Where an error reported to a plugin's onError hook came from
+ */
+export interface PluginErrorContext {
+  /** Part of the pipeline that failed */
+  source: 'processor' | 'transport';
+  /** Name of the failing transport, for transport errors */
+  transport?: string;
+  /** Record being processed or written when the error happened */
+  record?: LogRecord;
+}
 
 /**
  * Plugin interface that all plugins must implement
@@ -28,6 +41,54 @@ export interface Plugin {
    * This is called when the plugin is removed or logger is destroyed
    */
   uninstall?(logger: CallableLogger): void | Promise<void>;
+
+  /**
+   * Called for every log call that passes the level check, before processors
+   * Mutate the record in place, or return false to drop the log call.
+   */
+  beforeLog?(record: LogRecord): boolean | void;
+
+  /**
+   * Rewrite the messages of a record before processors and redaction run
+   * Return the new messages, or nothing to keep them as they are.
+   */
+  transformMessages?(messages: unknown[], record: LogRecord): unknown[] | void;
+
+  /**
+   * Redact records in place of the built-in redaction
+   *
+   * While a plugin with this hook is installed, the logger's `redaction`
+   * option is not applied. The hook is called once without a transport
+   * and returns the redacted record that is formatted and written. It is
+   * then called once per transport with the unredacted record: return
+   * nothing to give that transport the shared record, or a record to give
+   * it its own redacted copy, formatted separately. If the hook throws,
+   * the record falls back to the built-in redaction.
+   */
+  redact?(record: LogRecord, transport?: Transport): LogRecord | void;
+
+  /**
+   * Replace the formatted message handed to the transports
+   * Receives the output of the built-in formatter (or of earlier plugins);
+   * return nothing to keep it.
+   */
+  formatRecord?(record: LogRecord, formatted: string): string | void;
+
+  /**
+   * Called once every transport has finished writing the record
+   */
+  afterWrite?(record: LogRecord, formatted: string): void;
+
+  /**
+   * Called when a processor or transport fails
+   */
+  onError?(error: unknown, context: PluginErrorContext): void;
+
+  /**
+   * Called when the logger the plugin was installed on is closed,
+   * before its transports close
+   */
+  onClose?(): void | Promise<void>;
 }
 
 /**
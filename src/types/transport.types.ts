@@ -5,7 +5,7 @@
  * or work with the transport system.
  */
 
-import type { LogLevelType } from './core.types';
+import type { LogFormat, LogLevelType } from './core.types';
 import type { FilteredStackTrace } from '@utils/stack-trace';
 
 /**
@@ -19,8 +19,42 @@ export interface LogMetadata {
   prefix?: string[];
   /** Stack trace information with logging library frames filtered out */
   stackTrace?: FilteredStackTrace;
+  /** Output format of the formatted message */
+  format?: LogFormat;
+  /** Formatted text without object arguments (set when consoleObjects is 'args') */
+  consoleText?: string;
+  /** Set on the summary line of collapsed duplicates */
+  repeat?: RepeatInfo;
 }
 
+/**
+ * Repeats collapsed into one summary line
+ */
+export interface RepeatInfo {
+  /** Number of repeats held back after the first occurrence */
+  count: number;
+  /** Timestamp of the first repeat */
+  first: Date;
+  /** Timestamp of the last repeat */
+  last: Date;
+}
+
+/**
+ * Structured log record passed to transports as their metadata
+ *
+ * Carries the raw message arguments so each transport can render
+ * the same log call in its own way (pretty console, JSON file, ...).
+ */
+export interface LogRecord extends LogMetadata {
+  /** Raw message arguments after redaction */
+  messages: unknown[];
+}
+
+/**
+ * Function that renders a log record into the string a transport writes
+ */
+export type RecordFormatter = (record: LogRecord) => string;
+
 /**
  * Configuration options for transports
  */
@@ -35,6 +69,8 @@ export interface TransportOptions {
   ) => boolean;
   /** Whether this transport should handle errors gracefully */
   silent?: boolean;
+  /** Custom formatter used instead of the logger's formatted message */
+  formatter?: RecordFormatter;
 }
 
 /**
@@ -49,7 +85,7 @@ export interface Transport {
   /**
    * Write a formatted log message to this transport
    * @param formattedMessage The complete formatted log message
-   * @param metadata Additional metadata about the log entry
+   * @param metadata Additional metadata about the log entry (a full LogRecord when called by a logger)
    */
   write(formattedMessage: string, metadata: LogMetadata): Promise<void> | void;
 
@@ -65,6 +101,12 @@ export interface Transport {
    */
   close?(): Promise<void> | void;
 
+  /**
+   * Write out any buffered messages
+   * Transports without internal buffering don't need to implement this
+   */
+  flush?(): Promise<void> | void;
+
   /**
    * Get current configuration/status of this transport
    * Useful for debugging and monitoring
@@ -76,23 +118,302 @@ export interface Transport {
  * Console transport specific options
  */
 export interface ConsoleTransportOptions extends TransportOptions {
-  /** Whether to use console.group for better organization */
+  /** Whether to put context, objects and stack traces in a collapsed console group */
   useGroups?: boolean;
   /** Whether to include stack traces for errors */
   includeStackTrace?: boolean;
+  /** Write every level with console.error, so Node.js sends all output to stderr and stdout stays clean */
+  useStderr?: boolean;
+  /** Style output with %c CSS and pass objects as live arguments, unless a formatter is set (default: true in browsers) */
+  browserStyles?: boolean;
+}
+
+/**
+ * The part of a Node.js Writable that StreamTransport uses
+ *
+ * Declared structurally so the public types don't depend on @types/node.
+ */
+export interface WritableLogStream {
+  readonly writable: boolean;
+  readonly writableFinished: boolean;
+  readonly destroyed: boolean;
+  write(chunk: string): boolean;
+  end(): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  on(event: 'close', listener: () => void): unknown;
+  once(event: 'error', listener: (error: Error) => void): unknown;
+  once(event: 'drain' | 'finish', listener: () => void): unknown;
+}
+
+/**
+ * Stream transport specific options
+ */
+export interface StreamTransportOptions extends TransportOptions {
+  /** Stream to write to, e.g. process.stderr, a child process stdin or a gzip stream */
+  stream: WritableLogStream;
+  /** Line separator (default: '\n') */
+  eol?: string;
+  /** Whether close() ends the stream (default: true, except for process.stdout and process.stderr) */
+  end?: boolean;
+  /** Drop new lines while this many bytes wait for 'drain' (default: 16 MiB) */
+  maxQueueSize?: number;
+}
+
+/**
+ * Memory transport specific options
+ */
+export interface MemoryTransportOptions extends TransportOptions {
+  /** Number of entries kept before the oldest are overwritten (default: 1000) */
+  capacity?: number;
+  /** Transport that receives every buffered entry when a FATAL is logged */
+  dumpOnFatal?: Transport;
+}
+
+/**
+ * Entry kept by MemoryTransport
+ */
+export interface MemoryLogEntry {
+  /** Message as written to the transport */
+  message: string;
+  /** Raw metadata (a full LogRecord when written by a logger) */
+  metadata: LogMetadata;
+}
+
+/**
+ * Filter for MemoryTransport.query(), all given criteria must match
+ */
+export interface MemoryLogQuery {
+  /** Only entries at or above this level */
+  minLevel?: LogLevelType;
+  /** Only entries logged at or after this time */
+  since?: Date | number;
+  /** Only entries whose prefix list contains this prefix */
+  prefix?: string;
+  /** Only entries whose context has these values */
+  contextMatch?: Record<string, unknown>;
+  /** Only entries whose message contains this text or matches this pattern */
+  text?: string | RegExp;
+}
+
+/**
+ * IndexedDB transport specific options
+ */
+export interface IndexedDBTransportOptions extends TransportOptions {
+  /** Database name (default: 'loggical') */
+  dbName?: string;
+  /** Object store name (default: 'logs') */
+  storeName?: string;
+  /** Delete entries older than this many milliseconds (default: 7 days) */
+  maxAge?: number;
+  /** Keep at most this many entries (default: 10000) */
+  maxEntries?: number;
+  /** Keep at most this many bytes of log lines (default: 5 MiB) */
+  maxBytes?: number;
+  /** Write once this many entries are queued (default: 50) */
+  batchSize?: number;
+  /** Write queued entries at least this often in milliseconds (default: 1000) */
+  flushInterval?: number;
+  /** Drop new entries while this many wait to be written (default: 1000) */
+  maxQueueSize?: number;
+  /** IndexedDB factory to use instead of globalThis.indexedDB */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Connection state of an IndexedDB transport
+ */
+export type IndexedDBTransportState = 'opening' | 'ready' | 'unavailable' | 'closed';
+
+/**
+ * Options for IndexedDBTransport.export()
+ */
+export interface IndexedDBExportOptions {
+  /** 'ndjson' returns a string, 'blob' an application/x-ndjson Blob (default: 'ndjson') */
+  format?: 'ndjson' | 'blob';
+  /** Only entries logged at or after this time */
+  since?: Date | number;
+  /** Only entries at or above this level */
+  minLevel?: LogLevelType;
 }
 
 /**
- * File transport specific options (simplified)
+ * Time interval for file rotation
+ */
+export type RotationInterval = 'hourly' | 'daily';
+
+/**
+ * File transport specific options
  */
 export interface FileTransportOptions extends TransportOptions {
-  /** Path to the log file */
+  /** Path to the log file (may contain %Y, %m, %d and %H date tokens) */
   filename: string;
-  /** Whether to append to existing file or overwrite */
+  /** Whether to append to an existing file, or empty it when the transport opens it (default: true) */
   append?: boolean;
   /** Custom line separator (default: OS-specific) */
   eol?: string;
   /** Whether to include timestamps in file output */
   includeTimestamp?: boolean;
+  /** Rotate the file once it would grow beyond this many bytes */
+  maxSize?: number;
+  /** Rotate the file when a new hour or day starts */
+  interval?: RotationInterval;
+  /** Maximum number of rotated files to keep */
+  maxFiles?: number;
+  /** Maximum total size in bytes of rotated files to keep */
+  maxTotalSize?: number;
+  /** Whether to gzip rotated files (default: false) */
+  compress?: boolean;
+  /** Queue lines in memory and write them asynchronously instead of one appendFileSync per line */
+  buffered?: boolean;
+  /** Buffered mode: flush once this many bytes are queued (default: 64 KiB) */
+  bufferSize?: number;
+  /** Buffered mode: flush queued lines at least this often in milliseconds (default: 1000) */
+  flushInterval?: number;
+  /** Buffered mode: drop new lines while this many bytes are queued (default: 16 MiB) */
+  maxQueueSize?: number;
+}
+
+/**
+ * Request body layout for HTTP transport batches
+ * - `json`: a JSON array of log entries
+ * - `ndjson`: one JSON log entry per line
+ */
+export type HttpBodyFormat = 'json' | 'ndjson';
+
+/**
+ * What an HTTP transport does with entries it can't queue or deliver
+ * - `drop`: discard them (they are counted in the status)
+ * - `spill`: append them to `spillFile` as NDJSON (Node.js only)
+ */
+export type HttpOverflowStrategy = 'drop' | 'spill';
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpTransportOptions extends TransportOptions {
+  /** Endpoint that receives the batches */
+  url: string;
+  /** Extra request headers, e.g. authorization (Content-Type is set from `bodyFormat`) */
+  headers?: Record<string, string>;
+  /** Request body layout (default: 'json') */
+  bodyFormat?: HttpBodyFormat;
+  /** Send once this many entries are queued (default: 100) */
+  batchSize?: number;
+  /** Send once this many bytes are queued; also caps the size of one batch (default: 1 MiB) */
+  batchBytes?: number;
+  /** Send queued entries at least this often in milliseconds (default: 5000) */
+  flushInterval?: number;
+  /** Retries after a failed request; network errors, 408, 429 and 5xx are retried (default: 3) */
+  maxRetries?: number;
+  /** Base delay before the first retry in milliseconds, doubled on every retry (default: 500) */
+  retryDelay?: number;
+  /** Upper bound for the retry delay in milliseconds (default: 30000) */
+  maxRetryDelay?: number;
+  /** Abort a request after this many milliseconds (default: 10000) */
+  timeout?: number;
+  /** Maximum number of requests in flight at once (default: 2) */
+  maxInFlight?: number;
+  /** Maximum number of queued entries (default: 10000) */
+  maxQueueSize?: number;
+  /** What to do with entries that don't fit the queue or fail after all retries (default: 'drop') */
+  overflow?: HttpOverflowStrategy;
+  /** File for spilled entries (default: loggical-http-spill.ndjson in the OS temp directory) */
+  spillFile?: string;
+}
+
+/**
+ * How a beacon transport currently sends batches
+ * - `fetch`: keepalive fetch requests while the page is visible
+ * - `beacon`: navigator.sendBeacon once the page is hidden or unloading
+ */
+export type BeaconTransportMode = 'fetch' | 'beacon';
+
+/**
+ * Options for the beacon transport
+ */
+export interface BeaconTransportOptions extends TransportOptions {
+  /** Endpoint that receives the batches */
+  url: string;
+  /** Extra request headers for fetch requests; beacons can't carry headers */
+  headers?: Record<string, string>;
+  /** Request body layout (default: 'ndjson') */
+  bodyFormat?: HttpBodyFormat;
+  /** Send once this many entries are queued (default: 50) */
+  batchSize?: number;
+  /** Send queued entries at least this often in milliseconds (default: 5000) */
+  flushInterval?: number;
+  /** Largest request body in bytes; bigger batches are split and bigger entries dropped (default: 60000) */
+  maxPayloadBytes?: number;
+  /** Maximum number of queued entries (default: 1000) */
+  maxQueueSize?: number;
 }
 
+/**
+ * Syslog message format
+ * - `rfc5424`: current syslog protocol with structured data
+ * - `rfc3164`: legacy BSD syslog format
+ */
+export type SyslogFormat = 'rfc5424' | 'rfc3164';
+
+/**
+ * How the syslog transport reaches the daemon
+ * - `udp`: one datagram per message
+ * - `tcp`: stream with octet-counting framing (RFC 6587)
+ * - `unix`: Unix domain socket, `/dev/log` by default (see SyslogUnixSocketType)
+ */
+export type SyslogProtocol = 'udp' | 'tcp' | 'unix';
+
+/**
+ * Socket type of the syslog daemon's Unix socket
+ * - `dgram`: one datagram per message, like `/dev/log` on most systems
+ *   (needs the optional `unix-dgram` package)
+ * - `stream`: newline-framed stream, e.g. a syslog-ng `unix-stream()` source
+ */
+export type SyslogUnixSocketType = 'dgram' | 'stream';
+
+/**
+ * Syslog facility names (RFC 5424 section 6.2.1)
+ */
+export type SyslogFacility =
+  'kern' | 'user' | 'mail' | 'daemon' | 'auth' | 'syslog' | 'lpr' | 'news' |
+  'uucp' | 'cron' | 'authpriv' | 'ftp' | 'ntp' | 'security' | 'console' | 'solaris-cron' |
+  'local0' | 'local1' | 'local2' | 'local3' | 'local4' | 'local5' | 'local6' | 'local7';
+
+/**
+ * Connection state of a stream-based syslog transport
+ */
+export type SyslogConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+/**
+ * Options for the syslog transport
+ */
+export interface SyslogTransportOptions extends TransportOptions {
+  /** Transport protocol (default: 'udp') */
+  protocol?: SyslogProtocol;
+  /** Syslog host for UDP and TCP (default: 'localhost') */
+  host?: string;
+  /** Syslog port for UDP and TCP (default: 514) */
+  port?: number;
+  /** Socket path for the Unix protocol (default: '/dev/log') */
+  path?: string;
+  /** Socket type for the Unix protocol (default: 'dgram') */
+  unixSocketType?: SyslogUnixSocketType;
+  /** Message format (default: 'rfc5424') */
+  format?: SyslogFormat;
+  /** Facility name or code (default: 'user') */
+  facility?: SyslogFacility | number;
+  /** APP-NAME / TAG field (default: process.title) */
+  appName?: string;
+  /** HOSTNAME field (default: os.hostname()) */
+  hostname?: string;
+  /** SD-ID used for context in RFC 5424 structured data (default: 'context@32473') */
+  structuredDataId?: string;
+  /** Whether to reconnect TCP and Unix sockets after they close (default: true) */
+  reconnect?: boolean;
+  /** Delay before a reconnection attempt, multiplied by the attempt number (default: 1000) */
+  reconnectDelay?: number;
+  /** Give up after this many consecutive reconnection attempts (default: 10) */
+  maxReconnectAttempts?: number;
+  /** Messages kept while disconnected (default: 1000) */
+  maxBufferSize?: number;
+}
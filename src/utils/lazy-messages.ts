@@ -0,0 +1,96 @@
+/**
+ * Lazy message evaluation
+ *
+ * Log calls can wrap expensive values with `lazy()` so the work only
+ * happens when the level is enabled:
+ * `logger.debug('State', lazy(() => expensiveDump()))`
+ *
+ * Plain functions are logged as values and never called, so logging a
+ * callback or class can't run it, unless the logger opts in with
+ * `lazyMessages: true`: then `logger.debug(() => expensiveDump())` works too.
+ */
+
+const LAZY_MESSAGE = Symbol('loggical.lazyMessage');
+
+/**
+ * A log message argument evaluated only when the log call is written
+ */
+export interface LazyMessage<T = unknown> {
+  readonly [LAZY_MESSAGE]: () => T;
+}
+
+/**
+ * Defer an expensive log message argument until the level is enabled
+ *
+ * The function is called at most once per log call, synchronously. If it
+ * throws, the thrown error is logged in its place.
+ *
+ * @param fn Function returning the value to log
+ * @returns Lazy message argument
+ *
+ * @example
+ * ```typescript
+ * logger.debug('Cache state', lazy(() => cache.dump())); // dump() only runs when DEBUG is enabled
+ * ```
+ */
+export function lazy<T>(fn: () => T): LazyMessage<T> {
+  return { [LAZY_MESSAGE]: fn };
+}
+
+/**
+ * Check if a message argument was wrapped with lazy()
+ */
+export function isLazyMessage(message: unknown): message is LazyMessage {
+  return typeof message === 'object' && message !== null && LAZY_MESSAGE in message;
+}
+
+/**
+ * Check if a bare function can be called as a lazy message
+ * Only functions without parameters qualify; classes can't be called.
+ */
+function isMessageThunk(message: unknown): message is () => unknown {
+  return typeof message === 'function' &&
+    message.length === 0 &&
+    !Function.prototype.toString.call(message).startsWith('class');
+}
+
+/**
+ * Evaluate a lazy message
+ * A promise result is logged as is, but its rejection is marked as
+ * handled so a deferred async helper can't cause an unhandled rejection.
+ */
+function evaluateLazyMessage(fn: () => unknown): unknown {
+  try {
+    const value = fn();
+    if (value instanceof Promise) {
+      value.catch(() => {});
+    }
+    return value;
+  } catch (error) {
+    return error;
+  }
+}
+
+/**
+ * Replace lazy messages with their values
+ * @param messages Log call arguments
+ * @param callFunctions Also call bare functions without parameters (the `lazyMessages` option)
+ * @returns The same array when there are no lazy messages, otherwise a resolved copy
+ */
+export function resolveLazyMessages(messages: unknown[], callFunctions = false): unknown[] {
+  const getThunk = (message: unknown): (() => unknown) | undefined => {
+    if (isLazyMessage(message)) {
+      return message[LAZY_MESSAGE];
+    }
+    return callFunctions && isMessageThunk(message) ? message : undefined;
+  };
+
+  if (!messages.some(message => getThunk(message))) {
+    return messages;
+  }
+
+  return messages.map((message) => {
+    const thunk = getThunk(message);
+    return thunk ? evaluateLazyMessage(thunk) : message;
+  });
+}
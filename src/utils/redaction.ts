@@ -1,13 +1,20 @@
 /**
- * Simple redaction system for basic sensitive data patterns
+ * Key-, path- and value-pattern-based redaction of sensitive data
  */
 
-import type { RedactionOption } from '@/types/redaction.types';
+import * as crypto from 'node:crypto';
+import type {
+  CensorStrategy,
+  RedactionConfig,
+  RedactionOption,
+} from '@/types/redaction.types';
+import { isNodeEnvironment } from '@environment/detection';
+import { VALUE_PATTERNS, type ValuePattern } from './value-patterns';
 
 // Basic sensitive key patterns (case-insensitive)
 const SENSITIVE_KEYS = [
   'password',
-  'passwd', 
+  'passwd',
   'pwd',
   'secret',
   'token',
@@ -22,48 +29,310 @@ const SENSITIVE_KEYS = [
 
 const REDACTED_VALUE = '***';
 
+/** Characters of each string scanned for value patterns by default */
+const DEFAULT_MAX_SCAN_LENGTH = 10_000;
 
+/** Marker for values whose key should be left out */
+const REMOVE = Symbol('remove');
+
+/**
+ * Redaction configuration prepared for matching
+ */
+export interface CompiledRedaction {
+  keys: string[];
+  allowKeys: Set<string>;
+  exact: boolean;
+  paths: string[][];
+  strategy: CensorStrategy;
+  censor: string;
+  hashKey?: string;
+  valuePatterns: ValuePattern[];
+  maxScanLength: number;
+}
+
+const compiledConfigs = new WeakMap<RedactionConfig, CompiledRedaction>();
+
+/**
+ * Key name in the form used for exact matching
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replaceAll(/[_-]/g, '');
+}
+
+function compileValuePatterns(config: RedactionConfig): ValuePattern[] {
+  const { patterns = true, customPatterns = [] } = config;
+  const names = patterns === true ? Object.keys(VALUE_PATTERNS) : (patterns || []);
+  const builtIns = names.map(name => VALUE_PATTERNS[name as keyof typeof VALUE_PATTERNS]);
+  // Match indices locate the secret group inside each match
+  const custom = customPatterns.map(pattern => ({
+    regex: new RegExp(pattern.source, `${pattern.flags.replaceAll(/[dg]/g, '')}dg`),
+  }));
+  return [...builtIns, ...custom];
+}
+
+function compileConfig(config: RedactionConfig): CompiledRedaction {
+  const exact = config.match === 'exact';
+  const prepare = (key: string) => (exact ? normalizeKey(key) : key.toLowerCase());
+  const strategy = config.strategy ?? 'fixed';
+
+  if (strategy === 'hash' && !config.hashKey) {
+    throw new Error('Redaction strategy "hash" requires a hashKey');
+  }
+
+  return {
+    keys: [...SENSITIVE_KEYS, ...(config.keys ?? [])].map(key => prepare(key)),
+    allowKeys: new Set((config.allowKeys ?? []).map(key => prepare(key))),
+    exact,
+    paths: (config.paths ?? []).map(path => path.split('.')),
+    strategy,
+    censor: config.censor ?? REDACTED_VALUE,
+    hashKey: config.hashKey,
+    valuePatterns: compileValuePatterns(config),
+    maxScanLength: config.maxScanLength ?? DEFAULT_MAX_SCAN_LENGTH,
+  };
+}
+
+const DEFAULT_REDACTION = compileConfig({});
+
+/**
+ * Resolve a redaction option, caching compiled configurations
+ * @param redaction Redaction option of a logger
+ * @returns Compiled redaction, or undefined when redaction is disabled
+ * @throws Error if the configuration is invalid
+ */
+export function compileRedaction(redaction: RedactionOption | undefined): CompiledRedaction | undefined {
+  if (redaction === true) {
+    return DEFAULT_REDACTION;
+  }
+  if (!redaction || redaction.enabled === false) {
+    return undefined;
+  }
+
+  let compiled = compiledConfigs.get(redaction);
+  if (!compiled) {
+    compiled = compileConfig(redaction);
+    compiledConfigs.set(redaction, compiled);
+  }
+  return compiled;
+}
 
 /**
  * Check if a key name indicates sensitive data
  * @param key The key name to check
+ * @param redaction Compiled redaction configuration
  * @returns True if the key appears to contain sensitive data
  */
-function isSensitiveKey(key: string): boolean {
+function isSensitiveKey(key: string, redaction: CompiledRedaction): boolean {
+  if (redaction.exact) {
+    const normalizedKey = normalizeKey(key);
+    return !redaction.allowKeys.has(normalizedKey) && redaction.keys.includes(normalizedKey);
+  }
+
   const lowerKey = key.toLowerCase();
-  return SENSITIVE_KEYS.some((pattern) => {
-    const lowerPattern = pattern.toLowerCase();
-    return (
-      lowerKey === lowerPattern || // Exact match
-      lowerKey.includes(lowerPattern) || // Substring match
-      lowerKey.endsWith(`_${lowerPattern}`) || // Underscore suffix
-      lowerKey.endsWith(`-${lowerPattern}`)
-    ); // Dash suffix
-  });
+  if (redaction.allowKeys.has(lowerKey)) {
+    return false;
+  }
+  return redaction.keys.some(pattern => (
+    lowerKey === pattern || // Exact match
+    lowerKey.includes(pattern) || // Substring match
+    lowerKey.endsWith(`_${pattern}`) || // Underscore suffix
+    lowerKey.endsWith(`-${pattern}`) // Dash suffix
+  ));
+}
+
+/**
+ * Check if a path is selected by one of the configured paths
+ */
+function isSelectedPath(path: string[], redaction: CompiledRedaction): boolean {
+  return redaction.paths.some(selector => (
+    selector.length === path.length &&
+    selector.every((segment, index) => segment === '*' || segment === path[index])
+  ));
+}
+
+function hashValue(text: string, hashKey: string): string {
+  return `hmac:${crypto.createHmac('sha256', hashKey).update(text).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Replacement for a sensitive value, or REMOVE to leave its key out
+ */
+function censorValue(value: unknown, redaction: CompiledRedaction): unknown {
+  const { strategy, censor } = redaction;
+  const isText = typeof value === 'string' || typeof value === 'number' || typeof value === 'bigint';
+  const text = isText ? String(value) : '';
+
+  switch (strategy) {
+    case 'remove': {
+      return REMOVE;
+    }
+    case 'mask': {
+      return isText ? '*'.repeat(text.length) : censor;
+    }
+    case 'last4': {
+      if (!isText) {
+        return censor;
+      }
+      return text.length > 4 ? `${'*'.repeat(text.length - 4)}${text.slice(-4)}` : '*'.repeat(text.length);
+    }
+    case 'hash': {
+      // Sync HMAC needs node:crypto; browser bundles get an empty stub, so fall back to the fixed censor
+      if (!redaction.hashKey || !isNodeEnvironment() || typeof crypto.createHmac !== 'function') {
+        return censor;
+      }
+      return hashValue(isText ? text : JSON.stringify(value) ?? String(value), redaction.hashKey);
+    }
+    default: {
+      return censor;
+    }
+  }
 }
 
 /**
- * Redact sensitive values in an object (simplified)
+ * Censor a secret found inside a string
+ */
+function censorText(secret: string, redaction: CompiledRedaction): string {
+  const censored = censorValue(secret, redaction);
+  return censored === REMOVE ? redaction.censor : String(censored);
+}
+
+/**
+ * Redact value-pattern matches in a string
+ *
+ * Matches of all patterns are collected first and overlapping ones are
+ * dropped, so a secret is censored once even if several patterns find it.
+ */
+function redactString(text: string, redaction: CompiledRedaction): string {
+  if (redaction.valuePatterns.length === 0) {
+    return text;
+  }
+
+  const scanned = text.length > redaction.maxScanLength ? text.slice(0, redaction.maxScanLength) : text;
+  const matches: Array<{ start: number; secret: string }> = [];
+
+  for (const { regex, validate } of redaction.valuePatterns) {
+    for (const match of scanned.matchAll(regex)) {
+      const secret = match.groups?.secret ?? match[0];
+      if (secret && (!validate || validate(secret))) {
+        matches.push({ start: match.indices?.groups?.secret?.[0] ?? match.index, secret });
+      }
+    }
+  }
+
+  if (matches.length === 0) {
+    return text;
+  }
+
+  matches.sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+  for (const { start, secret } of matches) {
+    if (start >= cursor) {
+      result += text.slice(cursor, start) + censorText(secret, redaction);
+      cursor = start + secret.length;
+    }
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * Redact value patterns in an error's message, stack, cause and sub-errors
+ * Returns the error itself when nothing changed, otherwise a copy with the
+ * same prototype and properties so it still formats as the original class.
+ */
+function redactError(error: Error, redaction: CompiledRedaction, seen: WeakSet<object>): Error {
+  if (redaction.valuePatterns.length === 0 || seen.has(error)) {
+    return error;
+  }
+  seen.add(error);
+
+  const changes = new Map<string, unknown>();
+  for (const key of ['message', 'stack']) {
+    const value: unknown = error[key as keyof Error];
+    if (typeof value === 'string') {
+      const redacted = redactString(value, redaction);
+      if (redacted !== value) {
+        changes.set(key, redacted);
+      }
+    }
+  }
+
+  const { cause, errors } = error as Error & { errors?: unknown };
+  if (cause instanceof Error || typeof cause === 'string') {
+    const redacted = redactObject(cause, redaction, seen);
+    if (redacted !== cause) {
+      changes.set('cause', redacted);
+    }
+  }
+  if (Array.isArray(errors)) {
+    const redacted = errors.map(item => (item instanceof Error ? redactError(item, redaction, seen) : item));
+    if (redacted.some((item, index) => item !== errors[index])) {
+      changes.set('errors', redacted);
+    }
+  }
+
+  if (changes.size === 0) {
+    return error;
+  }
+
+  const copy = Object.create(Object.getPrototypeOf(error), Object.getOwnPropertyDescriptors(error)) as Error;
+  for (const [key, value] of changes) {
+    Object.defineProperty(copy, key, {
+      value,
+      writable: true,
+      configurable: true,
+      enumerable: Object.getOwnPropertyDescriptor(error, key)?.enumerable ?? false,
+    });
+  }
+  return copy;
+}
+
+/**
+ * Redact one keyed entry of an object, array or Map
+ */
+function redactEntry(
+  key: string,
+  value: unknown,
+  path: string[],
+  redaction: CompiledRedaction,
+  seen: WeakSet<object>,
+): unknown {
+  const childPath = [...path, key];
+  if (isSelectedPath(childPath, redaction)) {
+    return censorValue(value, redaction);
+  }
+  return redactObject(value, redaction, seen, childPath);
+}
+
+/**
+ * Redact sensitive values in an object
  * @param obj The object to redact
- * @param enabled Whether redaction is enabled
+ * @param redaction Compiled redaction configuration
  * @param seen WeakSet to track circular references
+ * @param path Keys leading to this object, for path selectors
  * @returns New object with sensitive values redacted
  */
 function redactObject(
   obj: unknown,
-  enabled: boolean,
-  seen = new WeakSet(),
+  redaction: CompiledRedaction,
+  seen: WeakSet<object>,
+  path: string[] = [],
 ): unknown {
-  if (!enabled || obj === null || obj === undefined) {
-    return obj;
+  if (typeof obj === 'string') {
+    return redactString(obj, redaction);
   }
 
-  if (typeof obj !== 'object') {
+  if (obj === null || obj === undefined || typeof obj !== 'object') {
     return obj;
   }
 
-  // Don't redact Error objects - they need special handling
+  // Errors keep their identity; only secrets in their text are redacted
   if (obj instanceof Error) {
+    return redactError(obj, redaction, seen);
+  }
+
+  // Dates and binary data have no keys to redact
+  if (obj instanceof Date || obj instanceof ArrayBuffer || ArrayBuffer.isView(obj)) {
     return obj;
   }
 
@@ -73,20 +342,36 @@ function redactObject(
   }
   seen.add(obj);
 
-  if (Array.isArray(obj)) {
-    return obj.map(item => redactObject(item, enabled, seen));
+  if (Array.isArray(obj) || obj instanceof Set) {
+    const items = [...obj]
+      .map((item, index) => redactEntry(String(index), item, path, redaction, seen))
+      .filter(item => item !== REMOVE);
+    return Array.isArray(obj) ? items : new Set(items);
   }
 
-  // Handle regular objects
-  const result: Record<string, unknown> = {};
+  if (obj instanceof Map) {
+    const entries: Array<[unknown, unknown]> = [];
+    for (const [key, value] of obj) {
+      const redacted = typeof key === 'string' && isSensitiveKey(key, redaction)
+        ? censorValue(value, redaction)
+        : redactEntry(String(key), value, path, redaction, seen);
+      if (redacted !== REMOVE) {
+        entries.push([key, redacted]);
+      }
+    }
+    return new Map(entries);
+  }
+
+  // Handle regular objects, keeping the prototype so class instances
+  // still render as themselves
+  const result = Object.create(Object.getPrototypeOf(obj)) as Record<string, unknown>;
 
   for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-    if (isSensitiveKey(key)) {
-      result[key] = REDACTED_VALUE;
-    } else if (typeof value === 'object' && value !== null) {
-      result[key] = redactObject(value, enabled, seen);
-    } else {
-      result[key] = value;
+    const redacted = isSensitiveKey(key, redaction)
+      ? censorValue(value, redaction)
+      : redactEntry(key, value, path, redaction, seen);
+    if (redacted !== REMOVE) {
+      result[key] = redacted;
     }
   }
 
@@ -94,37 +379,35 @@ function redactObject(
 }
 
 /**
- * Apply redaction to any value (simplified)
+ * Apply redaction to any value
  * @param value The value to redact
- * @param enabled Whether redaction is enabled
+ * @param redaction Redaction option (`true`, `false` or a configuration)
  * @returns Redacted value
  */
 export function redactValueWithOptions(
   value: unknown,
-  enabled: boolean,
+  redaction: RedactionOption | undefined,
 ): unknown {
-  if (!enabled) {
+  const compiled = compileRedaction(redaction);
+  if (!compiled) {
     return value;
   }
 
-  if (typeof value === 'object' && value !== null) {
-    return redactObject(value, enabled);
-  }
-
-  return value;
+  return redactObject(value, compiled, new WeakSet());
 }
 
 /**
- * Apply object redaction (simplified)
+ * Apply object redaction
  * @param obj The object to redact
- * @param enabled Whether redaction is enabled
+ * @param redaction Redaction option (`true`, `false` or a configuration)
  * @param seen WeakSet to track circular references
  * @returns Redacted object
  */
 export function redactObjectWithOptions(
   obj: unknown,
-  enabled: boolean,
-  seen = new WeakSet(),
+  redaction: RedactionOption | undefined,
+  seen = new WeakSet<object>(),
 ): unknown {
-  return redactObject(obj, enabled, seen);
+  const compiled = compileRedaction(redaction);
+  return compiled ? redactObject(obj, compiled, seen) : obj;
 }
@@ -1,3 +1,5 @@
+import { serializeType } from './type-serializers';
+
 export function isPrimitive(obj: unknown): boolean {
   return obj === null || obj === undefined ||
     typeof obj === 'string' || typeof obj === 'number' || typeof obj === 'boolean' ||
@@ -9,28 +11,27 @@ export function isNullOrUndefined(obj: unknown): boolean {
 }
 
 /**
- * JSON replacer function that handles BigInt values and circular references
- * @param key The object key
- * @param value The value to serialize
+ * JSON replacer function that applies type serializers and handles circular references
  * @param seen Set of already seen objects to detect circular references
- * @returns The value to use in serialization
+ * @returns Replacer returning the value to use in serialization
  */
 export function createReplacer(seen = new WeakSet()): (key: string, value: unknown) => unknown {
-  return function replacer(_key: string, value: unknown): unknown {
-    // Handle BigInt values by converting to string (preserves full precision)
-    if (typeof value === 'bigint') {
-      return `${value.toString()}n`;
-    }
+  return function replacer(this: unknown, key: string, value: unknown): unknown {
+    // Look at the value before toJSON ran, so Buffers and Dates reach their serializers
+    const holder = this as Record<string, unknown> | undefined;
+    const raw = holder && typeof holder === 'object' && key in holder ? holder[key] : value;
 
     // Handle circular references
-    if (typeof value === 'object' && value !== null) {
-      if (seen.has(value)) {
+    if (typeof raw === 'object' && raw !== null) {
+      if (seen.has(raw)) {
         return '[Circular Reference]';
       }
-      seen.add(value);
+      seen.add(raw);
     }
 
-    return value;
+    // BigInt, Map, Set, Buffer, class instances, ...
+    const serialized = serializeType(raw);
+    return serialized === raw ? value : serialized;
   };
 }
 
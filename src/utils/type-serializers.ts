@@ -0,0 +1,153 @@
+/**
+ * Type serializer registry
+ *
+ * JSON.stringify and the object formatters only understand plain objects
+ * and arrays: Maps and Sets come out as `{}`, typed arrays as index maps,
+ * Buffers as byte dumps and BigInt throws. Type serializers turn such
+ * values into plain data before they are formatted. Built-ins cover the
+ * standard types; `registerTypeSerializer` adds rules for domain types.
+ */
+
+import type { TypeSerializer } from '@/types/logger.types';
+
+/** Bytes and items shown before binary data and typed arrays are cut off */
+const MAX_ITEMS = 50;
+
+/**
+ * Check for objects created by a class (not plain objects, arrays or errors)
+ */
+function isClassInstance(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || value instanceof Error) {
+    return false;
+  }
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype !== null && prototype !== Object.prototype;
+}
+
+function isBuffer(value: unknown): value is Uint8Array {
+  const buffer = (globalThis as { Buffer?: { isBuffer(value: unknown): boolean } }).Buffer;
+  return buffer !== undefined && buffer.isBuffer(value);
+}
+
+function formatBytes(bytes: Uint8Array): string {
+  const hex = Array.from(bytes.subarray(0, MAX_ITEMS), byte => byte.toString(16).padStart(2, '0'));
+  const more = bytes.length > MAX_ITEMS ? ` ... ${bytes.length - MAX_ITEMS} more bytes` : '';
+  return `<Buffer ${hex.join(' ')}${more}>`;
+}
+
+function isPrimitiveValue(value: unknown): value is string | number | boolean | bigint | symbol | null | undefined {
+  return (typeof value !== 'object' && typeof value !== 'function') || value === null;
+}
+
+/**
+ * Serializers for built-in types, tried after registered ones
+ * Class instances come last as the catch-all for non-plain objects.
+ */
+const BUILT_IN_SERIALIZERS: readonly TypeSerializer[] = [
+  {
+    name: 'bigint',
+    test: value => typeof value === 'bigint',
+    serialize: (value: bigint) => `${value.toString()}n`,
+  },
+  {
+    name: 'date',
+    test: value => value instanceof Date,
+    serialize: (value: Date) => (Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()),
+  },
+  {
+    name: 'map',
+    test: value => value instanceof Map,
+    // Object form when every key is a primitive, entry pairs otherwise
+    serialize: (value: Map<unknown, unknown>) => ([...value.keys()].every(key => isPrimitiveValue(key))
+      ? Object.fromEntries([...value].map(([key, entry]) => [String(key), entry]))
+      : [...value]),
+  },
+  {
+    name: 'set',
+    test: value => value instanceof Set,
+    serialize: (value: Set<unknown>) => [...value],
+  },
+  {
+    name: 'buffer',
+    test: isBuffer,
+    serialize: formatBytes,
+  },
+  {
+    name: 'typedArray',
+    test: value => ArrayBuffer.isView(value) && !(value instanceof DataView),
+    serialize: (value: ArrayLike<number | bigint>) => {
+      const items: unknown[] = Array.from({ length: Math.min(value.length, MAX_ITEMS) }, (_, index) => value[index]);
+      if (value.length > MAX_ITEMS) {
+        items.push(`... ${value.length - MAX_ITEMS} more items`);
+      }
+      return items;
+    },
+  },
+  {
+    name: 'arrayBuffer',
+    test: value => value instanceof ArrayBuffer || value instanceof DataView,
+    serialize: (value: ArrayBuffer | DataView) => `[${value.constructor.name}: ${value.byteLength} bytes]`,
+  },
+  {
+    name: 'regexp',
+    test: value => value instanceof RegExp,
+    serialize: String,
+  },
+  {
+    name: 'classInstance',
+    test: isClassInstance,
+    // Honor toJSON (URL, Decimal, ...), otherwise keep the own enumerable fields
+    serialize: (value: object & { toJSON?: () => unknown }) => (typeof value.toJSON === 'function'
+      ? value.toJSON()
+      : { ...value }),
+  },
+];
+
+const registeredSerializers: TypeSerializer[] = [];
+
+/**
+ * Register a serializer for a type
+ * Registered serializers run before the built-in ones, in registration
+ * order; registering a name again replaces the earlier serializer.
+ * @param serializer Serializer to register
+ */
+export function registerTypeSerializer<T>(serializer: TypeSerializer<T>): void {
+  unregisterTypeSerializer(serializer.name);
+  registeredSerializers.push(serializer);
+}
+
+/**
+ * Remove a registered serializer
+ * @param name Name of the serializer
+ * @returns True if a serializer was removed
+ */
+export function unregisterTypeSerializer(name: string): boolean {
+  const index = registeredSerializers.findIndex(serializer => serializer.name === name);
+  if (index === -1) {
+    return false;
+  }
+  registeredSerializers.splice(index, 1);
+  return true;
+}
+
+/**
+ * Turn a value into plain data with the first matching serializer
+ * @param value Value to serialize
+ * @returns The serialized value, or the value itself when no serializer applies
+ */
+export function serializeType(value: unknown): unknown {
+  if (isPrimitiveValue(value) && typeof value !== 'bigint') {
+    return value;
+  }
+
+  for (const serializer of [...registeredSerializers, ...BUILT_IN_SERIALIZERS]) {
+    if (serializer.test(value)) {
+      try {
+        return serializer.serialize(value);
+      } catch (error) {
+        return `[Serializer "${serializer.name}" failed: ${error instanceof Error ? error.message : String(error)}]`;
+      }
+    }
+  }
+  return value;
+}
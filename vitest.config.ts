@@ -1,12 +1,17 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vitest/config';
 import tsconfigPaths from 'vite-tsconfig-paths';
 
 export default defineConfig({
   plugins: [tsconfigPaths()],
+  resolve: {
+    // Plugin tests run against the library source
+    alias: { loggical: fileURLToPath(new URL('src/index.ts', import.meta.url)) },
+  },
   test: {
     globals: true,
     environment: 'node',
-    include: ['src/**/*.{test,spec}.{js,ts}'],
+    include: ['src/**/*.{test,spec}.{js,ts}', 'plugins/advanced-redaction-plugin/src/**/*.{test,spec}.{js,ts}'],
     env: {
       FORCE_COLOR: '1',
       NO_COLOR: undefined,